@@ -1,9 +1,45 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Note, SearchMode, SearchResult, ProcessingStatus, ClusterNode } from './types';
+import { Note, SearchMode, SearchResult, ProcessingStatus, ClusterEdit, ClusterNode, ClusteringAlgorithm, ClusteringReport, ClusterSnapshot, ConstraintSet, EmbeddingFailure, EmbeddingMigrationProgress, SupervisionSignal } from './types';
 import { semanticSearchWithGemini, correctTextWithGemini } from './services/geminiService';
-import { incrementalCluster, fullSemanticClustering } from './services/clusteringService';
-import { executeExactSearch, executeHybridSearch } from './services/searchService';
-import { getAllNotes, saveNote, deleteNote, bulkSaveNotes } from './services/storageService';
+import {
+  incrementalCluster,
+  fullSemanticClustering,
+  evaluateClusterQuality,
+  addUserConstraint,
+  clusterHistoryState,
+  mergeClusters,
+  moveSubcluster,
+  pinNoteToCluster,
+  readAutoTune,
+  readClusteringAlgorithm,
+  readClusteringReports,
+  readMaxDepth,
+  readUserConstraints,
+  recordClusterCommand,
+  recordManualMove,
+  redoClusterCommand,
+  removeUserConstraint,
+  renameCluster,
+  restoreClusterSnapshot,
+  splitCluster,
+  takeClusterSnapshot,
+  undoClusterCommand,
+  writeAutoTune,
+  writeClusteringAlgorithm,
+  writeMaxDepth
+} from './services/clusteringService';
+import {
+  getEmbeddingFailures,
+  migrateEmbeddings,
+  needsEmbeddingMigration,
+  pruneOrphanedEmbeddings,
+  retryFailedEmbeddings
+} from './services/embeddingService';
+import { DEFAULT_SEMANTIC_SOURCE, SearchOptions, executeExactSearch, executeHybridSearch, searchBarOptions } from './services/searchService';
+import { onWorkerProgress } from './services/clusteringWorkerClient';
+import { isAbortError } from './services/requestScheduler';
+import { getLLMProvider, onLLMProviderChange } from './services/llmProvider';
+import { getAllNotes, saveNote, deleteNote, bulkSaveNotes, deleteClusterSnapshots, getClusterSnapshots } from './services/storageService';
 import {
   SearchIcon,
   FileTextIcon,
@@ -24,6 +60,9 @@ import {
 } from './components/Icons';
 import ClusterGraph from './components/ClusterGraph';
 import ConfirmationModal from './components/ConfirmationModal';
+import ClusteringReportPanel from './components/ClusteringReportPanel';
+import ConstraintsPanel from './components/ConstraintsPanel';
+import SnapshotsPanel from './components/SnapshotsPanel';
 
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
@@ -365,6 +404,20 @@ const SearchResultItem: React.FC<SearchResultItemProps> = ({ result, onClick })
         <span className="font-bold">AI Reason:</span> {result.reason}
       </div>
     )}
+    {result.sources && (result.sources.exact || result.sources.semantic) && (
+      <div className="mt-1 text-[10px] font-mono text-muted" title="Rank and raw score from each search source">
+        {result.sources.exact && (
+          <span className="mr-3">
+            Exact #{result.sources.exact.rank} ({Math.round(result.sources.exact.score)})
+          </span>
+        )}
+        {result.sources.semantic && (
+          <span>
+            Semantic #{result.sources.semantic.rank} ({Math.round(result.sources.semantic.score)})
+          </span>
+        )}
+      </div>
+    )}
     <div className="mt-2 flex gap-2">
       {result.note.tags.map(tag => (
         <span
@@ -548,6 +601,9 @@ const App = () => {
   const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchMode, setSearchMode] = useState<SearchMode>(SearchMode.EXACT);
+  // Semantic half of AI Hybrid search
+  const [hybridSource, setHybridSource] = useState<SearchOptions['semanticSource']>(DEFAULT_SEMANTIC_SOURCE);
+  const [useRegex, setUseRegex] = useState(false);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [status, setStatus] = useState<ProcessingStatus>({ isProcessing: false, message: '' });
   const [viewMode, setViewMode] = useState<'editor' | 'graph'>('editor');
@@ -555,6 +611,8 @@ const App = () => {
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [isDbLoaded, setIsDbLoaded] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [embeddingMigration, setEmbeddingMigration] = useState<EmbeddingMigrationProgress | null>(null);
+  const [embeddingFailures, setEmbeddingFailures] = useState<EmbeddingFailure[]>([]);
 
   // IMPORTANT FIX: keep latest notes available for async saves
   const notesRef = useRef<Note[]>([]);
@@ -562,9 +620,29 @@ const App = () => {
     notesRef.current = notes;
   }, [notes]);
 
+  // In-flight search and clustering; a new query aborts the previous search, unmounting aborts both
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const clusterAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => {
+    searchAbortRef.current?.abort();
+    clusterAbortRef.current?.abort();
+  }, []);
+
   // Clustering State
   const [clusters, setClusters] = useState<ClusterNode[]>([]);
   const [hasClustered, setHasClustered] = useState(false);
+  const [clusteringAlgorithm, setClusteringAlgorithm] = useState<ClusteringAlgorithm>(readClusteringAlgorithm);
+  const [autoTune, setAutoTune] = useState(readAutoTune);
+  const [maxDepth, setMaxDepth] = useState(readMaxDepth);
+  const [clusteringReports, setClusteringReports] = useState<ClusteringReport[]>(readClusteringReports);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [userConstraints, setUserConstraints] = useState<ConstraintSet>(readUserConstraints);
+  const [isConstraintsOpen, setIsConstraintsOpen] = useState(false);
+  const [clusterHistory, setClusterHistory] = useState(clusterHistoryState);
+  const [snapshots, setSnapshots] = useState<ClusterSnapshot[]>([]);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [isSavingSnapshot, setIsSavingSnapshot] = useState(false);
 
   // Note: Cache clearing removed - we want to preserve incremental clustering state
   // To force full re-clustering, user can clear browser cache manually
@@ -612,30 +690,32 @@ const App = () => {
     const newFolderPath = `/${targetClusterName.replace(/[\\/:*?"<>|]/g, '')}`;
 
     await handleUpdateNote(noteId, 'folder', newFolderPath);
-
-    setClusters(prev => {
-      return prev.map(cluster => {
-        if (cluster.children?.some(c => c.noteId === noteId) && cluster.id !== targetClusterId) {
-          return {
-            ...cluster,
-            children: cluster.children.filter(c => c.noteId !== noteId)
-          };
-        }
-        if (cluster.id === targetClusterId) {
-          const noteNode = {
-            id: `node-${noteId}`,
-            name: moveRequest.noteTitle,
-            type: 'note' as const,
-            noteId
-          };
-          return {
-            ...cluster,
-            children: [...(cluster.children || []), noteNode]
-          };
-        }
-        return cluster;
-      });
+    // The next clustering runs keep the note where the user put it
+    setUserConstraints(recordManualMove(noteId, targetClusterId, targetClusterName));
+
+    const moved = clusters.map(cluster => {
+      if (cluster.children?.some(c => c.noteId === noteId) && cluster.id !== targetClusterId) {
+        return {
+          ...cluster,
+          children: cluster.children.filter(c => c.noteId !== noteId)
+        };
+      }
+      if (cluster.id === targetClusterId) {
+        const noteNode = {
+          id: `node-${noteId}`,
+          name: moveRequest.noteTitle,
+          type: 'note' as const,
+          noteId
+        };
+        return {
+          ...cluster,
+          children: [...(cluster.children || []), noteNode]
+        };
+      }
+      return cluster;
     });
+    setClusters(recordClusterCommand('moveNote', `Move "${moveRequest.noteTitle}" to "${targetClusterName}"`, clusters, moved));
+    setClusterHistory(clusterHistoryState());
 
     setMoveRequest(null);
   };
@@ -647,6 +727,8 @@ const App = () => {
         const storedNotes = await getAllNotes();
         setNotes(storedNotes);
         setIsDbLoaded(true);
+        // Embeddings of notes deleted elsewhere (or before embeddings were tied to deletes)
+        pruneOrphanedEmbeddings(storedNotes);
         const allFolders = new Set(storedNotes.map(n => n.folder || '/misc'));
         setExpandedFolders(allFolders);
       } catch (e) {
@@ -657,6 +739,46 @@ const App = () => {
     loadNotes();
   }, []);
 
+  // Switching provider or model can leave stored vectors from another embedding model
+  const [llmProvider, setActiveLLMProvider] = useState(getLLMProvider);
+  useEffect(() => onLLMProviderChange(() => setActiveLLMProvider(getLLMProvider())), []);
+
+  // Re-embed in the background after the embedding model changed (resumes across reloads)
+  useEffect(() => {
+    if (!isDbLoaded || !isOnline) return;
+    const controller = new AbortController();
+
+    const runMigration = async () => {
+      if (!(await needsEmbeddingMigration()) || controller.signal.aborted) return;
+      const result = await migrateEmbeddings(notesRef.current, {
+        signal: controller.signal,
+        onProgress: setEmbeddingMigration
+      });
+      if (result.done) {
+        setTimeout(() => setEmbeddingMigration(null), 5000);
+      }
+    };
+    runMigration().catch(e => console.error('Embedding migration failed', e));
+
+    return () => controller.abort();
+  }, [isDbLoaded, isOnline, llmProvider]);
+
+  // Embedding runs (clustering, search, migration) record notes that failed
+  useEffect(() => {
+    if (!status.isProcessing) setEmbeddingFailures(getEmbeddingFailures());
+  }, [status.isProcessing, embeddingMigration?.done, isDbLoaded]);
+
+  const handleRetryEmbeddings = async () => {
+    setStatus({ isProcessing: true, message: 'Retrying failed embeddings...' });
+    try {
+      await retryFailedEmbeddings(notesRef.current);
+    } catch (e) {
+      console.error('Embedding retry failed:', e);
+    } finally {
+      setStatus({ isProcessing: false, message: '' });
+    }
+  };
+
   // Offline detection
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -673,11 +795,14 @@ const App = () => {
   }, [searchMode]);
 
   const handleSearch = useCallback(async () => {
+    searchAbortRef.current?.abort();
     const trimmed = searchQuery.trim();
     if (!trimmed) {
       setSearchResults([]);
       return;
     }
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
 
     const effectiveMode = !isOnline ? SearchMode.EXACT : searchMode;
 
@@ -685,23 +810,37 @@ const App = () => {
 
     setStatus({
       isProcessing: true,
-      message: effectiveMode === SearchMode.EXACT ? 'Searching...' : 'Searching with hybrid AI...'
+      message:
+        effectiveMode === SearchMode.EXACT
+          ? 'Searching...'
+          : effectiveMode === SearchMode.VECTOR
+          ? 'Searching by vector similarity...'
+          : 'Searching with hybrid AI...'
     });
 
     try {
+      const options = {
+        ...searchBarOptions(effectiveMode, { clusters, semanticSource: hybridSource, useRegex }),
+        signal: controller.signal
+      };
       const results: SearchResult[] =
         effectiveMode === SearchMode.EXACT
-          ? executeExactSearch(trimmed, notes, { mode: SearchMode.EXACT, useRegex: true })
-          : await executeHybridSearch(trimmed, notes, { mode: effectiveMode, useRegex: true });
+          ? executeExactSearch(trimmed, notes, options)
+          : await executeHybridSearch(trimmed, notes, options);
 
       setSearchResults(results);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert('Search failed. Check console.');
     } finally {
-      setStatus({ isProcessing: false, message: '' });
+      // A newer search owns the status now
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setStatus({ isProcessing: false, message: '' });
+      }
     }
-  }, [searchQuery, searchMode, notes, isOnline]);
+  }, [searchQuery, searchMode, hybridSource, useRegex, notes, clusters, isOnline]);
 
   useEffect(() => {
     if (!searchQuery.trim()) {
@@ -717,18 +856,22 @@ const App = () => {
   };
 
   const handleCluster = async () => {
+    const controller = new AbortController();
+    clusterAbortRef.current = controller;
+
     // If clusters already exist, run incremental clustering to add any new notes
     if (hasClustered && clusters.length > 0) {
       setStatus({ isProcessing: true, message: 'Updating clusters with new notes...' });
       try {
         console.log('🔄 Running incremental clustering to update graph...');
         // Pass existing clusters from React state to preserve them
-        const updatedClusters = await incrementalCluster(notes, clusters);
+        const updatedClusters = await incrementalCluster(notes, clusters, { signal: controller.signal });
         setClusters(updatedClusters);
+        setClusterHistory(clusterHistoryState());
         setViewMode('graph');
         console.log('✅ Clusters updated, switching to graph view');
       } catch (e) {
-        console.error('Incremental clustering failed:', e);
+        if (!isAbortError(e)) console.error('Incremental clustering failed:', e);
       } finally {
         setStatus({ isProcessing: false, message: '' });
       }
@@ -736,7 +879,12 @@ const App = () => {
     }
 
     // Initial clustering - use full semantic clustering pipeline
-    setStatus({ isProcessing: true, message: 'Running full semantic clustering pipeline...' });
+    const message = 'Running full semantic clustering pipeline...';
+    setStatus({ isProcessing: true, message });
+    // Embedding math runs in the clustering worker; mirror its progress in the status
+    const stopProgress = onWorkerProgress(({ stage, completed, total }) => {
+      setStatus({ isProcessing: true, message: `${message} (${stage} ${Math.round((completed / Math.max(1, total)) * 100)}%)` });
+    });
     try {
       console.log('🚀 Starting fullSemanticClustering with', notes.length, 'notes');
       const result = await fullSemanticClustering(notes, {
@@ -744,6 +892,10 @@ const App = () => {
         useSemanticEnhancement: true,
         generateCentroids: true,
         detectHardSamples: true,
+        algorithm: clusteringAlgorithm,
+        autoTune,
+        maxDepth,
+        signal: controller.signal,
       });
       
       console.log(`✅ Clustering complete:`, {
@@ -754,12 +906,16 @@ const App = () => {
       });
       
       setClusters(result.clusters);
+      setClusterHistory(clusterHistoryState());
+      setClusteringReports(readClusteringReports());
       setHasClustered(true);
       setViewMode('graph');
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error('Clustering failed:', e);
       alert('Clustering failed. Check console for details.');
     } finally {
+      stopProgress();
       setStatus({ isProcessing: false, message: '' });
     }
   };
@@ -959,7 +1115,9 @@ const App = () => {
         
         // Remove note from clusters instead of resetting everything
         if (hasClustered && clusters.length > 0) {
-          setClusters(prev => removeNoteFromClusters(prev, id));
+          const title = notes.find(n => n.id === id)?.title || 'Untitled';
+          setClusters(recordClusterCommand('deleteNote', `Delete "${title}"`, clusters, removeNoteFromClusters(clusters, id)));
+          setClusterHistory(clusterHistoryState());
         }
 
       try {
@@ -994,6 +1152,131 @@ const App = () => {
     });
   };
 
+  // Measure the clusters as they are now, e.g. after manual moves
+  const handleEvaluateClusters = async () => {
+    setIsEvaluating(true);
+    try {
+      await evaluateClusterQuality(notes, clusters);
+      setClusteringReports(readClusteringReports());
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  // User constraints apply from the next clustering run on
+  const handleAddConstraint = (type: SupervisionSignal['type'], otherNoteId: string) => {
+    if (!activeNote) return;
+    setUserConstraints(addUserConstraint(type, activeNote.id, otherNoteId));
+  };
+
+  const handlePinToCluster = (clusterId: string) => {
+    if (!activeNote) return;
+    setUserConstraints(pinNoteToCluster(activeNote.id, clusterId));
+  };
+
+  const handleRemoveConstraint = (id: string) => {
+    setUserConstraints(removeUserConstraint(id));
+  };
+
+  // Cluster edits from the graph's context menu; each can be undone
+  const handleClusterEdit = async (edit: ClusterEdit) => {
+    try {
+      switch (edit.type) {
+        case 'rename':
+          setClusters(renameCluster(clusters, edit.clusterId, edit.name, edit.description));
+          break;
+        case 'merge':
+          setClusters(mergeClusters(clusters, edit.clusterId, edit.targetId));
+          break;
+        case 'move':
+          setClusters(moveSubcluster(clusters, edit.clusterId, edit.parentId));
+          break;
+        case 'split':
+          setStatus({ isProcessing: true, message: 'Splitting cluster...' });
+          setClusters(await splitCluster(notes, clusters, edit.clusterId, clusteringAlgorithm));
+          break;
+      }
+      setClusterHistory(clusterHistoryState());
+    } catch (e) {
+      console.error('Cluster edit failed:', e);
+      alert(e instanceof Error ? e.message : 'Cluster edit failed.');
+    } finally {
+      if (edit.type === 'split') setStatus({ isProcessing: false, message: '' });
+    }
+  };
+
+  // Snapshots are taken by every clustering run, so reload them whenever the panel opens
+  useEffect(() => {
+    if (!isSnapshotsOpen) return;
+    getClusterSnapshots()
+      .then(setSnapshots)
+      .catch(e => console.error('Failed to load snapshots:', e));
+  }, [isSnapshotsOpen]);
+
+  const handleSaveSnapshot = async (name: string) => {
+    setIsSavingSnapshot(true);
+    try {
+      await takeClusterSnapshot(name, notes, clusters);
+      setSnapshots(await getClusterSnapshots());
+      setClusteringReports(readClusteringReports());
+    } catch (e) {
+      console.error('Saving snapshot failed:', e);
+      alert(e instanceof Error ? e.message : 'Saving snapshot failed.');
+    } finally {
+      setIsSavingSnapshot(false);
+    }
+  };
+
+  // Restoring replaces the current tree; like any cluster change it can be undone
+  const handleRestoreSnapshot = async (id: string) => {
+    try {
+      setClusters(await restoreClusterSnapshot(id, clusters));
+      setClusterHistory(clusterHistoryState());
+      setIsSnapshotsOpen(false);
+    } catch (e) {
+      console.error('Restoring snapshot failed:', e);
+      alert(e instanceof Error ? e.message : 'Restoring snapshot failed.');
+    }
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    if (!window.confirm('Delete this snapshot? This cannot be undone.')) return;
+    await deleteClusterSnapshots([id]);
+    setSnapshots(await getClusterSnapshots());
+  };
+
+  // Undo/redo of any change to the cluster tree (edits, moves, deletes, clustering runs)
+  const handleUndoClusters = useCallback(() => {
+    const restored = undoClusterCommand();
+    if (restored) setClusters(restored);
+    setClusterHistory(clusterHistoryState());
+  }, []);
+
+  const handleRedoClusters = useCallback(() => {
+    const restored = redoClusterCommand();
+    if (restored) setClusters(restored);
+    setClusterHistory(clusterHistoryState());
+  }, []);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndoClusters();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedoClusters();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndoClusters, handleRedoClusters]);
+
   // Memoized callback for ClusterGraph to prevent re-renders on keystroke
   const handleSelectNoteFromGraph = useCallback((id: string) => {
     setActiveNoteId(id);
@@ -1019,14 +1302,39 @@ const App = () => {
             <h2 className="text-xl font-bold flex items-center gap-2">
               <NetworkIcon className="text-primary" /> Knowledge Graph
             </h2>
-            <button onClick={() => setViewMode('editor')} className="text-sm text-muted hover:text-text">
-              Close Graph
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleUndoClusters}
+                disabled={!clusterHistory.undo}
+                className="text-sm text-muted hover:text-text disabled:opacity-40"
+                title={clusterHistory.undo ? `Undo: ${clusterHistory.undo} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                Undo
+              </button>
+              <button
+                onClick={handleRedoClusters}
+                disabled={!clusterHistory.redo}
+                className="text-sm text-muted hover:text-text disabled:opacity-40"
+                title={clusterHistory.redo ? `Redo: ${clusterHistory.redo} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                Redo
+              </button>
+              <button onClick={() => setIsReportOpen(true)} className="text-sm text-muted hover:text-text">
+                Quality Report
+              </button>
+              <button onClick={() => setIsSnapshotsOpen(true)} className="text-sm text-muted hover:text-text">
+                Snapshots
+              </button>
+              <button onClick={() => setViewMode('editor')} className="text-sm text-muted hover:text-text">
+                Close Graph
+              </button>
+            </div>
           </div>
           <div className="flex-1 overflow-hidden">
             <ClusterGraph 
               clusters={clusters} 
               onNoteSelect={handleSelectNoteFromGraph} 
+              onClusterEdit={handleClusterEdit}
             />
           </div>
         </div>
@@ -1078,6 +1386,15 @@ const App = () => {
                     {status.isProcessing && status.message.includes('Fixing') ? 'Polishing...' : 'AI Fix Grammar'}
                   </button>
                 )}
+                <button
+                  onClick={() => setIsConstraintsOpen(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-blue-500/10 text-blue-400 hover:bg-blue-500/20 transition-colors text-xs font-medium border border-blue-500/20"
+                  title="Keep this note together with or apart from other notes when clustering"
+                >
+                  <NetworkIcon className="w-3 h-3" />
+                  Constraints
+                </button>
+
                 <button
                   onClick={() => handleDeleteNote(activeNote.id)}
                   className="p-1.5 rounded-full hover:bg-red-500/10 hover:text-red-400 text-muted transition-colors"
@@ -1186,6 +1503,55 @@ const App = () => {
              !isOnline ? 'Offline' : 
              hasClustered ? 'View Graph' : 'Cluster AI'}
           </button>
+          <select
+            value={clusteringAlgorithm}
+            onChange={e => {
+              const algorithm = e.target.value as ClusteringAlgorithm;
+              setClusteringAlgorithm(algorithm);
+              writeClusteringAlgorithm(algorithm);
+            }}
+            disabled={status.isProcessing}
+            className="col-span-2 p-1.5 rounded text-xs bg-white/5 text-muted border border-border focus:outline-none"
+            title="Algorithm used the next time notes are clustered from scratch"
+          >
+            <option value="kmeans">k-means (automatic k)</option>
+            <option value="agglomerative">Agglomerative (average linkage)</option>
+            <option value="hdbscan">HDBSCAN (density)</option>
+            <option value="threshold">Similarity threshold</option>
+          </select>
+          <label
+            className="flex items-center gap-2 px-1 text-xs text-muted cursor-pointer"
+            title="Try a range of thresholds (or k) per level and keep the best-scoring one"
+          >
+            <input
+              type="checkbox"
+              checked={autoTune}
+              onChange={e => {
+                setAutoTune(e.target.checked);
+                writeAutoTune(e.target.checked);
+              }}
+              disabled={status.isProcessing}
+              className="accent-blue-500"
+            />
+            Auto-tune
+          </label>
+          <select
+            value={maxDepth}
+            onChange={e => {
+              const depth = Number(e.target.value);
+              setMaxDepth(depth);
+              writeMaxDepth(depth);
+            }}
+            disabled={status.isProcessing}
+            className="p-1.5 rounded text-xs bg-white/5 text-muted border border-border focus:outline-none"
+            title="How many levels of subtopics large clusters are split into"
+          >
+            {[1, 2, 3, 4, 5].map(depth => (
+              <option key={depth} value={depth}>
+                {depth === 1 ? 'Domains only' : `${depth} levels`}
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* File Explorer */}
@@ -1266,6 +1632,40 @@ const App = () => {
             </div>
           )}
         </div>
+
+        {/* Background Task Status */}
+        {embeddingMigration && (
+          <div className="p-3 border-t border-border text-[10px] text-muted" title={`Embedding model: ${embeddingMigration.targetModel}`}>
+            <div className="flex justify-between mb-1">
+              <span>{embeddingMigration.done ? 'Re-embedding complete' : 'Re-embedding notes...'}</span>
+              <span className="font-mono">
+                {embeddingMigration.completed}/{embeddingMigration.total}
+                {embeddingMigration.failed > 0 && ` (${embeddingMigration.failed} failed)`}
+              </span>
+            </div>
+            <div className="h-1 rounded bg-white/5 overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${embeddingMigration.total ? (embeddingMigration.completed / embeddingMigration.total) * 100 : 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {embeddingFailures.length > 0 && (
+          <div
+            className="p-3 border-t border-border text-[10px] text-muted flex justify-between items-center"
+            title={embeddingFailures.map(f => `${f.title}: ${f.error}`).join('\n')}
+          >
+            <span>{embeddingFailures.length} note{embeddingFailures.length === 1 ? '' : 's'} not embedded</span>
+            <button
+              onClick={handleRetryEmbeddings}
+              disabled={status.isProcessing || !isOnline}
+              className="text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Retry
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Main Content */}
@@ -1285,7 +1685,7 @@ const App = () => {
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
               onKeyDown={e => e.key === 'Enter' && triggerSemanticSearch()}
-              placeholder={searchMode === SearchMode.EXACT ? 'Grep search...' : 'Ask your knowledge base...'}
+              placeholder={searchMode === SearchMode.EXACT ? 'Keywords, tag:, folder:, created:>, /regex/...' : 'Ask your knowledge base...'}
               className="block w-full pl-10 pr-3 py-2 bg-surface border border-border rounded-lg leading-5 text-text placeholder-gray-500 focus:outline-none focus:bg-background focus:border-primary focus:ring-1 focus:ring-primary sm:text-sm transition-all"
             />
             {searchQuery && (
@@ -1311,6 +1711,20 @@ const App = () => {
             >
               Exact
             </button>
+            <button
+              onClick={() => isOnline && setSearchMode(SearchMode.VECTOR)}
+              disabled={!isOnline}
+              className={`px-3 py-1.5 rounded text-xs font-medium transition-all ${
+                searchMode === SearchMode.VECTOR
+                  ? 'bg-border text-white shadow-sm'
+                  : !isOnline
+                  ? 'text-muted/50 cursor-not-allowed'
+                  : 'text-muted hover:text-text'
+              }`}
+              title={!isOnline ? 'Unavailable offline' : 'Rank notes by embedding similarity'}
+            >
+              Vector
+            </button>
             <button
               onClick={() => isOnline && setSearchMode(SearchMode.HYBRID)}
               disabled={!isOnline}
@@ -1321,11 +1735,34 @@ const App = () => {
                   ? 'text-muted/50 cursor-not-allowed'
                   : 'text-muted hover:text-text'
               }`}
-              title={!isOnline ? 'Unavailable offline' : 'Enable Semantic AI Search'}
+              title={!isOnline ? 'Unavailable offline' : 'Exact matches fused with vector or LLM ranking'}
             >
               <ZapIcon className="w-3 h-3" /> AI Hybrid
             </button>
+            {searchMode === SearchMode.HYBRID && (
+              <select
+                value={hybridSource}
+                onChange={e => setHybridSource(e.target.value as SearchOptions['semanticSource'])}
+                className="ml-1 bg-transparent text-xs text-muted hover:text-text focus:outline-none"
+                title="What ranks notes by meaning in hybrid search"
+              >
+                <option value="vector">+ Vector</option>
+                <option value="llm">+ LLM</option>
+              </select>
+            )}
           </div>
+
+          {searchMode !== SearchMode.VECTOR && (
+            <button
+              onClick={() => setUseRegex(!useRegex)}
+              className={`px-2 py-1.5 rounded text-xs font-mono transition-all border border-border ${
+                useRegex ? 'bg-border text-white shadow-sm' : 'bg-surface text-muted hover:text-text'
+              }`}
+              title={useRegex ? 'Matching the query as a regex' : 'Ranking keyword matches'}
+            >
+              .*
+            </button>
+          )}
         </div>
 
         {/* Search Results */}
@@ -1373,6 +1810,37 @@ const App = () => {
         onConfirm={executeMove}
         onCancel={() => setMoveRequest(null)}
       />
+
+      <ClusteringReportPanel
+        isOpen={isReportOpen}
+        reports={clusteringReports}
+        isEvaluating={isEvaluating}
+        onEvaluate={handleEvaluateClusters}
+        onClose={() => setIsReportOpen(false)}
+      />
+
+      <ConstraintsPanel
+        isOpen={isConstraintsOpen}
+        note={activeNote}
+        notes={notes}
+        clusters={clusters}
+        constraints={userConstraints}
+        onAdd={handleAddConstraint}
+        onPin={handlePinToCluster}
+        onRemove={handleRemoveConstraint}
+        onClose={() => setIsConstraintsOpen(false)}
+      />
+
+      <SnapshotsPanel
+        isOpen={isSnapshotsOpen}
+        snapshots={snapshots}
+        clusters={clusters}
+        isSaving={isSavingSnapshot}
+        onSave={handleSaveSnapshot}
+        onRestore={handleRestoreSnapshot}
+        onDelete={handleDeleteSnapshot}
+        onClose={() => setIsSnapshotsOpen(false)}
+      />
     </div>
   );
 };
@@ -1,131 +1,103 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { ClusterNode, Note } from '../types';
+import { ClusterEdit, ClusterNode } from '../types';
+import { prepareGraphLayoutInWorker } from '../services/clusteringWorkerClient';
+import { listClusters } from '../services/graphLayout';
 
 interface ClusterGraphProps {
   clusters: ClusterNode[];
   onNoteSelect: (noteId: string) => void;
+  onClusterEdit?: (edit: ClusterEdit) => void; // Enables the cluster context menu
 }
 
-// Convert hierarchical cluster data to flat nodes/links for D3 (recursive for all levels)
-const processData = (clusters: ClusterNode[]) => {
-  const nodes: any[] = [];
-  const links: any[] = [];
-  const seenIds = new Set<string>(); // Track IDs to avoid duplicates
-
-  // Debug: Log input structure
-  console.log('📊 ClusterGraph input:', JSON.stringify(clusters, null, 2).substring(0, 2000));
-
-  // Root node
-  const rootId = 'graph-root';
-  nodes.push({ id: rootId, name: 'Knowledge Base', type: 'root', level: 0, r: 35 });
-  seenIds.add(rootId);
-
-  // Recursively process clusters at any depth
-  const processCluster = (cluster: ClusterNode, parentId: string, level: number) => {
-    // Create unique ID for this cluster - include parent ID to avoid collisions across domains
-    const clusterId = `cluster-${parentId}-L${level}-${cluster.id}`;
-    
-    console.log(`  Processing cluster: "${cluster.name}" (id: ${cluster.id}, type: ${cluster.type}, level: ${level}, children: ${cluster.children?.length || 0})`);
-    
-    // Skip if already processed (avoid duplicate nodes)
-    if (seenIds.has(clusterId)) {
-      console.warn(`Duplicate cluster ID: ${clusterId}, skipping`);
-      return;
-    }
-    seenIds.add(clusterId);
-
-    // Determine node type and size based on level
-    const isSubcluster = level > 1;
-    const nodeType = isSubcluster ? 'subcluster' : 'cluster';
-    const radius = Math.max(12, 25 - level * 4);
-
-    nodes.push({ 
-      id: clusterId, 
-      name: cluster.name, 
-      type: nodeType, 
-      level,
-      r: radius 
-    });
-    links.push({ source: parentId, target: clusterId, level });
-
-    // Process children (can be notes or nested clusters)
-    if (cluster.children) {
-      console.log(`    Children of "${cluster.name}":`, cluster.children.map(c => `${c.type}:${c.name}`).join(', '));
-      cluster.children.forEach((child, idx) => {
-        console.log(`      [${idx}] Processing child: type="${child.type}", name="${child.name}", hasChildren=${!!child.children}, childrenCount=${child.children?.length || 0}`);
-        if (child.type === 'note') {
-          // Create unique ID for note - include parent cluster ID to avoid collisions
-          const noteId = `note-${clusterId}-${child.noteId || child.id}`;
-          
-          // Skip duplicate notes
-          if (seenIds.has(noteId)) {
-            return;
-          }
-          seenIds.add(noteId);
-
-          nodes.push({ 
-            id: noteId, 
-            name: child.name, 
-            type: 'note', 
-            noteId: child.noteId,
-            level: level + 1,
-            r: 8 
-          });
-          // Link note to its DIRECT parent (the current cluster)
-          links.push({ source: clusterId, target: noteId, level: level + 1 });
-        } else if (child.type === 'cluster') {
-          // Nested cluster - recurse with current cluster as parent
-          console.log(`      ➡️ Recursing into cluster: "${child.name}" with ${child.children?.length || 0} children`);
-          processCluster(child, clusterId, level + 1);
-        } else {
-          console.warn(`      ⚠️ Unknown child type: "${child.type}" for "${child.name}"`);
-        }
-      });
-    }
-  };
+// Context menu of a right-clicked cluster, positioned in container pixels
+interface ClusterMenu {
+  x: number;
+  y: number;
+  cluster: ClusterNode;
+  mode: 'actions' | 'rename' | 'merge' | 'move';
+}
 
-  // Process all top-level clusters
-  clusters.forEach(cluster => {
-    processCluster(cluster, rootId, 1);
-  });
+const TOP_LEVEL = '__top-level__';
 
-  console.log(`📊 Graph data: ${nodes.length} nodes, ${links.length} links`);
-  console.log('📊 All nodes:', nodes.map(n => `${n.type}:${n.name}`).join(', '));
-  return { nodes, links };
-};
+const menuInputClassName =
+  'w-full bg-white/5 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500';
+const menuItemClassName =
+  'w-full text-left px-3 py-1.5 text-xs text-gray-200 hover:bg-white/10 transition-colors';
 
-const ClusterGraphComponent: React.FC<ClusterGraphProps> = ({ clusters, onNoteSelect }) => {
+const ClusterGraphComponent: React.FC<ClusterGraphProps> = ({ clusters, onNoteSelect, onClusterEdit }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [menu, setMenu] = useState<ClusterMenu | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [destination, setDestination] = useState('');
+
+  const clusterList = useMemo(() => listClusters(clusters), [clusters]);
+  const clusterById = useMemo(
+    () => new Map(clusterList.map(({ cluster }) => [cluster.id, cluster])),
+    [clusterList]
+  );
+  // The d3 handlers outlive renders; they read the latest props through refs
+  const clusterByIdRef = useRef(clusterById);
+  clusterByIdRef.current = clusterById;
+  const editableRef = useRef(!!onClusterEdit);
+  editableRef.current = !!onClusterEdit;
+
+  // A new tree invalidates the open menu
+  useEffect(() => setMenu(null), [clusters]);
+
+  useEffect(() => {
+    if (!menu) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setMenu(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [menu]);
+
+  const openMenu = (mode: ClusterMenu['mode']) => {
+    if (!menu) return;
+    setName(menu.cluster.name);
+    setDescription(menu.cluster.description || '');
+    setDestination('');
+    setMenu({ ...menu, mode });
+  };
+
+  const submit = (edit: ClusterEdit) => {
+    setMenu(null);
+    onClusterEdit?.(edit);
+  };
 
   useEffect(() => {
     if (!clusters.length || !svgRef.current || !containerRef.current) return;
 
-    const { nodes, links } = processData(clusters);
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
+    let simulation: d3.Simulation<any, undefined> | null = null;
+    let cancelled = false;
+
+    // Flattening and initial positions are computed in the clustering worker
+    prepareGraphLayoutInWorker(clusters, width, height)
+      .then(({ nodes, links }) => {
+        if (cancelled || !svgRef.current) return;
+        simulation = renderGraph(svgRef.current, nodes, links, width, height);
+      })
+      .catch(e => console.error('Graph layout failed:', e));
+
+    return () => {
+      cancelled = true;
+      simulation?.stop();
+    };
+  }, [clusters, onNoteSelect]);
 
-    const svg = d3.select(svgRef.current);
+  const renderGraph = (svgElement: SVGSVGElement, nodes: any[], links: any[], width: number, height: number) => {
+    const svg = d3.select(svgElement);
     svg.selectAll("*").remove(); // Clear previous
 
     // Create a container group for zoom/pan - this is the key fix!
     const container = svg.append("g").attr("class", "zoom-container");
 
-    // Initialize node positions to prevent NaN/undefined issues
-    nodes.forEach((node, i) => {
-      if (node.type === 'root') {
-        node.x = width / 2;
-        node.y = height / 2;
-      } else {
-        // Spread nodes in a circle initially
-        const angle = (i / nodes.length) * 2 * Math.PI;
-        const radius = 100 + node.level * 50;
-        node.x = width / 2 + Math.cos(angle) * radius;
-        node.y = height / 2 + Math.sin(angle) * radius;
-      }
-    });
-
     // Simulation with improved forces for hierarchical layout
     const simulation = d3.forceSimulation(nodes)
       .force("link", d3.forceLink(links)
@@ -177,6 +149,13 @@ const ClusterGraphComponent: React.FC<ClusterGraphProps> = ({ clusters, onNoteSe
         if (d.type === 'note' && d.noteId) {
           onNoteSelect(d.noteId);
         }
+      })
+      .on("contextmenu", (event, d: any) => {
+        const cluster = d.clusterId && clusterByIdRef.current.get(d.clusterId);
+        if (!cluster || !editableRef.current || !containerRef.current) return;
+        event.preventDefault();
+        const [x, y] = d3.pointer(event, containerRef.current);
+        setMenu({ x, y, cluster, mode: 'actions' });
       });
 
     // Labels
@@ -240,13 +219,10 @@ const ClusterGraphComponent: React.FC<ClusterGraphProps> = ({ clusters, onNoteSe
       });
 
     svg.call(zoom as any);
+    svg.on("click.menu", () => setMenu(null));
 
-    // Cleanup on unmount
-    return () => {
-      simulation.stop();
-    };
-
-  }, [clusters, onNoteSelect]);
+    return simulation;
+  };
 
   return (
     <div ref={containerRef} className="w-full h-full bg-background rounded-lg overflow-hidden relative">
@@ -257,6 +233,81 @@ const ClusterGraphComponent: React.FC<ClusterGraphProps> = ({ clusters, onNoteSe
         <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-slate-500"></div>Note</div>
       </div>
       <svg ref={svgRef} className="w-full h-full" />
+
+      {menu && (
+        <div
+          className="absolute z-20 w-60 bg-[#1e1e1e] border border-gray-700 rounded-lg shadow-2xl overflow-hidden"
+          style={{ left: menu.x, top: menu.y }}
+          onContextMenu={e => e.preventDefault()}
+        >
+          <div className="px-3 py-2 border-b border-gray-700 text-xs font-bold text-white truncate">
+            {menu.cluster.name}
+          </div>
+
+          {menu.mode === 'actions' && (
+            <div className="py-1">
+              <button className={menuItemClassName} onClick={() => openMenu('rename')}>Rename…</button>
+              <button className={menuItemClassName} onClick={() => submit({ type: 'split', clusterId: menu.cluster.id })}>
+                Split
+              </button>
+              <button className={menuItemClassName} onClick={() => openMenu('merge')}>Merge into…</button>
+              <button className={menuItemClassName} onClick={() => openMenu('move')}>Move under…</button>
+            </div>
+          )}
+
+          {menu.mode === 'rename' && (
+            <form
+              className="p-3 space-y-2"
+              onSubmit={e => {
+                e.preventDefault();
+                if (!name.trim()) return;
+                submit({ type: 'rename', clusterId: menu.cluster.id, name: name.trim(), description: description.trim() });
+              }}
+            >
+              <input autoFocus value={name} onChange={e => setName(e.target.value)} className={menuInputClassName} placeholder="Name" />
+              <textarea
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                rows={3}
+                className={menuInputClassName}
+                placeholder="Description"
+              />
+              <button type="submit" disabled={!name.trim()} className="w-full px-2 py-1 rounded text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50">
+                Save
+              </button>
+            </form>
+          )}
+
+          {(menu.mode === 'merge' || menu.mode === 'move') && (
+            <div className="p-3 space-y-2">
+              <select value={destination} onChange={e => setDestination(e.target.value)} className={menuInputClassName}>
+                <option value="">{menu.mode === 'merge' ? 'Merge into…' : 'Move under…'}</option>
+                {menu.mode === 'move' && <option value={TOP_LEVEL}>Top level</option>}
+                {clusterList
+                  .filter(({ cluster }) => cluster.id !== menu.cluster.id)
+                  .map(({ cluster, depth }) => (
+                    <option key={cluster.id} value={cluster.id}>
+                      {`${'— '.repeat(depth - 1)}${cluster.name}`}
+                    </option>
+                  ))}
+              </select>
+              <button
+                disabled={!destination}
+                onClick={() =>
+                  submit(
+                    menu.mode === 'merge'
+                      ? { type: 'merge', clusterId: menu.cluster.id, targetId: destination }
+                      : { type: 'move', clusterId: menu.cluster.id, parentId: destination === TOP_LEVEL ? null : destination }
+                  )
+                }
+                className="w-full px-2 py-1 rounded text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+              >
+                {menu.mode === 'merge' ? 'Merge' : 'Move'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
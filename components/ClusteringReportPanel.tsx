@@ -0,0 +1,201 @@
+import React from 'react';
+import { ClusteringReport, LevelQuality } from '../types';
+import { XIcon, LayersIcon } from './Icons';
+
+interface ClusteringReportPanelProps {
+  isOpen: boolean;
+  reports: ClusteringReport[]; // Oldest first; the last one is shown
+  isEvaluating: boolean;
+  onEvaluate: () => void;
+  onClose: () => void;
+}
+
+// Weakest clusters are listed first; very large trees are cut off
+const MAX_CLUSTER_ROWS = 100;
+
+const ALGORITHM_LABELS: Record<string, string> = {
+  threshold: 'Similarity threshold',
+  kmeans: 'k-means',
+  agglomerative: 'Agglomerative',
+  hdbscan: 'HDBSCAN',
+};
+
+type MetricKey = 'silhouette' | 'daviesBouldin' | 'intraSimilarity' | 'interSimilarity';
+
+const METRICS: { key: MetricKey; label: string; higherIsBetter: boolean; hint: string }[] = [
+  { key: 'silhouette', label: 'Silhouette', higherIsBetter: true, hint: '-1 to 1: notes closer to their own cluster than the next one' },
+  { key: 'daviesBouldin', label: 'Davies–Bouldin', higherIsBetter: false, hint: 'Cluster scatter relative to separation' },
+  { key: 'intraSimilarity', label: 'Intra similarity', higherIsBetter: true, hint: 'Mean cosine between notes of a cluster' },
+  { key: 'interSimilarity', label: 'Inter similarity', higherIsBetter: false, hint: 'Mean cosine between clusters' },
+];
+
+const format = (value: number) => value.toFixed(3);
+
+const Delta: React.FC<{ current: number; previous?: number; higherIsBetter: boolean }> = ({
+  current, previous, higherIsBetter
+}) => {
+  if (previous === undefined) return null;
+  const delta = current - previous;
+  if (Math.abs(delta) < 0.0005) return <span className="text-xs text-gray-500">±0</span>;
+  const better = higherIsBetter ? delta > 0 : delta < 0;
+  return (
+    <span className={`text-xs ${better ? 'text-green-400' : 'text-red-400'}`}>
+      {delta > 0 ? '+' : ''}{format(delta)}
+    </span>
+  );
+};
+
+const levelName = (level: LevelQuality) =>
+  level.depth === 1 ? 'Domains' : level.depth === 2 ? 'Subtopics' : `Depth ${level.depth}`;
+
+const ClusteringReportPanel: React.FC<ClusteringReportPanelProps> = ({
+  isOpen, reports, isEvaluating, onEvaluate, onClose
+}) => {
+  if (!isOpen) return null;
+
+  const report = reports[reports.length - 1];
+  const previous = reports[reports.length - 2];
+  const weakest = report
+    ? [...report.clusters].sort((a, b) => a.silhouette - b.silhouette).slice(0, MAX_CLUSTER_ROWS)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-[#1e1e1e] border border-gray-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center bg-gray-800/50">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <LayersIcon className="w-5 h-5 text-blue-400" />
+            Clustering Quality
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-6 py-5 text-gray-300 overflow-y-auto space-y-6">
+          {!report ? (
+            <p className="text-sm text-gray-400">
+              No report yet. Cluster your notes, or evaluate the current clusters.
+            </p>
+          ) : (
+            <>
+              <div className="text-xs text-gray-400">
+                {report.algorithm ? ALGORITHM_LABELS[report.algorithm] : 'Current clusters'}
+                {' · '}{report.noteCount} notes · {new Date(report.createdAt).toLocaleString()}
+                {previous && ` · compared with ${new Date(previous.createdAt).toLocaleString()}`}
+              </div>
+
+              {report.userCorrections && (
+                <div
+                  className={`text-xs ${report.userCorrections.lost.length > 0 ? 'text-amber-400' : 'text-green-400'}`}
+                  title="Notes you moved in the graph that stayed in the cluster you moved them to"
+                >
+                  User corrections preserved: {report.userCorrections.preserved} of {report.userCorrections.total}
+                </div>
+              )}
+
+              {/* Overall: notes grouped by the cluster directly above them */}
+              <div className="grid grid-cols-4 gap-3">
+                {METRICS.map(metric => (
+                  <div key={metric.key} className="p-3 rounded-lg bg-white/5 border border-gray-700" title={metric.hint}>
+                    <div className="text-xs text-gray-400">{metric.label}</div>
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-lg font-semibold text-white">{format(report.overall[metric.key])}</span>
+                      <Delta
+                        current={report.overall[metric.key]}
+                        previous={previous?.overall[metric.key]}
+                        higherIsBetter={metric.higherIsBetter}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Per level of the hierarchy */}
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-1.5 font-medium">Level</th>
+                    <th className="py-1.5 font-medium text-right">Clusters</th>
+                    {METRICS.map(metric => (
+                      <th key={metric.key} className="py-1.5 font-medium text-right">{metric.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.levels.map(level => (
+                    <tr key={level.depth} className="border-b border-gray-800">
+                      <td className="py-1.5">{levelName(level)}</td>
+                      <td className="py-1.5 text-right">{level.clusterCount}</td>
+                      {METRICS.map(metric => (
+                        <td key={metric.key} className="py-1.5 text-right">{format(level[metric.key])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* Per cluster, weakest first */}
+              <div>
+                <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+                  Clusters (weakest first)
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                      <th className="py-1.5 font-medium">Cluster</th>
+                      <th className="py-1.5 font-medium text-right">Notes</th>
+                      <th className="py-1.5 font-medium text-right">Silhouette</th>
+                      <th className="py-1.5 font-medium text-right">Intra</th>
+                      <th className="py-1.5 font-medium pl-4">Closest cluster</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {weakest.map((cluster, i) => (
+                      <tr key={`${cluster.depth}-${cluster.clusterId}-${i}`} className="border-b border-gray-800">
+                        <td className="py-1.5 truncate max-w-[14rem]" style={{ paddingLeft: `${(cluster.depth - 1) * 12}px` }}>
+                          {cluster.name}
+                        </td>
+                        <td className="py-1.5 text-right">{cluster.size}</td>
+                        <td className={`py-1.5 text-right ${cluster.silhouette < 0 ? 'text-red-400' : ''}`}>
+                          {format(cluster.silhouette)}
+                        </td>
+                        <td className="py-1.5 text-right">{format(cluster.intraSimilarity)}</td>
+                        <td className="py-1.5 pl-4 text-gray-400 truncate max-w-[14rem]">
+                          {cluster.nearestClusterName
+                            ? `${cluster.nearestClusterName} (${format(cluster.interSimilarity)})`
+                            : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-gray-800/30 flex justify-end gap-3 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Close
+          </button>
+          <button
+            onClick={onEvaluate}
+            disabled={isEvaluating}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20 transition-all disabled:opacity-50"
+          >
+            {isEvaluating ? 'Evaluating...' : 'Evaluate Current Clusters'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClusteringReportPanel;
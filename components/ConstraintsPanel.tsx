@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { ClusterNode, ConstraintSet, Note, SupervisionSignal } from '../types';
+import { pinnedClusterId } from '../services/clusteringService';
+import { listClusters } from '../services/graphLayout';
+import { XIcon, NetworkIcon, TrashIcon } from './Icons';
+
+interface ConstraintsPanelProps {
+  isOpen: boolean;
+  note?: Note; // Constraints are added for this note
+  notes: Note[];
+  clusters: ClusterNode[];
+  constraints: ConstraintSet;
+  onAdd: (type: SupervisionSignal['type'], otherNoteId: string) => void;
+  onPin: (clusterId: string) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const selectClassName =
+  'flex-1 min-w-0 bg-white/5 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500';
+const addButtonClassName =
+  'px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-50';
+
+const ConstraintsPanel: React.FC<ConstraintsPanelProps> = ({
+  isOpen, note, notes, clusters, constraints, onAdd, onPin, onRemove, onClose
+}) => {
+  const [together, setTogether] = useState('');
+  const [apart, setApart] = useState('');
+  const [pinTo, setPinTo] = useState('');
+
+  const titles = useMemo(() => new Map(notes.map(n => [n.id, n.title || 'Untitled'])), [notes]);
+  const flatClusters = useMemo(() => listClusters(clusters), [clusters]);
+  const clusterNames = useMemo(
+    () => new Map(flatClusters.map(({ cluster }) => [cluster.id, cluster.name])),
+    [flatClusters]
+  );
+
+  if (!isOpen) return null;
+
+  const otherNotes = notes.filter(n => n.id !== note?.id);
+  const signals = [...constraints.mustLinkPairs, ...constraints.cannotLinkPairs];
+
+  const describe = (signal: SupervisionSignal) => {
+    const clusterId = pinnedClusterId(signal);
+    const first = titles.get(signal.note1Id) ?? 'Deleted note';
+    if (clusterId !== null) {
+      return `${first} pinned to ${clusterNames.get(clusterId) ?? 'a cluster that no longer exists'}`;
+    }
+    const second = titles.get(signal.note2Id) ?? 'Deleted note';
+    return signal.type === 'must-link'
+      ? `${first} together with ${second}`
+      : `${first} apart from ${second}`;
+  };
+
+  const add = (type: SupervisionSignal['type'], otherNoteId: string, reset: (value: string) => void) => {
+    onAdd(type, otherNoteId);
+    reset('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-[#1e1e1e] border border-gray-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center bg-gray-800/50">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <NetworkIcon className="w-5 h-5 text-blue-400" />
+            Clustering Constraints
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-6 py-5 text-gray-300 overflow-y-auto space-y-6">
+          <p className="text-xs text-gray-400">
+            Every clustering run keeps these notes together or apart, and pinned notes in their cluster.
+          </p>
+
+          {note && (
+            <div className="space-y-3">
+              <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                {note.title || 'Untitled'}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-36 text-sm">Keep together with</span>
+                <select value={together} onChange={e => setTogether(e.target.value)} className={selectClassName}>
+                  <option value="">Choose a note…</option>
+                  {otherNotes.map(n => <option key={n.id} value={n.id}>{n.title || 'Untitled'}</option>)}
+                </select>
+                <button
+                  onClick={() => add('must-link', together, setTogether)}
+                  disabled={!together}
+                  className={addButtonClassName}
+                >
+                  Add
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-36 text-sm">Keep apart from</span>
+                <select value={apart} onChange={e => setApart(e.target.value)} className={selectClassName}>
+                  <option value="">Choose a note…</option>
+                  {otherNotes.map(n => <option key={n.id} value={n.id}>{n.title || 'Untitled'}</option>)}
+                </select>
+                <button
+                  onClick={() => add('cannot-link', apart, setApart)}
+                  disabled={!apart}
+                  className={addButtonClassName}
+                >
+                  Add
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-36 text-sm">Pin to cluster</span>
+                <select
+                  value={pinTo}
+                  onChange={e => setPinTo(e.target.value)}
+                  disabled={flatClusters.length === 0}
+                  className={selectClassName}
+                >
+                  <option value="">{flatClusters.length === 0 ? 'Cluster your notes first' : 'Choose a cluster…'}</option>
+                  {flatClusters.map(({ cluster, depth }) => (
+                    <option key={cluster.id} value={cluster.id}>
+                      {`${'— '.repeat(depth - 1)}${cluster.name}`}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    onPin(pinTo);
+                    setPinTo('');
+                  }}
+                  disabled={!pinTo}
+                  className={addButtonClassName}
+                >
+                  Pin
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+              All constraints ({signals.length})
+            </div>
+            {signals.length === 0 ? (
+              <p className="text-sm text-gray-400">No constraints yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {signals.map(signal => (
+                  <li
+                    key={signal.id}
+                    className="flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg bg-white/5 border border-gray-800 text-sm"
+                  >
+                    <span className="truncate">{describe(signal)}</span>
+                    <button
+                      onClick={() => onRemove(signal.id)}
+                      className="p-1 rounded hover:bg-red-500/10 hover:text-red-400 text-gray-500 transition-colors"
+                      title="Remove constraint"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-gray-800/30 flex justify-end gap-3 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConstraintsPanel;
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { ClusterNode, ClusterSnapshot, ClusteringParameters, SnapshotClusterChange, SnapshotNoteChange } from '../types';
+import { diffClusterTrees } from '../services/clusterSnapshots';
+import { XIcon, SaveIcon, TrashIcon } from './Icons';
+
+interface SnapshotsPanelProps {
+  isOpen: boolean;
+  snapshots: ClusterSnapshot[]; // Newest first
+  clusters: ClusterNode[]; // Current tree, which can be compared too
+  isSaving: boolean;
+  onSave: (name: string) => void;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Value of the "current tree" option in the compare selects
+const CURRENT = 'current';
+// Long diffs are cut off per section
+const MAX_DIFF_ROWS = 200;
+
+const METHOD_LABELS: Record<ClusterSnapshot['method'], string> = {
+  initial: 'Full clustering',
+  refinement: 'Refinement',
+  incremental: 'Incremental update',
+  manual: 'Saved manually',
+};
+
+const selectClassName =
+  'flex-1 min-w-0 bg-white/5 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500';
+
+/** "Domains: threshold 0.30 · Subtopics: k 4", first scope of each level */
+const describeParameters = (parameters: ClusteringParameters[]) =>
+  parameters
+    .filter((p, i, all) => all.findIndex(q => q.depth === p.depth && q.level === p.level) === i)
+    .map(p => {
+      const depth = p.depth ?? (p.level === 'domains' ? 1 : 2);
+      const level = depth === 1 ? 'Domains' : depth === 2 ? 'Subtopics' : `Depth ${depth}`;
+      if (p.threshold !== undefined) return `${level}: threshold ${p.threshold.toFixed(2)}`;
+      if (p.k !== undefined) return `${level}: k ${p.k}`;
+      return `${level}: min size ${p.minClusterSize ?? '—'}`;
+    })
+    .join(' · ');
+
+const NoteChanges: React.FC<{ title: string; changes: SnapshotNoteChange[] }> = ({ title, changes }) => {
+  if (changes.length === 0) return null;
+  return (
+    <div>
+      <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+        {title} ({changes.length})
+      </div>
+      <ul className="space-y-1 text-xs">
+        {changes.slice(0, MAX_DIFF_ROWS).map(change => (
+          <li key={change.noteId} className="flex gap-2 px-3 py-1 rounded bg-white/5">
+            <span className="font-medium text-gray-200 truncate max-w-[14rem]">{change.title}</span>
+            <span className="text-gray-400 truncate">
+              {change.from ?? '—'} → {change.to ?? '—'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ClusterChanges: React.FC<{ title: string; changes: SnapshotClusterChange[] }> = ({ title, changes }) => {
+  if (changes.length === 0) return null;
+  return (
+    <div>
+      <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+        {title} ({changes.length})
+      </div>
+      <ul className="space-y-1 text-xs">
+        {changes.slice(0, MAX_DIFF_ROWS).map(change => (
+          <li key={change.clusterId} className="px-3 py-1 rounded bg-white/5 truncate">
+            {change.previousName !== undefined ? `${change.previousName} → ${change.name}` : change.name}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  isOpen, snapshots, clusters, isSaving, onSave, onRestore, onDelete, onClose
+}) => {
+  const [name, setName] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+
+  // Until chosen (or once deleted), compare the previous snapshot with the latest one
+  const exists = (id: string) => id === CURRENT || snapshots.some(s => s.id === id);
+  const from = exists(fromId) ? fromId : snapshots[1]?.id || snapshots[0]?.id || '';
+  const to = exists(toId) ? toId : CURRENT;
+  const treeOf = (id: string) =>
+    id === CURRENT ? clusters : snapshots.find(s => s.id === id)?.clusters;
+  const before = treeOf(from);
+  const after = treeOf(to);
+  const diff = useMemo(
+    () => (before && after ? diffClusterTrees(before, after) : null),
+    [before, after]
+  );
+
+  if (!isOpen) return null;
+
+  const unchanged =
+    diff !== null && Object.values(diff).every((list: unknown[]) => list.length === 0);
+  const options = [
+    <option key={CURRENT} value={CURRENT}>Current tree</option>,
+    ...snapshots.map(s => (
+      <option key={s.id} value={s.id}>{`${s.name} (${new Date(s.createdAt).toLocaleString()})`}</option>
+    )),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-[#1e1e1e] border border-gray-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-700 flex justify-between items-center bg-gray-800/50">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <SaveIcon className="w-5 h-5 text-blue-400" />
+            Cluster Snapshots
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-6 py-5 text-gray-300 overflow-y-auto space-y-6">
+          <div className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Snapshot name, e.g. Before importing papers"
+              className={selectClassName}
+            />
+            <button
+              onClick={() => {
+                onSave(name);
+                setName('');
+              }}
+              disabled={isSaving || clusters.length === 0}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-all disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save current tree'}
+            </button>
+          </div>
+
+          <div>
+            <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+              Snapshots ({snapshots.length})
+            </div>
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                No snapshots yet. Every clustering run takes one, or save the current tree above.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {snapshots.map(snapshot => (
+                  <li
+                    key={snapshot.id}
+                    className="flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg bg-white/5 border border-gray-800 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-200">{snapshot.name}</div>
+                      <div className="text-xs text-gray-400 truncate">
+                        {METHOD_LABELS[snapshot.method]}
+                        {' · '}{new Date(snapshot.createdAt).toLocaleString()}
+                        {' · '}{snapshot.noteCount} notes in {snapshot.clusterCount} clusters
+                        {snapshot.quality && ` · silhouette ${snapshot.quality.silhouette.toFixed(3)}`}
+                      </div>
+                      {snapshot.parameters && (
+                        <div className="text-xs text-gray-500 truncate">{describeParameters(snapshot.parameters)}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => onRestore(snapshot.id)}
+                        className="px-2 py-1 rounded text-xs text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Make this the current tree (can be undone)"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => onDelete(snapshot.id)}
+                        className="p-1 rounded hover:bg-red-500/10 hover:text-red-400 text-gray-500 transition-colors"
+                        title="Delete snapshot"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {snapshots.length > 0 && (
+            <div className="space-y-4">
+              <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">Compare</div>
+              <div className="flex items-center gap-2">
+                <select value={from} onChange={e => setFromId(e.target.value)} className={selectClassName}>
+                  {options}
+                </select>
+                <span className="text-gray-500">→</span>
+                <select value={to} onChange={e => setToId(e.target.value)} className={selectClassName}>
+                  {options}
+                </select>
+              </div>
+
+              {unchanged && <p className="text-sm text-gray-400">No differences.</p>}
+              {diff && !unchanged && (
+                <div className="space-y-4">
+                  <NoteChanges title="Moved notes" changes={diff.movedNotes} />
+                  <NoteChanges title="Added notes" changes={diff.addedNotes} />
+                  <NoteChanges title="Removed notes" changes={diff.removedNotes} />
+                  <ClusterChanges title="Created clusters" changes={diff.createdClusters} />
+                  <ClusterChanges title="Removed clusters" changes={diff.removedClusters} />
+                  <ClusterChanges title="Renamed clusters" changes={diff.renamedClusters} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-gray-800/30 flex justify-end gap-3 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
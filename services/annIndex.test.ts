@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { NoteEmbedding } from "../types";
+import { buildAnnIndex } from "./annIndex";
+
+const emb = (noteId: string, vector: number[], modelUsed = "test"): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed,
+  textLength: 0,
+});
+
+// Seeded, so the corpus (and the recall numbers) are stable
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+/** `count` vectors around `centers` random cluster centres */
+const clusteredCorpus = (count: number, dim: number, centers: number) => {
+  const random = seededRandom(7);
+  const centres = Array.from({ length: centers }, () =>
+    Array.from({ length: dim }, () => random() * 2 - 1)
+  );
+  return Array.from({ length: count }, (_, i) =>
+    emb(
+      `n${i}`,
+      centres[i % centers].map((v) => v + (random() - 0.5) * 0.8)
+    )
+  );
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let d = 0;
+  let na = 0;
+  let nb = 0;
+  a.forEach((v, i) => {
+    d += v * b[i];
+    na += v * v;
+    nb += b[i] * b[i];
+  });
+  return d / Math.sqrt(na * nb);
+};
+
+const exactNeighbours = (corpus: NoteEmbedding[], query: number[]) =>
+  corpus
+    .map((e) => ({ noteId: e.noteId, similarity: cosine(query, e.vector) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+describe("buildAnnIndex", () => {
+  const corpus = clusteredCorpus(800, 24, 12);
+  const graph = buildAnnIndex(corpus, { exactThreshold: 0 });
+
+  it("finds nearly all true k nearest neighbours through the graph", () => {
+    let hits = 0;
+    const queries = corpus.slice(0, 40);
+    queries.forEach((q) => {
+      const truth = new Set(exactNeighbours(corpus, q.vector).slice(0, 10).map((n) => n.noteId));
+      graph.knn(q.vector, 10).forEach((n) => truth.has(n.noteId) && hits++);
+    });
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.95);
+  });
+
+  it("returns radius neighbours sorted and above the threshold", () => {
+    const query = corpus[3].vector;
+    const truth = exactNeighbours(corpus, query).filter((n) => n.similarity >= 0.8);
+    const found = graph.radius(query, 0.8);
+
+    found.forEach((n) => expect(n.similarity).toBeGreaterThanOrEqual(0.8));
+    const sims = found.map((n) => n.similarity);
+    expect(sims).toEqual([...sims].sort((a, b) => b - a));
+    expect(found.length / truth.length).toBeGreaterThan(0.95);
+  });
+
+  it("is exact below the threshold size", () => {
+    const small = corpus.slice(0, 50);
+    const index = buildAnnIndex(small);
+    const query = small[0].vector;
+
+    const expected = exactNeighbours(small, query).slice(0, 5);
+    const found = index.knn(query, 5);
+    expect(found.map((n) => n.noteId)).toEqual(expected.map((n) => n.noteId));
+    found.forEach((n, i) => expect(n.similarity).toBeCloseTo(expected[i].similarity, 5));
+  });
+
+  it("applies filters and skips removed notes", () => {
+    const index = buildAnnIndex(corpus.slice(0, 300), { exactThreshold: 0 });
+    const query = corpus[0].vector;
+    index.remove("n0");
+
+    const found = index.knn(query, 5, { filter: (id) => Number(id.slice(1)) % 2 === 0 });
+    expect(found).toHaveLength(5);
+    expect(found.map((n) => n.noteId)).not.toContain("n0");
+    found.forEach((n) => expect(Number(n.noteId.slice(1)) % 2).toBe(0));
+    expect(index.size).toBe(299);
+    expect(index.has("n0")).toBe(false);
+  });
+
+  it("replaces a note's vector when it is added again", () => {
+    const index = buildAnnIndex([emb("a", [1, 0]), emb("b", [0, 1])]);
+    index.add(emb("a", [0, 1]));
+
+    expect(index.size).toBe(2);
+    expect(index.knn([0, 1], 2).map((n) => n.similarity)).toEqual([1, 1]);
+  });
+
+  it("rejects vectors from a different model", () => {
+    const index = buildAnnIndex([emb("a", [1, 0])]);
+    expect(() => index.add(emb("b", [1, 0], "other"))).toThrow(/test/);
+    expect(index.knn([1, 0, 0], 1)).toEqual([]);
+  });
+});
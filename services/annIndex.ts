@@ -0,0 +1,411 @@
+/**
+ * Approximate Nearest Neighbour Index
+ *
+ * HNSW (hierarchical navigable small world) graph over note embeddings for
+ * cosine similarity. Replaces all-pairs scans in partitioning, incremental
+ * cluster assignment and vector search, which stop scaling beyond a few
+ * thousand notes.
+ *
+ * Key Features:
+ * - k-nearest-neighbour and radius (minimum similarity) queries
+ * - Incremental add / remove (removed nodes stay as routing-only tombstones
+ *   until the graph is rebuilt)
+ * - Exact linear scan below a size threshold, where it is both faster and
+ *   free of approximation error
+ * - Seeded level generation, so the same embeddings give the same graph
+ *
+ * Main Entry Points:
+ * - buildAnnIndex(): Build an index over embeddings of a single model
+ */
+
+import { NoteEmbedding } from "../types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnnIndexOptions {
+  /** Neighbours per node on upper layers (layer 0 keeps twice as many) */
+  m: number;
+  /** Candidate list size while inserting */
+  efConstruction: number;
+  /** Minimum candidate list size while querying */
+  efSearch: number;
+  /** At or below this many notes, queries scan every vector exactly */
+  exactThreshold: number;
+  seed: number;
+}
+
+export interface AnnNeighbor {
+  noteId: string;
+  similarity: number;
+}
+
+export interface AnnQueryOptions {
+  /** Only return notes accepted by this predicate */
+  filter?: (noteId: string) => boolean;
+}
+
+export interface AnnIndex {
+  /** Number of live (not removed) embeddings */
+  readonly size: number;
+  /** Embedding model of the indexed vectors (null while empty) */
+  readonly model: string | null;
+  /** Vector length of the indexed vectors (0 while empty) */
+  readonly dimensions: number;
+  has(noteId: string): boolean;
+  get(noteId: string): NoteEmbedding | undefined;
+  /** Ids of all live embeddings */
+  noteIds(): string[];
+  /** Insert an embedding, replacing any existing one for the note */
+  add(embedding: NoteEmbedding): void;
+  remove(noteId: string): void;
+  /** The k most similar notes, most similar first */
+  knn(vector: number[], k: number, options?: AnnQueryOptions): AnnNeighbor[];
+  /** Every note with similarity >= minSimilarity, most similar first */
+  radius(
+    vector: number[],
+    minSimilarity: number,
+    options?: AnnQueryOptions
+  ): AnnNeighbor[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_OPTIONS: AnnIndexOptions = {
+  m: 16,
+  efConstruction: 64,
+  efSearch: 48,
+  exactThreshold: 256,
+  seed: 42,
+};
+
+// Rebuild the graph once tombstones outnumber live nodes
+const MAX_TOMBSTONE_RATIO = 1;
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+const normalize = (vector: number[]): Float32Array => {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/** mulberry32: small seeded PRNG for reproducible layer assignment */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Insert into a list sorted by descending similarity */
+const insertSorted = (list: Candidate[], item: Candidate) => {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].similarity > item.similarity) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+};
+
+type Candidate = { node: number; similarity: number };
+
+// ============================================================================
+// Index
+// ============================================================================
+
+export const buildAnnIndex = (
+  embeddings: NoteEmbedding[] = [],
+  overrides: Partial<AnnIndexOptions> = {}
+): AnnIndex => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const levelMultiplier = 1 / Math.log(options.m);
+
+  let random = createRandom(options.seed);
+  let model: string | null = null;
+  let dim = 0;
+
+  // Graph storage by node number; removed nodes keep routing until rebuild
+  let vectors: Float32Array[] = [];
+  let nodeIds: string[] = [];
+  let links: number[][][] = []; // node -> layer -> neighbour nodes
+  let deleted: boolean[] = [];
+  let entryPoint = -1;
+  let maxLevel = -1;
+  let tombstones = 0;
+
+  const nodeOf = new Map<string, number>();
+  const embeddingOf = new Map<string, NoteEmbedding>();
+
+  const maxLinks = (level: number) => (level === 0 ? options.m * 2 : options.m);
+
+  /** Best-first search of one layer, returning up to `ef` nodes */
+  const searchLayer = (
+    query: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    level: number
+  ): Candidate[] => {
+    const visited = new Set(entries.map((c) => c.node));
+    const candidates = [...entries].sort((a, b) => b.similarity - a.similarity);
+    const results = [...candidates];
+    if (results.length > ef) results.length = ef;
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const worst = results[results.length - 1];
+      if (results.length >= ef && current.similarity < worst.similarity) break;
+
+      for (const neighbour of links[current.node][level] || []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        const similarity = dot(query, vectors[neighbour]);
+        if (
+          results.length < ef ||
+          similarity > results[results.length - 1].similarity
+        ) {
+          const candidate = { node: neighbour, similarity };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  };
+
+  /**
+   * Neighbour selection heuristic: skip a candidate that is closer to an
+   * already selected neighbour than to the base node, which keeps links
+   * spread across clusters instead of all pointing into the nearest one
+   */
+  const selectNeighbours = (candidates: Candidate[], count: number): number[] => {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const dominated = selected.some(
+        (s) =>
+          dot(vectors[candidate.node], vectors[s.node]) > candidate.similarity
+      );
+      (dominated ? pruned : selected).push(candidate);
+    }
+    for (const candidate of pruned) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected.map((c) => c.node);
+  };
+
+  /** Greedy descent from the entry point down to `targetLevel` */
+  const descend = (query: Float32Array, targetLevel: number): Candidate[] => {
+    let entries = [
+      { node: entryPoint, similarity: dot(query, vectors[entryPoint]) },
+    ];
+    for (let level = maxLevel; level > targetLevel; level--) {
+      entries = searchLayer(query, entries, 1, level);
+    }
+    return entries;
+  };
+
+  const insertNode = (noteId: string, vector: Float32Array) => {
+    const node = vectors.length;
+    const level = Math.floor(-Math.log(1 - random()) * levelMultiplier);
+    vectors.push(vector);
+    nodeIds.push(noteId);
+    deleted.push(false);
+    links.push(Array.from({ length: level + 1 }, () => []));
+    nodeOf.set(noteId, node);
+
+    if (entryPoint === -1) {
+      entryPoint = node;
+      maxLevel = level;
+      return;
+    }
+
+    let entries = descend(vector, level);
+    for (let l = Math.min(level, maxLevel); l >= 0; l--) {
+      const found = searchLayer(vector, entries, options.efConstruction, l);
+      const neighbours = selectNeighbours(found, maxLinks(l));
+      links[node][l] = neighbours;
+
+      neighbours.forEach((neighbour) => {
+        const list = links[neighbour][l];
+        list.push(node);
+        // Re-run the heuristic only once a list overflows by half, which
+        // amortises its O(M²) dot products over several inserts
+        const limit = maxLinks(l);
+        if (list.length > limit + (limit >> 1)) {
+          const base = vectors[neighbour];
+          const ranked = list
+            .map((n) => ({ node: n, similarity: dot(base, vectors[n]) }))
+            .sort((a, b) => b.similarity - a.similarity);
+          links[neighbour][l] = selectNeighbours(ranked, limit);
+        }
+      });
+      entries = found;
+    }
+
+    if (level > maxLevel) {
+      entryPoint = node;
+      maxLevel = level;
+    }
+  };
+
+  const rebuild = () => {
+    const live = Array.from(embeddingOf.values());
+    random = createRandom(options.seed);
+    vectors = [];
+    nodeIds = [];
+    links = [];
+    deleted = [];
+    entryPoint = -1;
+    maxLevel = -1;
+    tombstones = 0;
+    nodeOf.clear();
+    live.forEach((e) => insertNode(e.noteId, normalize(e.vector)));
+  };
+
+  const remove = (noteId: string) => {
+    const node = nodeOf.get(noteId);
+    if (node === undefined) return;
+    deleted[node] = true;
+    nodeOf.delete(noteId);
+    embeddingOf.delete(noteId);
+    tombstones++;
+    if (embeddingOf.size === 0) {
+      rebuild();
+      model = null;
+      dim = 0;
+    } else if (tombstones > embeddingOf.size * MAX_TOMBSTONE_RATIO) {
+      rebuild();
+    }
+  };
+
+  const add = (embedding: NoteEmbedding) => {
+    if (embedding.vector.length === 0) return;
+    if (model !== null && (embedding.modelUsed !== model || embedding.vector.length !== dim)) {
+      throw new Error(
+        `ANN index holds ${model} vectors (${dim} dims), got ${embedding.modelUsed} (${embedding.vector.length} dims)`
+      );
+    }
+    remove(embedding.noteId);
+    model = embedding.modelUsed;
+    dim = embedding.vector.length;
+    embeddingOf.set(embedding.noteId, embedding);
+    insertNode(embedding.noteId, normalize(embedding.vector));
+  };
+
+  const accepts = (node: number, filter?: (noteId: string) => boolean) =>
+    !deleted[node] && (!filter || filter(nodeIds[node]));
+
+  const toNeighbours = (candidates: Candidate[]): AnnNeighbor[] =>
+    candidates.map((c) => ({ noteId: nodeIds[c.node], similarity: c.similarity }));
+
+  const scanAll = (
+    query: Float32Array,
+    filter?: (noteId: string) => boolean
+  ): Candidate[] => {
+    const results: Candidate[] = [];
+    for (let node = 0; node < vectors.length; node++) {
+      if (!accepts(node, filter)) continue;
+      results.push({ node, similarity: dot(query, vectors[node]) });
+    }
+    return results.sort((a, b) => b.similarity - a.similarity);
+  };
+
+  /**
+   * Layer-0 search with a growing candidate list until `enough` accepts the
+   * results or the list covers the whole graph
+   */
+  const search = (
+    query: Float32Array,
+    initialEf: number,
+    filter: ((noteId: string) => boolean) | undefined,
+    enough: (accepted: Candidate[], all: Candidate[], ef: number) => boolean
+  ): Candidate[] => {
+    const entries = descend(query, 0);
+    for (let ef = Math.max(initialEf, options.efSearch); ; ef *= 2) {
+      const found = searchLayer(query, entries, ef, 0);
+      const accepted = found.filter((c) => accepts(c.node, filter));
+      if (ef >= vectors.length || enough(accepted, found, ef)) return accepted;
+    }
+  };
+
+  const queryVector = (vector: number[]): Float32Array | null =>
+    embeddingOf.size === 0 || vector.length !== dim ? null : normalize(vector);
+
+  const index: AnnIndex = {
+    get size() {
+      return embeddingOf.size;
+    },
+    get model() {
+      return model;
+    },
+    get dimensions() {
+      return dim;
+    },
+    has: (noteId) => embeddingOf.has(noteId),
+    get: (noteId) => embeddingOf.get(noteId),
+    noteIds: () => Array.from(embeddingOf.keys()),
+    add,
+    remove,
+
+    knn(vector, k, queryOptions = {}) {
+      const query = queryVector(vector);
+      if (!query || k <= 0) return [];
+      const { filter } = queryOptions;
+
+      if (embeddingOf.size <= options.exactThreshold) {
+        return toNeighbours(scanAll(query, filter).slice(0, k));
+      }
+      const found = search(query, k, filter, (accepted) => accepted.length >= k);
+      return toNeighbours(found.slice(0, k));
+    },
+
+    radius(vector, minSimilarity, queryOptions = {}) {
+      const query = queryVector(vector);
+      if (!query) return [];
+      const { filter } = queryOptions;
+
+      if (embeddingOf.size <= options.exactThreshold) {
+        return toNeighbours(
+          scanAll(query, filter).filter((c) => c.similarity >= minSimilarity)
+        );
+      }
+      // Stop once the candidate list reaches past the radius
+      const found = search(
+        query,
+        options.efSearch,
+        filter,
+        (_, all, ef) =>
+          all.length < ef || all[all.length - 1].similarity < minSimilarity
+      );
+      return toNeighbours(found.filter((c) => c.similarity >= minSimilarity));
+    },
+  };
+
+  embeddings.forEach((embedding) => add(embedding));
+  return index;
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { ClusterNode, NoteEmbedding } from "../types";
+import { matchClusterIdentities } from "./clusterIdentity";
+
+const noteNode = (noteId: string): ClusterNode => ({
+  id: `note-${noteId}`,
+  name: noteId,
+  type: "note",
+  noteId,
+});
+
+const cluster = (
+  id: string,
+  name: string,
+  children: (ClusterNode | string)[],
+  extra: Partial<ClusterNode> = {}
+): ClusterNode => ({
+  id,
+  name,
+  type: "cluster",
+  children: children.map((c) => (typeof c === "string" ? noteNode(c) : c)),
+  ...extra,
+});
+
+const range = (prefix: string, from: number, to: number) =>
+  Array.from({ length: to - from }, (_, i) => `${prefix}${from + i}`);
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+});
+
+describe("matchClusterIdentities", () => {
+  it("keeps ids and names of unchanged clusters at every depth", () => {
+    const previous = [
+      cluster("ml", "Machine Learning", [
+        cluster("dl", "Deep Learning", range("a", 0, 4)),
+        cluster("classic", "Classic ML", range("a", 4, 8)),
+      ]),
+      cluster("cooking", "Cooking", range("c", 0, 5)),
+    ];
+    const next = [
+      cluster("partition-0", "Cuisine", range("c", 0, 5)),
+      cluster("partition-1", "AI", [
+        cluster("partition-0", "Neural Networks", range("a", 0, 4)),
+        cluster("partition-1", "Statistics", range("a", 4, 8)),
+      ]),
+    ];
+
+    const result = matchClusterIdentities(previous, next);
+
+    expect(result.clusters.map((c) => [c.id, c.name])).toEqual([
+      ["cooking", "Cooking"],
+      ["ml", "Machine Learning"],
+    ]);
+    expect(result.clusters[1].children!.map((c) => [c.id, c.name])).toEqual([
+      ["dl", "Deep Learning"],
+      ["classic", "Classic ML"],
+    ]);
+    expect(result.created).toEqual([]);
+    expect(result.retired).toEqual([]);
+    expect(result.lineage).toEqual([]);
+  });
+
+  it("keeps user-given names but takes new generated names when notes changed", () => {
+    const previous = [
+      cluster("a", "My Reading List", range("n", 0, 10), { userNamed: true }),
+      cluster("b", "Generated", range("m", 0, 10)),
+    ];
+    const next = [
+      cluster("p0", "Books", [...range("n", 0, 7), ...range("x", 0, 3)]),
+      cluster("p1", "Fresh Name", [...range("m", 0, 7), ...range("y", 0, 3)]),
+    ];
+
+    const [reading, generated] = matchClusterIdentities(previous, next).clusters;
+
+    expect(reading).toMatchObject({ id: "a", name: "My Reading List", userNamed: true });
+    expect(generated).toMatchObject({ id: "b", name: "Fresh Name" });
+    expect(generated.userNamed).toBeUndefined();
+  });
+
+  it("records splits and merges and gives new clusters unique ids", () => {
+    const previous = [
+      cluster("big", "Big", range("a", 0, 8)),
+      cluster("left", "Left", range("b", 0, 4)),
+      cluster("right", "Right", range("c", 0, 4)),
+    ];
+    const next = [
+      cluster("partition-0", "First half", range("a", 0, 4)),
+      cluster("partition-1", "Second half", range("a", 4, 8)),
+      cluster("partition-2", "Both", [...range("b", 0, 4), ...range("c", 0, 4)]),
+    ];
+
+    const result = matchClusterIdentities(previous, next, { now: 1000 });
+    const ids = result.clusters.map((c) => c.id);
+
+    expect(new Set(ids).size).toBe(3);
+    expect(ids).toContain("big");
+    expect(result.created).toHaveLength(1);
+    expect(result.created[0]).toMatch(/^cluster-/);
+    expect(result.lineage).toEqual([
+      { type: "split", depth: 1, from: ["big"], to: [ids[0], ids[1]] },
+      { type: "merge", depth: 1, from: ["left", "right"], to: [ids[2]] },
+    ]);
+    // Only one of the merged clusters can continue
+    expect(["left", "right"]).toContain(ids[2]);
+    expect(result.retired).toHaveLength(1);
+  });
+
+  it("never reuses an id that occurred twice in the previous tree", () => {
+    const previous = [
+      cluster("d1", "D1", [cluster("partition-0", "S1", range("a", 0, 3)), "a3"]),
+      cluster("d2", "D2", [cluster("partition-0", "S2", range("b", 0, 3)), "b3"]),
+    ];
+    const next = previous.map((d) => ({ ...d, id: `new-${d.id}` }));
+
+    const result = matchClusterIdentities(previous, next);
+    const subtopicIds = result.clusters.map((d) => d.children![0].id);
+
+    expect(result.clusters.map((d) => d.id)).toEqual(["d1", "d2"]);
+    expect(new Set(subtopicIds).size).toBe(2);
+    expect(subtopicIds).toContain("partition-0");
+  });
+
+  it("breaks ties in note overlap by centroid similarity", () => {
+    const previous = [
+      cluster("north", "North", ["n1", "n2", "shared1"]),
+      cluster("south", "South", ["s1", "s2", "shared2"]),
+    ];
+    const next = [cluster("p0", "Mixed", ["shared1", "shared2", "new1", "new2"])];
+    const embeddings = [
+      ...["n1", "n2", "shared1", "new1", "new2"].map((id) => emb(id, [0, 1])),
+      ...["s1", "s2", "shared2"].map((id) => emb(id, [1, 0])),
+    ];
+
+    const [mixed] = matchClusterIdentities(previous, next, { embeddings }).clusters;
+    expect(mixed.id).toBe("north");
+    // Without embeddings the overlap is too small to call it the same cluster
+    expect(matchClusterIdentities(previous, next).clusters[0].id).toMatch(/^cluster-/);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Cluster Identity
+ *
+ * Every clustering run mints fresh cluster ids and LLM names, so without help
+ * a re-cluster makes every cluster look new. This module matches the clusters
+ * of a new run to those of the previous run at the same depth, so matched
+ * clusters keep their id (and a name the user gave them), and records which
+ * clusters split or merged.
+ *
+ * Key Features:
+ * - Matching by note overlap (Jaccard), blended with centroid similarity
+ *   when embeddings are available
+ * - Greedy one-to-one assignment, strongest matches first
+ * - Unique ids for clusters without a predecessor
+ * - Split/merge detection from where each cluster's notes went
+ *
+ * Main Entry Points:
+ * - matchClusterIdentities(): Carry ids and names over to a new cluster tree
+ */
+
+import { ClusterLineageEvent, ClusterNode, NoteEmbedding } from "../types";
+import { computeCentroid, cosineSimilarity } from "./embeddingMath";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface ClusterMatch {
+  clusterId: string; // Id carried over from the previous run
+  similarity: number; // 0-1, blended note overlap and centroid similarity
+  overlap: number; // Jaccard index of the two note sets
+}
+
+export interface IdentityResult {
+  clusters: ClusterNode[];
+  matches: ClusterMatch[];
+  created: string[]; // Ids of clusters without a predecessor
+  retired: string[]; // Previous ids without a successor
+  lineage: ClusterLineageEvent[];
+}
+
+// Weight of note overlap against centroid similarity when both are known
+const OVERLAP_WEIGHT = 0.6;
+// Weaker matches are treated as different clusters
+const MIN_MATCH_SIMILARITY = 0.4;
+// Generated names are kept when a cluster's notes barely changed
+const KEEP_NAME_OVERLAP = 0.8;
+// Share of a previous cluster's notes that must reach a new cluster to count
+// towards a split or merge
+const LINEAGE_SHARE = 0.25;
+
+interface FlatCluster {
+  node: ClusterNode;
+  depth: number;
+  noteIds: Set<string>;
+  centroid?: number[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Every cluster of a tree with the notes below it, children before parents */
+const flattenClusters = (
+  clusters: ClusterNode[],
+  vectors: Map<string, number[]>
+): FlatCluster[] => {
+  const flat: FlatCluster[] = [];
+
+  const visit = (node: ClusterNode, depth: number): Set<string> => {
+    const noteIds = new Set<string>();
+    (node.children || []).forEach((child) => {
+      if (child.type === "note" && child.noteId) noteIds.add(child.noteId);
+      else if (child.type === "cluster") {
+        visit(child, depth + 1).forEach((id) => noteIds.add(id));
+      }
+    });
+
+    const noteVectors = Array.from(noteIds)
+      .map((id) => vectors.get(id))
+      .filter((v): v is number[] => !!v);
+    flat.push({
+      node,
+      depth,
+      noteIds,
+      centroid: noteVectors.length > 0 ? computeCentroid(noteVectors) : undefined,
+    });
+    return noteIds;
+  };
+
+  clusters.filter((c) => c.type === "cluster").forEach((c) => visit(c, 1));
+  return flat;
+};
+
+const sharedNotes = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  small.forEach((id) => {
+    if (large.has(id)) shared++;
+  });
+  return shared;
+};
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Give the clusters of a new run the ids of the previous clusters they
+ * continue. Clusters at the same depth sharing notes are paired greedily by
+ * similarity; a matched cluster keeps the previous id, and the previous name
+ * if the user set it or the notes barely changed. Unmatched clusters get new
+ * unique ids.
+ * @param previous Cluster tree of the previous run
+ * @param next Cluster tree of the new run
+ * @param options.embeddings Note embeddings, for centroid similarity
+ * @param options.now Timestamp used in new ids
+ */
+export const matchClusterIdentities = (
+  previous: ClusterNode[],
+  next: ClusterNode[],
+  options: { embeddings?: NoteEmbedding[]; now?: number } = {}
+): IdentityResult => {
+  const { embeddings = [], now = Date.now() } = options;
+  const vectors = new Map(embeddings.map((e) => [e.noteId, e.vector]));
+  const before = flattenClusters(previous, vectors);
+  const after = flattenClusters(next, vectors);
+
+  // Candidate pairs: same depth, at least one note in common
+  const pairs: { prev: FlatCluster; cur: FlatCluster; similarity: number; overlap: number }[] = [];
+  after.forEach((cur) => {
+    before.forEach((prev) => {
+      if (prev.depth !== cur.depth) return;
+      const shared = sharedNotes(prev.noteIds, cur.noteIds);
+      if (shared === 0) return;
+
+      const overlap = shared / (prev.noteIds.size + cur.noteIds.size - shared);
+      const similarity =
+        prev.centroid && cur.centroid
+          ? OVERLAP_WEIGHT * overlap +
+            (1 - OVERLAP_WEIGHT) * Math.max(0, cosineSimilarity(prev.centroid, cur.centroid))
+          : overlap;
+      pairs.push({ prev, cur, similarity, overlap });
+    });
+  });
+  pairs.sort((a, b) => b.similarity - a.similarity);
+
+  // Greedy one-to-one assignment; a previous id is never used twice
+  const matched = new Map<ClusterNode, (typeof pairs)[number]>();
+  const takenPrevious = new Set<FlatCluster>();
+  const usedIds = new Set<string>();
+  pairs.forEach((pair) => {
+    if (pair.similarity < MIN_MATCH_SIMILARITY) return;
+    if (matched.has(pair.cur.node) || takenPrevious.has(pair.prev)) return;
+    if (usedIds.has(pair.prev.node.id)) return;
+    matched.set(pair.cur.node, pair);
+    takenPrevious.add(pair.prev);
+    usedIds.add(pair.prev.node.id);
+  });
+
+  // Rebuild the new tree with carried-over or freshly minted ids
+  let minted = 0;
+  const created: string[] = [];
+  const matches: ClusterMatch[] = [];
+  const idOf = new Map<ClusterNode, string>();
+  const rebuild = (node: ClusterNode): ClusterNode => {
+    if (node.type !== "cluster") return node;
+    const children = node.children?.map(rebuild);
+    const pair = matched.get(node);
+
+    if (!pair) {
+      let id: string;
+      do {
+        id = `cluster-${now.toString(36)}-${minted++}`;
+      } while (usedIds.has(id));
+      usedIds.add(id);
+      created.push(id);
+      idOf.set(node, id);
+      return { ...node, id, children };
+    }
+
+    const predecessor = pair.prev.node;
+    idOf.set(node, predecessor.id);
+    matches.push({
+      clusterId: predecessor.id,
+      similarity: pair.similarity,
+      overlap: pair.overlap,
+    });
+    const keepName = predecessor.userNamed || pair.overlap >= KEEP_NAME_OVERLAP;
+    return {
+      ...node,
+      id: predecessor.id,
+      name: keepName ? predecessor.name : node.name,
+      userNamed: predecessor.userNamed || undefined,
+      children,
+    };
+  };
+  const clusters = next.map(rebuild);
+
+  const retired = before
+    .filter((prev) => !takenPrevious.has(prev))
+    .map((prev) => prev.node.id);
+
+  // Splits: a previous cluster whose notes went to several new ones.
+  // Merges: a new cluster that took over notes of several previous ones.
+  const lineage: ClusterLineageEvent[] = [];
+  const flows = new Map<FlatCluster, FlatCluster[]>();
+  const inflows = new Map<FlatCluster, FlatCluster[]>();
+  before.forEach((prev) => {
+    after.forEach((cur) => {
+      if (prev.depth !== cur.depth || prev.noteIds.size === 0) return;
+      if (sharedNotes(prev.noteIds, cur.noteIds) < LINEAGE_SHARE * prev.noteIds.size) return;
+      flows.set(prev, [...(flows.get(prev) || []), cur]);
+      inflows.set(cur, [...(inflows.get(cur) || []), prev]);
+    });
+  });
+  flows.forEach((targets, prev) => {
+    if (targets.length < 2) return;
+    lineage.push({
+      type: "split",
+      depth: prev.depth,
+      from: [prev.node.id],
+      to: targets.map((t) => idOf.get(t.node)!),
+    });
+  });
+  inflows.forEach((sources, cur) => {
+    if (sources.length < 2) return;
+    lineage.push({
+      type: "merge",
+      depth: cur.depth,
+      from: sources.map((s) => s.node.id),
+      to: [idOf.get(cur.node)!],
+    });
+  });
+
+  return { clusters, matches, created, retired, lineage };
+};
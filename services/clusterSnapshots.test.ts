@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { ClusterNode } from "../types";
+import { createClusterSnapshot, diffClusterTrees } from "./clusterSnapshots";
+
+const noteNode = (noteId: string): ClusterNode => ({
+  id: `note-${noteId}`,
+  name: noteId,
+  type: "note",
+  noteId,
+});
+
+const cluster = (id: string, name: string, children: (ClusterNode | string)[]): ClusterNode => ({
+  id,
+  name,
+  type: "cluster",
+  children: children.map((c) => (typeof c === "string" ? noteNode(c) : c)),
+});
+
+describe("createClusterSnapshot", () => {
+  it("copies the tree with its metadata and counts", () => {
+    const tree = [cluster("ml", "ML", [cluster("dl", "Deep Learning", ["a", "b"]), "c"])];
+    const snapshot = createClusterSnapshot("Before import", tree, {
+      method: "initial",
+      algorithm: "kmeans",
+      now: 1000,
+    });
+
+    expect(snapshot).toMatchObject({
+      name: "Before import",
+      createdAt: 1000,
+      automatic: false,
+      method: "initial",
+      algorithm: "kmeans",
+      noteCount: 3,
+      clusterCount: 2,
+    });
+    expect(snapshot.clusters).toEqual(tree);
+
+    tree[0].name = "Changed";
+    expect(snapshot.clusters[0].name).toBe("ML");
+  });
+});
+
+describe("diffClusterTrees", () => {
+  it("lists moved, added and removed notes with their cluster paths", () => {
+    const before = [
+      cluster("ml", "ML", [cluster("dl", "Deep Learning", ["a", "b"]), "c"]),
+      cluster("food", "Food", ["d", "e"]),
+    ];
+    const after = [
+      cluster("ml", "ML", [cluster("dl", "Deep Learning", ["a"]), "b", "c"]),
+      cluster("food", "Food", ["d", "f"]),
+    ];
+
+    const diff = diffClusterTrees(before, after);
+
+    expect(diff.movedNotes).toEqual([
+      { noteId: "b", title: "b", from: "ML / Deep Learning", to: "ML" },
+    ]);
+    expect(diff.addedNotes).toEqual([{ noteId: "f", title: "f", to: "Food" }]);
+    expect(diff.removedNotes).toEqual([{ noteId: "e", title: "e", from: "Food" }]);
+    expect(diff.createdClusters).toEqual([]);
+    expect(diff.removedClusters).toEqual([]);
+    expect(diff.renamedClusters).toEqual([]);
+  });
+
+  it("compares clusters by id to find created, removed and renamed ones", () => {
+    const before = [cluster("ml", "ML", ["a", "b"]), cluster("food", "Food", ["c"])];
+    const after = [
+      cluster("ml", "Machine Learning", [cluster("nlp", "NLP", ["a"]), "b"]),
+      cluster("web", "Web", ["c"]),
+    ];
+
+    const diff = diffClusterTrees(before, after);
+
+    expect(diff.createdClusters).toEqual([
+      { clusterId: "nlp", name: "Machine Learning / NLP" },
+      { clusterId: "web", name: "Web" },
+    ]);
+    expect(diff.removedClusters).toEqual([{ clusterId: "food", name: "Food" }]);
+    expect(diff.renamedClusters).toEqual([
+      { clusterId: "ml", name: "Machine Learning", previousName: "ML" },
+    ]);
+    expect(diff.movedNotes.map((n) => n.noteId)).toEqual(["a", "c"]);
+  });
+
+  it("finds no changes between identical trees", () => {
+    const tree = [cluster("ml", "ML", [cluster("dl", "Deep Learning", ["a"]), "b"])];
+    const diff = diffClusterTrees(tree, structuredClone(tree));
+    expect(Object.values(diff).every((list) => list.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Cluster Snapshots
+ *
+ * The cluster cache only holds the current tree, and the memory buffer only
+ * the assignments of recent decisions. A snapshot is a named copy of a whole
+ * cluster tree with how it was made (method, thresholds, quality), so any two
+ * trees can be compared later, e.g. before and after importing a batch of
+ * files. Cluster ids are stable across runs (clusterIdentity.ts), so clusters
+ * are compared by id.
+ *
+ * Key Features:
+ * - Snapshot metadata: method, algorithm, per-level parameters, quality
+ * - Diffs listing moved, added and removed notes, and created, removed and
+ *   renamed clusters
+ *
+ * Main Entry Points:
+ * - createClusterSnapshot(): Copy a tree with its metadata
+ * - diffClusterTrees(): What changed from one tree to another
+ */
+
+import {
+  ClusterNode,
+  ClusterSnapshot,
+  ClusterSnapshotDiff,
+  SnapshotClusterChange,
+  SnapshotNoteChange,
+} from "../types";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export type SnapshotMetadata = Pick<
+  ClusterSnapshot,
+  "method" | "algorithm" | "parameters" | "quality"
+> & { automatic?: boolean; now?: number };
+
+interface FlatTree {
+  clusters: Map<string, { name: string; path: string }>;
+  notes: Map<string, { title: string; clusterId: string }>;
+}
+
+const PATH_SEPARATOR = " / ";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Every cluster with its path, and every note with the cluster directly above it */
+const flattenTree = (clusters: ClusterNode[]): FlatTree => {
+  const flat: FlatTree = { clusters: new Map(), notes: new Map() };
+
+  const visit = (node: ClusterNode, parentPath: string) => {
+    const path = parentPath ? `${parentPath}${PATH_SEPARATOR}${node.name}` : node.name;
+    flat.clusters.set(node.id, { name: node.name, path });
+    (node.children || []).forEach((child) => {
+      if (child.type === "cluster") visit(child, path);
+      else if (child.noteId) {
+        flat.notes.set(child.noteId, { title: child.name, clusterId: node.id });
+      }
+    });
+  };
+
+  clusters.filter((c) => c.type === "cluster").forEach((c) => visit(c, ""));
+  return flat;
+};
+
+const byTitle = (a: SnapshotNoteChange, b: SnapshotNoteChange) =>
+  a.title.localeCompare(b.title);
+const byName = (a: SnapshotClusterChange, b: SnapshotClusterChange) =>
+  a.name.localeCompare(b.name);
+
+// ============================================================================
+// Snapshots & Diffs
+// ============================================================================
+
+/**
+ * Copy a cluster tree into a snapshot. The tree is cloned, so later edits to
+ * it do not change the snapshot.
+ */
+export const createClusterSnapshot = (
+  name: string,
+  clusters: ClusterNode[],
+  metadata: SnapshotMetadata
+): ClusterSnapshot => {
+  const { automatic = false, now = Date.now(), ...details } = metadata;
+  const flat = flattenTree(clusters);
+  return {
+    id: `snapshot-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: now,
+    automatic,
+    ...details,
+    noteCount: flat.notes.size,
+    clusterCount: flat.clusters.size,
+    clusters: structuredClone(clusters),
+  };
+};
+
+/**
+ * What changed from `before` to `after`. A note moved when the cluster
+ * directly above it has a different id; a cluster was renamed when its id
+ * survived under another name. Lists are sorted by title or name.
+ */
+export const diffClusterTrees = (
+  before: ClusterNode[],
+  after: ClusterNode[]
+): ClusterSnapshotDiff => {
+  const old = flattenTree(before);
+  const cur = flattenTree(after);
+  const diff: ClusterSnapshotDiff = {
+    movedNotes: [],
+    addedNotes: [],
+    removedNotes: [],
+    createdClusters: [],
+    removedClusters: [],
+    renamedClusters: [],
+  };
+
+  cur.notes.forEach((note, noteId) => {
+    const to = cur.clusters.get(note.clusterId)!.path;
+    const previous = old.notes.get(noteId);
+    if (!previous) {
+      diff.addedNotes.push({ noteId, title: note.title, to });
+    } else if (previous.clusterId !== note.clusterId) {
+      const from = old.clusters.get(previous.clusterId)!.path;
+      diff.movedNotes.push({ noteId, title: note.title, from, to });
+    }
+  });
+  old.notes.forEach((note, noteId) => {
+    if (cur.notes.has(noteId)) return;
+    const from = old.clusters.get(note.clusterId)!.path;
+    diff.removedNotes.push({ noteId, title: note.title, from });
+  });
+
+  cur.clusters.forEach((cluster, clusterId) => {
+    const previous = old.clusters.get(clusterId);
+    if (!previous) {
+      diff.createdClusters.push({ clusterId, name: cluster.path });
+    } else if (previous.name !== cluster.name) {
+      diff.renamedClusters.push({ clusterId, name: cluster.name, previousName: previous.name });
+    }
+  });
+  old.clusters.forEach((cluster, clusterId) => {
+    if (!cur.clusters.has(clusterId)) {
+      diff.removedClusters.push({ clusterId, name: cluster.path });
+    }
+  });
+
+  diff.movedNotes.sort(byTitle);
+  diff.addedNotes.sort(byTitle);
+  diff.removedNotes.sort(byTitle);
+  diff.createdClusters.sort(byName);
+  diff.removedClusters.sort(byName);
+  diff.renamedClusters.sort(byName);
+  return diff;
+};
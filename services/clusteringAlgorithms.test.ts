@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { EmbeddingPartition, NoteEmbedding } from "../types";
+import {
+  agglomerativePartitioning,
+  constrainPartitions,
+  hdbscanPartitioning,
+  kMeansPartitioning,
+  partitionEmbeddings,
+} from "./clusteringAlgorithms";
+import { embeddingGuidedPartitioning } from "./embeddingMath";
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+});
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+/** `perCentre` notes around each of `centres` random directions; ids are "c<centre>-<i>" */
+const clusteredCorpus = (centres: number, perCentre: number, dim = 16, seed = 7) => {
+  const random = seededRandom(seed);
+  const directions = Array.from({ length: centres }, () =>
+    Array.from({ length: dim }, () => random() * 2 - 1)
+  );
+  return directions.flatMap((direction, c) =>
+    Array.from({ length: perCentre }, (_, i) =>
+      emb(
+        `c${c}-${i}`,
+        direction.map((v) => v + (random() - 0.5) * 0.4)
+      )
+    )
+  );
+};
+
+const centreOf = (noteId: string) => noteId.split("-")[0];
+
+/** Every note exactly once, and each partition drawn from a single centre */
+const expectPureCover = (partitions: EmbeddingPartition[], corpus: NoteEmbedding[]) => {
+  const ids = partitions.flatMap((p) => p.noteIds);
+  expect(ids.sort()).toEqual(corpus.map((e) => e.noteId).sort());
+  partitions.forEach((p) => {
+    expect(new Set(p.noteIds.map(centreOf)).size).toBe(1);
+  });
+};
+
+describe("clustering algorithms", () => {
+  const corpus = clusteredCorpus(5, 30);
+
+  it("k-means++ finds the number of clusters by silhouette", () => {
+    const partitions = kMeansPartitioning(corpus);
+
+    expect(partitions).toHaveLength(5);
+    expectPureCover(partitions, corpus);
+    partitions.forEach((p) => {
+      expect(p.silhouetteScore).toBeGreaterThan(0.5);
+      expect(p.centroid).toHaveLength(16);
+    });
+  });
+
+  it("k-means++ honours a fixed k and is reproducible for a seed", () => {
+    const first = kMeansPartitioning(corpus, { k: 3, seed: 1 });
+    expect(first).toHaveLength(3);
+    expect(kMeansPartitioning(corpus, { k: 3, seed: 1 })).toEqual(first);
+  });
+
+  it("agglomerative clustering cuts the dendrogram at a threshold or at k", () => {
+    const byThreshold = agglomerativePartitioning(corpus, { threshold: 0.7 });
+    expect(byThreshold).toHaveLength(5);
+    expectPureCover(byThreshold, corpus);
+
+    expect(agglomerativePartitioning(corpus, { k: 2 })).toHaveLength(2);
+  });
+
+  it("HDBSCAN finds dense clusters and places noise notes in the nearest one", () => {
+    const random = seededRandom(99);
+    const noise = Array.from({ length: 4 }, (_, i) =>
+      emb(`noise-${i}`, Array.from({ length: 16 }, () => random() * 2 - 1))
+    );
+    const partitions = hdbscanPartitioning([...corpus, ...noise], {
+      minClusterSize: 10,
+    });
+
+    expect(partitions).toHaveLength(5);
+    const ids = partitions.flatMap((p) => p.noteIds);
+    expect(new Set(ids).size).toBe(corpus.length + noise.length);
+    partitions.forEach((p) => {
+      const centres = new Set(
+        p.noteIds.filter((id) => !id.startsWith("noise")).map(centreOf)
+      );
+      expect(centres.size).toBe(1);
+    });
+  });
+
+  it("HDBSCAN uses the approximate kNN graph for large inputs", () => {
+    const large = clusteredCorpus(4, 520, 8, 3);
+    const partitions = hdbscanPartitioning(large, { minClusterSize: 50 });
+
+    expect(partitions).toHaveLength(4);
+    expectPureCover(partitions, large);
+  });
+
+  it("merges undersized clusters into their nearest neighbour", () => {
+    const outliers = clusteredCorpus(1, 2, 16, 123).map((e, i) =>
+      emb(`outlier-${i}`, e.vector)
+    );
+    const partitions = agglomerativePartitioning([...corpus, ...outliers], {
+      threshold: 0.7,
+      minClusterSize: 5,
+    });
+
+    expect(partitions).toHaveLength(5);
+    expect(partitions.flatMap((p) => p.noteIds)).toHaveLength(corpus.length + 2);
+    partitions.forEach((p) => expect(p.noteIds.length).toBeGreaterThanOrEqual(5));
+  });
+
+  it("keeps too few notes in a single partition", () => {
+    const few = corpus.slice(0, 3);
+    ["kmeans", "agglomerative", "hdbscan"].forEach((algorithm) => {
+      const partitions = partitionEmbeddings(few, {
+        algorithm: algorithm as "kmeans",
+        minClusterSize: 2,
+        threshold: 0.99,
+      });
+      expect(partitions.map((p) => p.noteIds)).toEqual([few.map((e) => e.noteId)]);
+    });
+    expect(partitionEmbeddings([], { algorithm: "kmeans" })).toEqual([]);
+  });
+
+  it("dispatches the threshold algorithm to embedding-guided partitioning", () => {
+    expect(
+      partitionEmbeddings(corpus, { algorithm: "threshold", threshold: 0.8, minClusterSize: 1 })
+    ).toEqual(embeddingGuidedPartitioning(corpus, 0.8, 1));
+  });
+});
+
+describe("clustering constraints", () => {
+  const corpus = clusteredCorpus(4, 20);
+  const labelOf = (partitions: EmbeddingPartition[], noteId: string) =>
+    partitions.findIndex((p) => p.noteIds.includes(noteId));
+  const constraints = {
+    mustLink: [
+      ["c0-0", "c1-0"],
+      ["c1-0", "c2-0"], // Transitive: c0-0, c1-0 and c2-0 stay together
+    ] as [string, string][],
+    cannotLink: [["c3-1", "c3-2"]] as [string, string][],
+  };
+
+  it("honours must-link and cannot-link pairs with every algorithm", () => {
+    (["kmeans", "agglomerative", "hdbscan", "threshold"] as const).forEach((algorithm) => {
+      const partitions = partitionEmbeddings(corpus, {
+        algorithm,
+        threshold: 0.7,
+        minClusterSize: algorithm === "threshold" ? 1 : 5,
+        constraints,
+      });
+
+      const together = labelOf(partitions, "c0-0");
+      expect(together).toBeGreaterThanOrEqual(0);
+      expect(labelOf(partitions, "c1-0")).toBe(together);
+      expect(labelOf(partitions, "c2-0")).toBe(together);
+      expect(labelOf(partitions, "c3-1")).not.toBe(labelOf(partitions, "c3-2"));
+      // Every note stays in at most one partition
+      const ids = partitions.flatMap((p) => p.noteIds);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  it("moves only the notes of violated constraints", () => {
+    const partitions = kMeansPartitioning(corpus, { k: 4 });
+    expect(constrainPartitions(corpus, partitions, { mustLink: [], cannotLink: [] })).toBe(
+      partitions
+    );
+
+    // Apart from the constrained notes, every partition keeps its members
+    const constrained = new Set(["c0-0", "c1-0", "c2-0", "c3-1", "c3-2"]);
+    const membership = (ps: EmbeddingPartition[]) =>
+      ps
+        .map((p) => p.noteIds.filter((id) => !constrained.has(id)).sort().join(","))
+        .filter((key) => key.length > 0)
+        .sort();
+    const repaired = constrainPartitions(corpus, partitions, constraints);
+    expect(repaired).not.toBe(partitions);
+    expect(membership(repaired)).toEqual(membership(partitions));
+  });
+
+  it("opens a new cluster when a cannot-link has nowhere else to go", () => {
+    const few = corpus.slice(0, 3);
+    const partitions = partitionEmbeddings(few, {
+      algorithm: "kmeans",
+      constraints: { mustLink: [], cannotLink: [["c0-0", "c0-1"]] },
+    });
+
+    expect(partitions).toHaveLength(2);
+    expect(labelOf(partitions, "c0-0")).not.toBe(labelOf(partitions, "c0-1"));
+  });
+
+  it("ignores constraints on unknown notes and contradictory cannot-links", () => {
+    const plain = kMeansPartitioning(corpus, { k: 4 });
+    const partitions = partitionEmbeddings(corpus, {
+      algorithm: "kmeans",
+      k: 4,
+      constraints: {
+        mustLink: [["c0-0", "missing"], ["c0-0", "c0-1"]],
+        cannotLink: [["c0-0", "c0-1"]],
+      },
+    });
+    expect(partitions).toEqual(plain);
+  });
+});
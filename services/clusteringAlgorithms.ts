@@ -0,0 +1,1079 @@
+/**
+ * Clustering Algorithms
+ *
+ * Partitioning algorithms over note embeddings. Every algorithm returns
+ * EmbeddingPartitions (note ids, centroid, silhouette), so naming, ClusterNode
+ * conversion and the domain/subtopic hierarchy are the same whichever one is
+ * selected. Pure like embeddingMath.ts, so it runs in the clustering worker.
+ *
+ * Key Features:
+ * - k-means++ on unit vectors (cosine), seeded, k chosen by silhouette
+ * - Average-linkage agglomerative clustering (nearest-neighbour chain)
+ * - HDBSCAN: density-based, finds the number of clusters itself
+ * - Clusters below the minimum size (and HDBSCAN noise) join their nearest
+ *   cluster, so results stay balanced without a catch-all group
+ * - Must-link / cannot-link note pairs as hard constraints: COP-k-means
+ *   assignment, and a repair pass for every algorithm
+ *
+ * Main Entry Points:
+ * - partitionEmbeddings(): Run the selected algorithm
+ * - kMeansPartitioning() / agglomerativePartitioning() / hdbscanPartitioning()
+ * - constrainPartitions(): Make existing partitions honour constraints
+ */
+
+import {
+  ClusteringAlgorithm,
+  EmbeddingPartition,
+  NoteEmbedding,
+  PartitionConstraints,
+} from "../types";
+import { buildAnnIndex } from "./annIndex";
+import {
+  clusterSilhouettes,
+  createRandom,
+  dot,
+  groupByLabel,
+  meanOf,
+  normalize,
+  sampleIndices,
+  scorePartitions,
+  SILHOUETTE_SAMPLE,
+  silhouettes,
+  similarityMatrix,
+  usableEmbeddings,
+  Vector,
+} from "./clusteringMetrics";
+import {
+  computeCentroid,
+  embeddingGuidedPartitioning,
+  ProgressCallback,
+  throttledProgress,
+} from "./embeddingMath";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface PartitionOptions {
+  algorithm: ClusteringAlgorithm;
+  /** Similarity for graph edges ("threshold") or the dendrogram cut ("agglomerative") */
+  threshold?: number;
+  /** Smaller clusters are merged into their nearest neighbour (dropped by "threshold") */
+  minClusterSize?: number;
+  /** Fixed number of clusters for k-means / agglomerative instead of choosing one */
+  k?: number;
+  /** HDBSCAN neighbourhood size for core distances (defaults to minClusterSize) */
+  minSamples?: number;
+  /** Seed for k-means++ initialisation and sampling, for reproducible clusters */
+  seed?: number;
+  /** Note pairs to keep together / apart; pairs with unknown notes are ignored */
+  constraints?: PartitionConstraints;
+}
+
+export type AlgorithmOptions = Omit<PartitionOptions, "algorithm">;
+
+export const DEFAULT_CLUSTERING_ALGORITHM: ClusteringAlgorithm = "kmeans";
+
+const DEFAULT_SEED = 42;
+const DEFAULT_CUT_THRESHOLD = 0.5;
+
+// k values tried when k is chosen automatically
+const AUTO_K_CANDIDATES = [2, 3, 4, 5, 6, 7, 8, 10, 12, 15, 20, 25, 30, 40];
+const KMEANS_MAX_ITERATIONS = 50;
+const KMEANS_RESTARTS = 3;
+// Pairwise algorithms keep an n×n matrix; larger inputs take the fallbacks below
+const MAX_PAIRWISE_POINTS = 2000;
+// Neighbours per note in the approximate HDBSCAN graph
+const HDBSCAN_GRAPH_NEIGHBOURS = 15;
+const MIN_DISTANCE = 1e-6;
+
+/** Default smallest cluster: grows slowly with the corpus (2 for 8 notes, 16 for 1000) */
+export const defaultMinClusterSize = (noteCount: number): number =>
+  Math.max(2, Math.round(Math.sqrt(noteCount) / 2));
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/** Mean of unit vectors, renormalised (spherical k-means centroid) */
+const meanDirection = (vectors: Vector[], members: number[]): Vector => {
+  const sum = new Float64Array(vectors[0].length);
+  members.forEach((i) => {
+    const v = vectors[i];
+    for (let d = 0; d < sum.length; d++) sum[d] += v[d];
+  });
+  let norm = 0;
+  for (let d = 0; d < sum.length; d++) norm += sum[d] * sum[d];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let d = 0; d < sum.length; d++) sum[d] /= norm;
+  return sum;
+};
+
+// ============================================================================
+// Shared Post-Processing
+// ============================================================================
+
+/**
+ * Move the notes of undersized clusters (and noise, label -1) into the
+ * nearest cluster that is large enough, then relabel 0..k-1 by size.
+ * If no cluster is large enough everything becomes one cluster.
+ */
+const absorbSmallClusters = (
+  vectors: Vector[],
+  labels: Int32Array,
+  minClusterSize: number
+): number => {
+  const k = labels.reduce((max, l) => Math.max(max, l + 1), 0);
+  const groups = groupByLabel(labels, k);
+  const kept = groups
+    .map((members, label) => ({ members, label }))
+    .filter((g) => g.members.length >= minClusterSize);
+
+  if (kept.length === 0) {
+    labels.fill(0);
+    return vectors.length > 0 ? 1 : 0;
+  }
+
+  const keptLabels = new Set(kept.map((g) => g.label));
+  const centroids = kept.map((g) => meanDirection(vectors, g.members));
+  for (let i = 0; i < labels.length; i++) {
+    if (keptLabels.has(labels[i])) continue;
+    let best = 0;
+    let bestSim = -Infinity;
+    centroids.forEach((centroid, c) => {
+      const sim = dot(vectors[i], centroid);
+      if (sim > bestSim) {
+        bestSim = sim;
+        best = c;
+      }
+    });
+    labels[i] = kept[best].label;
+  }
+
+  return relabelBySize(labels, k);
+};
+
+/**
+ * Relabel clusters 0..k-1, largest first (ties by first member so the order
+ * is stable), dropping empty ones; unassigned notes (-1) stay unassigned
+ */
+const relabelBySize = (labels: Int32Array, k: number): number => {
+  const order = groupByLabel(labels, k)
+    .map((members, label) => ({ members, label }))
+    .filter((g) => g.members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length || a.members[0] - b.members[0]);
+  const relabel = new Map(order.map((g, i) => [g.label, i] as const));
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] >= 0) labels[i] = relabel.get(labels[i])!;
+  }
+  return order.length;
+};
+
+const toPartitions = (
+  embeddings: NoteEmbedding[],
+  vectors: Vector[],
+  labels: Int32Array,
+  k: number,
+  random: () => number
+): EmbeddingPartition[] => {
+  const scores = clusterSilhouettes(vectors, labels, k, random);
+  return groupByLabel(labels, k).map((members, i) => ({
+    id: `partition-${i}`,
+    noteIds: members.map((m) => embeddings[m].noteId),
+    centroid: computeCentroid(members.map((m) => embeddings[m].vector)),
+    silhouetteScore: scores[i],
+  }));
+};
+
+/** One partition holding every note, for inputs too small to split */
+const singlePartition = (embeddings: NoteEmbedding[]): EmbeddingPartition[] =>
+  embeddings.length === 0
+    ? []
+    : [
+        {
+          id: "partition-0",
+          noteIds: embeddings.map((e) => e.noteId),
+          centroid: computeCentroid(embeddings.map((e) => e.vector)),
+          silhouetteScore: 0,
+        },
+      ];
+
+// ============================================================================
+// Constraints
+// ============================================================================
+
+interface CompiledConstraints {
+  groupOf: Int32Array; // Note index → must-link group
+  groups: number[][]; // Note indices of each must-link group
+  cannotLink: Set<number>[]; // Group → groups it may not share a cluster with
+  constrained: number[]; // Groups with several notes or a cannot-link, largest first
+}
+
+/**
+ * Resolve note-id constraints against `embeddings`: must-links join notes
+ * into groups (transitively), cannot-links hold between groups. A cannot-link
+ * inside a must-link group cannot be satisfied and is dropped. Returns null
+ * when no constraint applies to these notes.
+ */
+const compileConstraints = (
+  embeddings: NoteEmbedding[],
+  constraints?: PartitionConstraints
+): CompiledConstraints | null => {
+  if (!constraints) return null;
+  const index = new Map(embeddings.map((e, i) => [e.noteId, i] as const));
+  const pairs = (list: [string, string][]) =>
+    list
+      .map(([a, b]) => [index.get(a), index.get(b)] as const)
+      .filter((p): p is readonly [number, number] =>
+        p[0] !== undefined && p[1] !== undefined && p[0] !== p[1]
+      );
+  const mustLink = pairs(constraints.mustLink);
+  const cannotLink = pairs(constraints.cannotLink);
+  if (mustLink.length === 0 && cannotLink.length === 0) return null;
+
+  const parent = embeddings.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  mustLink.forEach(([a, b]) => {
+    parent[find(b)] = find(a);
+  });
+
+  const groupOfRoot = new Map<number, number>();
+  const groupOf = new Int32Array(embeddings.length);
+  const groups: number[][] = [];
+  embeddings.forEach((_, i) => {
+    const root = find(i);
+    if (!groupOfRoot.has(root)) {
+      groupOfRoot.set(root, groups.length);
+      groups.push([]);
+    }
+    groupOf[i] = groupOfRoot.get(root)!;
+    groups[groupOf[i]].push(i);
+  });
+
+  const apart: Set<number>[] = groups.map(() => new Set());
+  cannotLink.forEach(([a, b]) => {
+    const [ga, gb] = [groupOf[a], groupOf[b]];
+    if (ga === gb) {
+      console.warn("Ignoring a cannot-link between notes that must be linked");
+      return;
+    }
+    apart[ga].add(gb);
+    apart[gb].add(ga);
+  });
+
+  const constrained = groups
+    .map((members, g) => ({ members, g }))
+    .filter(({ members, g }) => members.length > 1 || apart[g].size > 0)
+    .sort((a, b) => b.members.length - a.members.length || a.members[0] - b.members[0])
+    .map(({ g }) => g);
+  return { groupOf, groups, cannotLink: apart, constrained };
+};
+
+/**
+ * Place one constrained group: the cluster whose centroid is closest to its
+ * notes among those holding no cannot-linked group, or -1 if there is none
+ */
+const placeGroup = (
+  vectors: Vector[],
+  centroids: Vector[],
+  members: number[],
+  blocked: (cluster: number) => boolean
+): number => {
+  let best = -1;
+  let bestScore = -Infinity;
+  centroids.forEach((centroid, c) => {
+    if (blocked(c)) return;
+    let score = 0;
+    members.forEach((i) => (score += dot(vectors[i], centroid)));
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  });
+  return best;
+};
+
+/**
+ * COP-k-means assignment step: constrained groups first, largest first, then
+ * every other note to its nearest centroid. A group with no allowed centroid
+ * takes its nearest one and is left to enforceConstraints(). Fills `fit` with
+ * each note's similarity to its centroid; returns whether any label changed.
+ */
+const assignWithConstraints = (
+  vectors: Vector[],
+  centroids: Vector[],
+  compiled: CompiledConstraints,
+  labels: Int32Array,
+  fit: Float64Array
+): boolean => {
+  const previous = labels.slice();
+  const clusterGroups = centroids.map(() => new Set<number>());
+  labels.fill(-1);
+
+  compiled.constrained.forEach((g) => {
+    const members = compiled.groups[g];
+    const blocked = (c: number) =>
+      Array.from(compiled.cannotLink[g]).some((h) => clusterGroups[c].has(h));
+    let cluster = placeGroup(vectors, centroids, members, blocked);
+    if (cluster < 0) cluster = placeGroup(vectors, centroids, members, () => false);
+    clusterGroups[cluster].add(g);
+    members.forEach((i) => (labels[i] = cluster));
+  });
+
+  for (let i = 0; i < vectors.length; i++) {
+    if (labels[i] >= 0) {
+      fit[i] = dot(vectors[i], centroids[labels[i]]);
+      continue;
+    }
+    let best = 0;
+    let bestSim = -Infinity;
+    for (let c = 0; c < centroids.length; c++) {
+      const sim = dot(vectors[i], centroids[c]);
+      if (sim > bestSim) {
+        bestSim = sim;
+        best = c;
+      }
+    }
+    fit[i] = bestSim;
+    labels[i] = best;
+  }
+  return labels.some((label, i) => label !== previous[i]);
+};
+
+/** Whether labels split a must-link group, or put cannot-linked groups together */
+const violatesConstraints = (labels: Int32Array, compiled: CompiledConstraints): boolean =>
+  compiled.constrained.some((g) => {
+    const label = labels[compiled.groups[g][0]];
+    return (
+      compiled.groups[g].some((i) => labels[i] !== label) ||
+      (label >= 0 &&
+        Array.from(compiled.cannotLink[g]).some(
+          (h) => labels[compiled.groups[h][0]] === label
+        ))
+    );
+  });
+
+/**
+ * Repair labels that break constraints, moving as little as possible: groups
+ * already whole in one cluster stay unless a larger cannot-linked group is
+ * there too; the others are placed like COP-k-means does, in a new cluster
+ * when every existing one is blocked. Unconstrained notes keep their label.
+ * @returns The number of clusters, relabelled largest first
+ */
+const enforceConstraints = (
+  vectors: Vector[],
+  labels: Int32Array,
+  k: number,
+  compiled: CompiledConstraints
+): number => {
+  const clusters = groupByLabel(labels, k);
+  const centroids = clusters.map((members) =>
+    members.length > 0 ? meanDirection(vectors, members) : new Float64Array(vectors[0].length)
+  );
+  const clusterGroups = centroids.map(() => new Set<number>());
+
+  // Keep whole groups where they are, larger groups winning cannot-link clashes;
+  // wholly unassigned groups stay unassigned
+  const unplaced: number[] = [];
+  compiled.constrained.forEach((g) => {
+    const members = compiled.groups[g];
+    const label = labels[members[0]];
+    if (!members.every((i) => labels[i] === label)) unplaced.push(g);
+    else if (label < 0) return;
+    else if (Array.from(compiled.cannotLink[g]).some((h) => clusterGroups[label].has(h))) {
+      unplaced.push(g);
+    } else clusterGroups[label].add(g);
+  });
+
+  unplaced.forEach((g) => {
+    const members = compiled.groups[g];
+    let cluster = placeGroup(
+      vectors,
+      centroids,
+      members,
+      (c) =>
+        (c < clusters.length && clusters[c].length === 0) ||
+        Array.from(compiled.cannotLink[g]).some((h) => clusterGroups[c].has(h))
+    );
+    if (cluster < 0) {
+      cluster = centroids.length;
+      centroids.push(meanDirection(vectors, members));
+      clusterGroups.push(new Set());
+    }
+    clusterGroups[cluster].add(g);
+    members.forEach((i) => (labels[i] = cluster));
+  });
+
+  return relabelBySize(labels, centroids.length);
+};
+
+/**
+ * Make partitions honour must-link / cannot-link constraints, moving only
+ * notes of violated constraints. Notes outside every partition stay out
+ * unless a constraint places them. Unchanged when nothing is violated.
+ */
+export const constrainPartitions = (
+  embeddings: NoteEmbedding[],
+  partitions: EmbeddingPartition[],
+  constraints?: PartitionConstraints,
+  seed: number = DEFAULT_SEED
+): EmbeddingPartition[] => {
+  const usable = usableEmbeddings(embeddings);
+  const compiled = compileConstraints(usable, constraints);
+  if (!compiled) return partitions;
+
+  const labelOf = new Map<string, number>();
+  partitions.forEach((p, c) => p.noteIds.forEach((id) => labelOf.set(id, c)));
+  const labels = Int32Array.from(usable, (e) => labelOf.get(e.noteId) ?? -1);
+  if (!violatesConstraints(labels, compiled)) return partitions;
+
+  const vectors = usable.map((e) => normalize(e.vector));
+  const k = enforceConstraints(vectors, labels, partitions.length, compiled);
+  const repaired = groupByLabel(labels, k).map((members, i) => ({
+    id: `partition-${i}`,
+    noteIds: members.map((m) => usable[m].noteId),
+    centroid: computeCentroid(members.map((m) => usable[m].vector)),
+  }));
+  return scorePartitions(usable, repaired, seed);
+};
+
+// ============================================================================
+// k-means++
+// ============================================================================
+
+interface KMeansResult {
+  labels: Int32Array;
+  inertia: number; // Sum of cosine distances to the assigned centroid
+}
+
+/** Spherical k-means with k-means++ seeding over unit vectors (COP-k-means with constraints) */
+const kMeans = (
+  vectors: Vector[],
+  k: number,
+  random: () => number,
+  compiled: CompiledConstraints | null = null
+): KMeansResult => {
+  const n = vectors.length;
+
+  // k-means++: each next centre is drawn with probability ∝ distance²
+  const centroids: Vector[] = [vectors[Math.floor(random() * n)]];
+  const nearest = new Float64Array(n).fill(Infinity);
+  while (centroids.length < k) {
+    const latest = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      const d = Math.max(0, 1 - dot(vectors[i], latest));
+      nearest[i] = Math.min(nearest[i], d * d);
+      total += nearest[i];
+    }
+    if (total === 0) break; // Fewer distinct points than k
+    let target = random() * total;
+    let chosen = n - 1;
+    for (let i = 0; i < n; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centroids.push(vectors[chosen]);
+  }
+
+  const labels = new Int32Array(n).fill(-1);
+  const fit = new Float64Array(n);
+  for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    if (compiled) {
+      changed = assignWithConstraints(vectors, centroids, compiled, labels, fit);
+    } else {
+      for (let i = 0; i < n; i++) {
+        let best = 0;
+        let bestSim = -Infinity;
+        for (let c = 0; c < centroids.length; c++) {
+          const sim = dot(vectors[i], centroids[c]);
+          if (sim > bestSim) {
+            bestSim = sim;
+            best = c;
+          }
+        }
+        fit[i] = bestSim;
+        if (labels[i] !== best) {
+          labels[i] = best;
+          changed = true;
+        }
+      }
+    }
+    if (!changed) break;
+
+    groupByLabel(labels, centroids.length).forEach((members, c) => {
+      if (members.length > 0) {
+        centroids[c] = meanDirection(vectors, members);
+        return;
+      }
+      // Empty cluster: restart it at the worst-fitting point
+      let worst = 0;
+      for (let i = 1; i < n; i++) if (fit[i] < fit[worst]) worst = i;
+      centroids[c] = vectors[worst];
+      fit[worst] = Infinity;
+    });
+  }
+
+  let inertia = 0;
+  for (let i = 0; i < n; i++) inertia += 1 - fit[i];
+  return { labels, inertia };
+};
+
+/** Best of several seeded restarts */
+const bestKMeans = (
+  vectors: Vector[],
+  k: number,
+  random: () => number,
+  compiled: CompiledConstraints | null = null
+): KMeansResult => {
+  let best: KMeansResult | null = null;
+  for (let restart = 0; restart < KMEANS_RESTARTS; restart++) {
+    const result = kMeans(vectors, k, random, compiled);
+    if (!best || result.inertia < best.inertia) best = result;
+  }
+  return best!;
+};
+
+/**
+ * Choose k by mean silhouette of k-means on a sample of the notes.
+ * Returns 1 when the notes are too few to form two clusters.
+ */
+const chooseK = (
+  vectors: Vector[],
+  minClusterSize: number,
+  random: () => number,
+  onProgress?: ProgressCallback
+): number => {
+  const sample = sampleIndices(vectors.length, SILHOUETTE_SAMPLE, random);
+  const maxK = Math.min(
+    Math.floor(vectors.length / minClusterSize),
+    sample.length - 1
+  );
+  const candidates = AUTO_K_CANDIDATES.filter((k) => k <= maxK);
+  if (candidates.length === 0) return 1;
+
+  const sampleVectors = sample.map((i) => vectors[i]);
+  const sim = similarityMatrix(vectors, sample);
+  const report = throttledProgress(onProgress, "choosing k", candidates.length);
+
+  let bestK = candidates[0];
+  let bestScore = -Infinity;
+  candidates.forEach((k, i) => {
+    const { labels } = bestKMeans(sampleVectors, k, random);
+    const score = meanOf(silhouettes(sim, Array.from(labels), k));
+    if (score > bestScore) {
+      bestScore = score;
+      bestK = k;
+    }
+    report(i + 1);
+  });
+  return bestK;
+};
+
+/**
+ * k-means++ over note embeddings (cosine). k is chosen by silhouette unless
+ * given; undersized clusters are merged into their nearest neighbour.
+ */
+export const kMeansPartitioning = (
+  embeddings: NoteEmbedding[],
+  options: AlgorithmOptions = {},
+  onProgress?: ProgressCallback
+): EmbeddingPartition[] => {
+  const usable = usableEmbeddings(embeddings);
+  const minClusterSize = options.minClusterSize ?? defaultMinClusterSize(usable.length);
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const vectors = usable.map((e) => normalize(e.vector));
+
+  const k = Math.min(
+    options.k ?? chooseK(vectors, minClusterSize, random, onProgress),
+    usable.length
+  );
+  if (k <= 1) return singlePartition(usable);
+
+  // Constraints broken by absorbing small clusters are repaired by the dispatcher
+  const compiled = compileConstraints(usable, options.constraints);
+  const { labels } = bestKMeans(vectors, k, random, compiled);
+  onProgress?.("kmeans", 1, 1);
+  const clusterCount = absorbSmallClusters(vectors, labels, minClusterSize);
+  return toPartitions(usable, vectors, labels, clusterCount, random);
+};
+
+// ============================================================================
+// Average-Linkage Agglomerative
+// ============================================================================
+
+interface Merge {
+  a: number; // Representative point of each merged cluster
+  b: number;
+  similarity: number; // Average pairwise similarity between the two
+}
+
+/**
+ * Average-linkage dendrogram via the nearest-neighbour chain algorithm:
+ * O(n²) time on an n×n similarity matrix updated by Lance–Williams.
+ * Merges come out of order; callers sort them by similarity.
+ */
+const averageLinkage = (vectors: Vector[], onProgress?: ProgressCallback): Merge[] => {
+  const n = vectors.length;
+  const sim = similarityMatrix(vectors, vectors.map((_, i) => i));
+  const size = new Int32Array(n).fill(1);
+  const active = new Uint8Array(n).fill(1);
+  const merges: Merge[] = [];
+  const chain: number[] = [];
+  const report = throttledProgress(onProgress, "linkage", n - 1);
+
+  while (merges.length < n - 1) {
+    if (chain.length === 0) chain.push(active.indexOf(1));
+    const a = chain[chain.length - 1];
+    const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+    // Prefer the previous chain element on ties, or the chain can cycle
+    let best = previous;
+    let bestSim = previous >= 0 ? sim[a * n + previous] : -Infinity;
+    for (let x = 0; x < n; x++) {
+      if (active[x] && x !== a && sim[a * n + x] > bestSim) {
+        best = x;
+        bestSim = sim[a * n + x];
+      }
+    }
+
+    if (best !== previous) {
+      chain.push(best);
+      continue;
+    }
+
+    chain.pop();
+    chain.pop();
+    const b = previous;
+    const merged = size[a] + size[b];
+    for (let x = 0; x < n; x++) {
+      if (!active[x] || x === a || x === b) continue;
+      const s = (size[a] * sim[a * n + x] + size[b] * sim[b * n + x]) / merged;
+      sim[a * n + x] = s;
+      sim[x * n + a] = s;
+    }
+    active[b] = 0;
+    size[a] = merged;
+    merges.push({ a, b, similarity: bestSim });
+    report(merges.length);
+  }
+
+  return merges;
+};
+
+/** Where to cut the dendrogram: into k clusters, or at a similarity threshold */
+export type DendrogramCut = Pick<AlgorithmOptions, "threshold" | "k">;
+
+/**
+ * Average-linkage agglomerative clustering cut several ways from one
+ * dendrogram, so parameter sweeps pay for the O(n²) linkage only once.
+ * Above MAX_PAIRWISE_POINTS notes the n×n matrix gets too large and k-means
+ * is used instead.
+ */
+export const agglomerativeCuts = (
+  embeddings: NoteEmbedding[],
+  cuts: DendrogramCut[],
+  options: AlgorithmOptions = {},
+  onProgress?: ProgressCallback
+): EmbeddingPartition[][] => {
+  const usable = usableEmbeddings(embeddings);
+  if (usable.length > MAX_PAIRWISE_POINTS) {
+    console.warn(
+      `Agglomerative clustering limited to ${MAX_PAIRWISE_POINTS} notes, using k-means for ${usable.length}`
+    );
+    return cuts.map((cut) =>
+      kMeansPartitioning(usable, { ...options, ...cut }, onProgress)
+    );
+  }
+  if (usable.length < 2) return cuts.map(() => singlePartition(usable));
+
+  const minClusterSize = options.minClusterSize ?? defaultMinClusterSize(usable.length);
+  const vectors = usable.map((e) => normalize(e.vector));
+  const merges = averageLinkage(vectors, onProgress).sort(
+    (x, y) => y.similarity - x.similarity
+  );
+
+  return cuts.map((cut) => {
+    const threshold = cut.threshold ?? DEFAULT_CUT_THRESHOLD;
+    const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+    // Replay merges from most to least similar until the cut
+    const parent = vectors.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+    let clusterCount = vectors.length;
+    for (const merge of merges) {
+      if (cut.k !== undefined ? clusterCount <= cut.k : merge.similarity < threshold) {
+        break;
+      }
+      parent[find(merge.b)] = find(merge.a);
+      clusterCount--;
+    }
+
+    const roots = new Map<number, number>();
+    const labels = new Int32Array(vectors.length);
+    vectors.forEach((_, i) => {
+      const root = find(i);
+      if (!roots.has(root)) roots.set(root, roots.size);
+      labels[i] = roots.get(root)!;
+    });
+
+    const k = absorbSmallClusters(vectors, labels, minClusterSize);
+    return toPartitions(usable, vectors, labels, k, random);
+  });
+};
+
+/**
+ * Average-linkage agglomerative clustering: cut the dendrogram into k
+ * clusters when k is given, otherwise where the average similarity between
+ * clusters drops below the threshold
+ */
+export const agglomerativePartitioning = (
+  embeddings: NoteEmbedding[],
+  options: AlgorithmOptions = {},
+  onProgress?: ProgressCallback
+): EmbeddingPartition[] =>
+  agglomerativeCuts(
+    embeddings,
+    [{ threshold: options.threshold, k: options.k }],
+    options,
+    onProgress
+  )[0];
+
+// ============================================================================
+// HDBSCAN
+// ============================================================================
+
+interface Edge {
+  a: number;
+  b: number;
+  weight: number; // Mutual reachability distance
+}
+
+/**
+ * Minimum spanning tree of the mutual reachability graph, exact (Prim over
+ * all pairs) for small inputs and over a kNN graph from the ANN index above
+ * MAX_PAIRWISE_POINTS. Separate kNN components are joined at infinity.
+ */
+const mutualReachabilityTree = (
+  embeddings: NoteEmbedding[],
+  vectors: Vector[],
+  minSamples: number,
+  onProgress?: ProgressCallback
+): Edge[] => {
+  const n = vectors.length;
+  const coreDistance = new Float64Array(n);
+
+  if (n <= MAX_PAIRWISE_POINTS) {
+    const sim = similarityMatrix(vectors, vectors.map((_, i) => i));
+    const distance = (i: number, j: number) => Math.max(0, 1 - sim[i * n + j]);
+
+    // Core distance: distance to the minSamples-th nearest other note
+    const neighbours = Math.min(minSamples, n - 1);
+    for (let i = 0; i < n; i++) {
+      const row: number[] = [];
+      for (let j = 0; j < n; j++) if (j !== i) row.push(distance(i, j));
+      row.sort((x, y) => x - y);
+      coreDistance[i] = row[neighbours - 1];
+    }
+
+    // Prim's algorithm on the implicit complete graph
+    const report = throttledProgress(onProgress, "spanning tree", n - 1);
+    const inTree = new Uint8Array(n);
+    const best = new Float64Array(n).fill(Infinity);
+    const from = new Int32Array(n);
+    const edges: Edge[] = [];
+    let current = 0;
+    inTree[0] = 1;
+    for (let step = 1; step < n; step++) {
+      let next = -1;
+      for (let j = 0; j < n; j++) {
+        if (inTree[j]) continue;
+        const weight = Math.max(coreDistance[current], coreDistance[j], distance(current, j));
+        if (weight < best[j]) {
+          best[j] = weight;
+          from[j] = current;
+        }
+        if (next < 0 || best[j] < best[next]) next = j;
+      }
+      edges.push({ a: from[next], b: next, weight: best[next] });
+      inTree[next] = 1;
+      current = next;
+      report(step);
+    }
+    return edges;
+  }
+
+  // Approximate: MST of the kNN graph (Kruskal in singleLinkage)
+  const index = buildAnnIndex(embeddings);
+  const position = new Map(embeddings.map((e, i) => [e.noteId, i] as const));
+  const k = Math.max(minSamples, HDBSCAN_GRAPH_NEIGHBOURS);
+  const report = throttledProgress(onProgress, "neighbours", n);
+  const neighbourLists = embeddings.map((e, i) => {
+    const found = index
+      .knn(e.vector, k + 1)
+      .filter((neighbour) => neighbour.noteId !== e.noteId)
+      .map((neighbour) => ({
+        j: position.get(neighbour.noteId)!,
+        distance: Math.max(0, 1 - neighbour.similarity),
+      }));
+    coreDistance[i] = found[Math.min(minSamples, found.length) - 1]?.distance ?? 0;
+    report(i + 1);
+    return found;
+  });
+
+  return neighbourLists.flatMap((found, i) =>
+    found.map(({ j, distance }) => ({
+      a: i,
+      b: j,
+      weight: Math.max(coreDistance[i], coreDistance[j], distance),
+    }))
+  );
+};
+
+interface LinkageTree {
+  left: Int32Array; // Children of internal node n + i
+  right: Int32Array;
+  distance: Float64Array;
+  size: Int32Array; // Points under every node, leaves included
+}
+
+/** Single-linkage tree from graph edges (Kruskal); leftover roots join at infinity */
+const singleLinkage = (n: number, edges: Edge[]): LinkageTree => {
+  const tree: LinkageTree = {
+    left: new Int32Array(n - 1),
+    right: new Int32Array(n - 1),
+    distance: new Float64Array(n - 1),
+    size: new Int32Array(2 * n - 1).fill(1),
+  };
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  let next = n;
+  const join = (a: number, b: number, distance: number) => {
+    const i = next - n;
+    tree.left[i] = a;
+    tree.right[i] = b;
+    tree.distance[i] = distance;
+    tree.size[next] = tree.size[a] + tree.size[b];
+    parent[a] = next;
+    parent[b] = next;
+    next++;
+  };
+
+  [...edges]
+    .sort((x, y) => x.weight - y.weight)
+    .forEach(({ a, b, weight }) => {
+      const ra = find(a);
+      const rb = find(b);
+      if (ra !== rb) join(ra, rb, weight);
+    });
+
+  let root = find(0);
+  for (let i = 1; i < n; i++) {
+    const other = find(i);
+    if (other !== root) {
+      join(root, other, Infinity);
+      root = next - 1;
+    }
+  }
+  return tree;
+};
+
+interface CondensedCluster {
+  parent: number;
+  birth: number; // λ = 1 / distance at which the cluster appears
+  split: number; // λ at which it splits into two child clusters
+  size: number;
+  children: number[];
+  stability: number;
+}
+
+/**
+ * Condense the single-linkage tree (splits that shed fewer than
+ * minClusterSize points are points falling out, not new clusters), then
+ * select clusters by excess of mass. Returns a label per point, -1 for noise.
+ */
+const selectHdbscanClusters = (
+  n: number,
+  tree: LinkageTree,
+  minClusterSize: number
+): Int32Array => {
+  const lambdaOf = (distance: number) => 1 / Math.max(distance, MIN_DISTANCE);
+  const clusters: CondensedCluster[] = [
+    { parent: -1, birth: 0, split: 0, size: n, children: [], stability: 0 },
+  ];
+  const pointCluster = new Int32Array(n);
+  const pointLambda = new Float64Array(n);
+
+  const fallOut = (node: number, cluster: number, lambda: number) => {
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current < n) {
+        pointCluster[current] = cluster;
+        pointLambda[current] = lambda;
+      } else {
+        stack.push(tree.left[current - n], tree.right[current - n]);
+      }
+    }
+  };
+
+  const stack: { node: number; cluster: number }[] = [{ node: 2 * n - 2, cluster: 0 }];
+  while (stack.length > 0) {
+    const { node, cluster } = stack.pop()!;
+    if (node < n) {
+      fallOut(node, cluster, clusters[cluster].birth);
+      continue;
+    }
+    const i = node - n;
+    const lambda = lambdaOf(tree.distance[i]);
+    const children = [tree.left[i], tree.right[i]];
+    const large = children.filter((child) => tree.size[child] >= minClusterSize);
+
+    if (large.length === 2) {
+      clusters[cluster].split = lambda;
+      children.forEach((child) => {
+        const id = clusters.length;
+        clusters.push({
+          parent: cluster,
+          birth: lambda,
+          split: 0,
+          size: tree.size[child],
+          children: [],
+          stability: 0,
+        });
+        clusters[cluster].children.push(id);
+        stack.push({ node: child, cluster: id });
+      });
+    } else {
+      children.forEach((child) => {
+        if (tree.size[child] >= minClusterSize) stack.push({ node: child, cluster });
+        else fallOut(child, cluster, lambda);
+      });
+    }
+  }
+
+  // Stability: Σ (λ_leave - λ_birth) over the points of each cluster
+  for (let p = 0; p < n; p++) {
+    const cluster = clusters[pointCluster[p]];
+    cluster.stability += pointLambda[p] - cluster.birth;
+  }
+  clusters.forEach((cluster) => {
+    cluster.children.forEach((child) => {
+      cluster.stability += clusters[child].size * (cluster.split - cluster.birth);
+    });
+  });
+
+  // Excess of mass: keep a cluster unless its children are more stable
+  // together; children always have larger ids than their parent
+  const selected = new Uint8Array(clusters.length);
+  const subtreeStability = new Float64Array(clusters.length);
+  for (let c = clusters.length - 1; c >= 0; c--) {
+    const cluster = clusters[c];
+    const childSum = cluster.children.reduce((s, child) => s + subtreeStability[child], 0);
+    if (cluster.children.length === 0 || (c !== 0 && cluster.stability >= childSum)) {
+      selected[c] = 1;
+      subtreeStability[c] = cluster.stability;
+    } else {
+      subtreeStability[c] = childSum;
+    }
+  }
+
+  // A point belongs to its topmost selected ancestor cluster, if any
+  const owner = new Int32Array(clusters.length).fill(-1);
+  const labelOf = new Map<number, number>();
+  clusters.forEach((cluster, c) => {
+    const inherited = cluster.parent >= 0 ? owner[cluster.parent] : -1;
+    owner[c] = inherited >= 0 ? inherited : selected[c] ? c : -1;
+    if (owner[c] === c) labelOf.set(c, labelOf.size);
+  });
+
+  const labels = new Int32Array(n);
+  for (let p = 0; p < n; p++) {
+    const cluster = owner[pointCluster[p]];
+    labels[p] = cluster >= 0 ? labelOf.get(cluster)! : -1;
+  }
+  return labels;
+};
+
+/**
+ * HDBSCAN over cosine distance: clusters are dense regions that persist
+ * across density levels, so their number is not a parameter. Noise notes
+ * join the nearest cluster so every note keeps a place in the tree.
+ */
+export const hdbscanPartitioning = (
+  embeddings: NoteEmbedding[],
+  options: AlgorithmOptions = {},
+  onProgress?: ProgressCallback
+): EmbeddingPartition[] => {
+  const usable = usableEmbeddings(embeddings);
+  const minClusterSize = Math.max(
+    2,
+    options.minClusterSize ?? defaultMinClusterSize(usable.length)
+  );
+  if (usable.length < 2 * minClusterSize) return singlePartition(usable);
+
+  const minSamples = Math.max(1, options.minSamples ?? minClusterSize);
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const vectors = usable.map((e) => normalize(e.vector));
+
+  const edges = mutualReachabilityTree(usable, vectors, minSamples, onProgress);
+  const tree = singleLinkage(vectors.length, edges);
+  const labels = selectHdbscanClusters(vectors.length, tree, minClusterSize);
+
+  const k = absorbSmallClusters(vectors, labels, minClusterSize);
+  return toPartitions(usable, vectors, labels, k, random);
+};
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/** Partition embeddings with the selected algorithm, honouring any constraints */
+export const partitionEmbeddings = (
+  embeddings: NoteEmbedding[],
+  options: PartitionOptions,
+  onProgress?: ProgressCallback
+): EmbeddingPartition[] => {
+  const { algorithm, ...rest } = options;
+  const run = (): EmbeddingPartition[] => {
+    switch (algorithm) {
+      case "threshold":
+        return embeddingGuidedPartitioning(
+          embeddings,
+          rest.threshold,
+          rest.minClusterSize,
+          onProgress
+        );
+      case "kmeans":
+        return kMeansPartitioning(embeddings, rest, onProgress);
+      case "agglomerative":
+        return agglomerativePartitioning(embeddings, rest, onProgress);
+      case "hdbscan":
+        return hdbscanPartitioning(embeddings, rest, onProgress);
+    }
+  };
+  return constrainPartitions(embeddings, run(), rest.constraints, rest.seed);
+};
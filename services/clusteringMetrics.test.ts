@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { ClusterNode, NoteEmbedding } from "../types";
+import {
+  confidenceFromQuality,
+  evaluateClusters,
+  scorePartitions,
+} from "./clusteringMetrics";
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+});
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+/** 4 topics of 10 notes; topics 0/1 and 2/3 share a domain direction */
+const corpus = (() => {
+  const random = seededRandom(11);
+  const direction = () => Array.from({ length: 12 }, () => random() * 2 - 1);
+  const domains = [direction(), direction()];
+  const topics = [0, 0, 1, 1].map((d) =>
+    domains[d].map((v, i) => v + direction()[i] * 0.6)
+  );
+  return topics.flatMap((topic, t) =>
+    Array.from({ length: 10 }, (_, i) =>
+      emb(`t${t}-${i}`, topic.map((v) => v + (random() - 0.5) * 0.2))
+    )
+  );
+})();
+
+const noteNode = (noteId: string): ClusterNode => ({
+  id: `note-${noteId}`,
+  name: noteId,
+  type: "note",
+  noteId,
+});
+
+const cluster = (id: string, children: ClusterNode[]): ClusterNode => ({
+  id,
+  name: id,
+  type: "cluster",
+  children,
+});
+
+const topicCluster = (t: number, ids: string[]) =>
+  cluster(`topic-${t}`, ids.map(noteNode));
+
+const ids = (t: number) => corpus.filter((e) => e.noteId.startsWith(`t${t}-`)).map((e) => e.noteId);
+
+/** Domains → topics, matching how the corpus was generated */
+const goodTree = (): ClusterNode[] => [
+  cluster("domain-a", [topicCluster(0, ids(0)), topicCluster(1, ids(1))]),
+  cluster("domain-b", [topicCluster(2, ids(2)), topicCluster(3, ids(3))]),
+];
+
+/** Same shape, notes dealt round-robin so every cluster mixes all topics */
+const shuffledTree = (): ClusterNode[] => {
+  const all = corpus.map((e) => e.noteId);
+  const deal = (t: number) => all.filter((_, i) => i % 4 === t);
+  return [
+    cluster("domain-a", [topicCluster(0, deal(0)), topicCluster(1, deal(1))]),
+    cluster("domain-b", [topicCluster(2, deal(2)), topicCluster(3, deal(3))]),
+  ];
+};
+
+describe("evaluateClusters", () => {
+  it("reports every level and cluster of the tree", () => {
+    const report = evaluateClusters(goodTree(), corpus, { algorithm: "kmeans" });
+
+    expect(report.algorithm).toBe("kmeans");
+    expect(report.noteCount).toBe(40);
+    expect(report.levels.map((l) => [l.depth, l.clusterCount])).toEqual([
+      [1, 2],
+      [2, 4],
+    ]);
+    expect(report.overall).toMatchObject({ depth: 0, clusterCount: 4, noteCount: 40 });
+    expect(report.clusters.map((c) => [c.name, c.depth, c.size])).toEqual([
+      ["domain-a", 1, 20],
+      ["domain-b", 1, 20],
+      ["topic-0", 2, 10],
+      ["topic-1", 2, 10],
+      ["topic-2", 2, 10],
+      ["topic-3", 2, 10],
+    ]);
+    // Sibling topics share a domain, so they are each other's closest cluster
+    const topic0 = report.clusters.find((c) => c.name === "topic-0")!;
+    expect(topic0.nearestClusterName).toBe("topic-1");
+  });
+
+  it("scores a well-separated tree better than a shuffled one on every metric", () => {
+    const good = evaluateClusters(goodTree(), corpus).overall;
+    const bad = evaluateClusters(shuffledTree(), corpus).overall;
+
+    expect(good.silhouette).toBeGreaterThan(0.3);
+    expect(bad.silhouette).toBeLessThan(0.05);
+    expect(good.daviesBouldin).toBeLessThan(bad.daviesBouldin);
+    expect(good.intraSimilarity).toBeGreaterThan(bad.intraSimilarity);
+    expect(good.interSimilarity).toBeLessThan(bad.interSimilarity);
+    expect(good.intraSimilarity).toBeGreaterThan(good.interSimilarity);
+  });
+
+  it("computes intra/inter similarity as mean pairwise cosines", () => {
+    const vectors = [
+      emb("a", [1, 0]),
+      emb("b", [0, 2]), // Length does not matter
+      emb("c", [-1, 0]),
+    ];
+    const report = evaluateClusters(
+      [cluster("ab", [noteNode("a"), noteNode("b")]), cluster("c", [noteNode("c")])],
+      vectors
+    );
+
+    const [ab, c] = report.clusters;
+    expect(ab.intraSimilarity).toBeCloseTo(0);
+    expect(ab.interSimilarity).toBeCloseTo(-0.5); // (a·c + b·c) / 2
+    expect(c.intraSimilarity).toBe(1);
+    expect(report.overall.interSimilarity).toBeCloseTo(-0.5);
+  });
+
+  it("ignores notes without embeddings and notes placed twice", () => {
+    const tree = goodTree();
+    tree[1].children!.push(noteNode("missing"), noteNode("t0-0"));
+
+    expect(evaluateClusters(tree, corpus).noteCount).toBe(40);
+    expect(evaluateClusters([], corpus).overall.clusterCount).toBe(0);
+  });
+});
+
+describe("scorePartitions", () => {
+  it("fills in per-partition silhouettes", () => {
+    const partitions = scorePartitions(corpus, [
+      { id: "p0", noteIds: [...ids(0), ...ids(1)] },
+      { id: "p1", noteIds: [...ids(2), ...ids(3)] },
+    ]);
+    partitions.forEach((p) => expect(p.silhouetteScore).toBeGreaterThan(0.2));
+  });
+});
+
+describe("confidenceFromQuality", () => {
+  it("rescales the silhouette to 0-1", () => {
+    const report = evaluateClusters(goodTree(), corpus);
+    expect(confidenceFromQuality(report.overall)).toBeCloseTo(
+      (report.overall.silhouette + 1) / 2
+    );
+    expect(confidenceFromQuality({ ...report.overall, silhouette: -1 })).toBe(0);
+  });
+});
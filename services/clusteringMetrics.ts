@@ -0,0 +1,424 @@
+/**
+ * Clustering Metrics
+ *
+ * Objective quality numbers for partitions and cluster trees, computed from
+ * note embeddings with cosine similarity. They let a re-cluster be compared
+ * with the previous one instead of judged by eye. Pure, so the clustering
+ * worker can run it; the clustering algorithms share its vector helpers.
+ *
+ * Metrics:
+ * - Silhouette: how much closer each note is to its own cluster than to the
+ *   next best one (-1..1, higher is better; sampled for large inputs)
+ * - Davies–Bouldin: average worst-case ratio of cluster scatter to centroid
+ *   separation (>= 0, lower is better)
+ * - Intra/inter similarity: mean cosine between notes of the same cluster,
+ *   and between notes of different clusters
+ *
+ * Main Entry Points:
+ * - evaluateClusters(): Report for a ClusterNode tree, per level and cluster
+ * - scorePartitions(): Fill in EmbeddingPartition.silhouetteScore
+ * - partitionQuality(): Metrics for a flat set of partitions
+ * - confidenceFromQuality(): Map a level's silhouette to a 0-1 confidence
+ */
+
+import {
+  ClusteringAlgorithm,
+  ClusteringReport,
+  ClusterNode,
+  ClusterQuality,
+  EmbeddingPartition,
+  LevelQuality,
+  NoteEmbedding,
+} from "../types";
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+export type Vector = Float64Array;
+
+// Silhouettes are computed on at most this many notes (O(n²))
+export const SILHOUETTE_SAMPLE = 600;
+const DEFAULT_SEED = 42;
+const MIN_SEPARATION = 1e-9;
+
+export const normalize = (vector: number[]): Vector => {
+  const out = Float64Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < out.length; i++) out[i] /= norm;
+  return out;
+};
+
+export const dot = (a: Vector, b: Vector): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export const meanOf = (values: number[]): number =>
+  values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+/** mulberry32: small seeded PRNG so the same notes give the same numbers */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Up to `size` distinct indices in [0, n), in random order */
+export const sampleIndices = (
+  n: number,
+  size: number,
+  random: () => number
+): number[] => {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  const count = Math.min(n, size);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (n - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, count);
+};
+
+/**
+ * Only embeddings of the dominant dimension are comparable; vectors from
+ * another model are left out
+ */
+export const usableEmbeddings = (embeddings: NoteEmbedding[]): NoteEmbedding[] => {
+  const counts = new Map<number, number>();
+  embeddings.forEach((e) => {
+    if (e.vector.length > 0) {
+      counts.set(e.vector.length, (counts.get(e.vector.length) || 0) + 1);
+    }
+  });
+  let dim = 0;
+  counts.forEach((count, length) => {
+    if (count > (counts.get(dim) || 0)) dim = length;
+  });
+  return embeddings.filter((e) => e.vector.length === dim);
+};
+
+export const groupByLabel = (labels: ArrayLike<number>, k: number): number[][] => {
+  const groups: number[][] = Array.from({ length: k }, () => []);
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] >= 0) groups[labels[i]].push(i);
+  }
+  return groups;
+};
+
+// ============================================================================
+// Silhouette
+// ============================================================================
+
+/** Pairwise cosine similarities between the given points (row-major) */
+export const similarityMatrix = (vectors: Vector[], indices: number[]): Float32Array => {
+  const n = indices.length;
+  const sim = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    sim[i * n + i] = 1;
+    for (let j = i + 1; j < n; j++) {
+      const s = dot(vectors[indices[i]], vectors[indices[j]]);
+      sim[i * n + j] = s;
+      sim[j * n + i] = s;
+    }
+  }
+  return sim;
+};
+
+/**
+ * Silhouette (cosine distance) of each point of a precomputed similarity
+ * matrix; points alone in their cluster score 0
+ */
+export const silhouettes = (sim: Float32Array, labels: number[], k: number): number[] => {
+  const n = labels.length;
+  const sizes = new Array(k).fill(0);
+  labels.forEach((l) => sizes[l]++);
+
+  return labels.map((own, i) => {
+    if (sizes[own] <= 1) return 0;
+    const totals = new Array(k).fill(0);
+    for (let j = 0; j < n; j++) {
+      if (j !== i) totals[labels[j]] += 1 - sim[i * n + j];
+    }
+    const a = totals[own] / (sizes[own] - 1);
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && sizes[c] > 0) b = Math.min(b, totals[c] / sizes[c]);
+    }
+    if (!isFinite(b)) return 0;
+    const denominator = Math.max(a, b);
+    return denominator > 0 ? (b - a) / denominator : 0;
+  });
+};
+
+/** Overall and per-cluster mean silhouette, estimated on a sample for large inputs */
+const sampledSilhouette = (
+  vectors: Vector[],
+  labels: ArrayLike<number>,
+  k: number,
+  random: () => number
+): { overall: number; perCluster: number[] } => {
+  const sample = sampleIndices(vectors.length, SILHOUETTE_SAMPLE, random);
+  const sampleLabels = sample.map((i) => labels[i]);
+  const scores = silhouettes(similarityMatrix(vectors, sample), sampleLabels, k);
+
+  const perCluster: number[][] = Array.from({ length: k }, () => []);
+  scores.forEach((score, i) => perCluster[sampleLabels[i]].push(score));
+  return { overall: meanOf(scores), perCluster: perCluster.map(meanOf) };
+};
+
+/** Per-cluster mean silhouette of a labelled set of unit vectors */
+export const clusterSilhouettes = (
+  vectors: Vector[],
+  labels: ArrayLike<number>,
+  k: number,
+  random: () => number
+): number[] => sampledSilhouette(vectors, labels, k, random).perCluster;
+
+/** Partitions with silhouetteScore filled in; notes outside every partition are ignored */
+export const scorePartitions = (
+  embeddings: NoteEmbedding[],
+  partitions: EmbeddingPartition[],
+  seed: number = DEFAULT_SEED
+): EmbeddingPartition[] => {
+  const labelOf = new Map<string, number>();
+  partitions.forEach((p, i) => p.noteIds.forEach((id) => labelOf.set(id, i)));
+  const members = usableEmbeddings(embeddings.filter((e) => labelOf.has(e.noteId)));
+
+  const scores = clusterSilhouettes(
+    members.map((e) => normalize(e.vector)),
+    members.map((e) => labelOf.get(e.noteId)!),
+    partitions.length,
+    createRandom(seed)
+  );
+  return partitions.map((p, i) => ({ ...p, silhouetteScore: scores[i] }));
+};
+
+// ============================================================================
+// Grouping Quality
+// ============================================================================
+
+interface GroupQuality {
+  size: number;
+  silhouette: number;
+  intraSimilarity: number;
+  interSimilarity: number;
+  nearest: number; // Index of the most similar other group, -1 if none
+}
+
+/**
+ * All metrics for one flat grouping. Intra/inter similarities and
+ * Davies–Bouldin come from per-group vector sums, so only the silhouette
+ * needs pairwise work.
+ */
+const evaluateGrouping = (
+  vectors: Vector[],
+  labels: Int32Array,
+  k: number,
+  random: () => number
+): { level: Omit<LevelQuality, "depth">; groups: GroupQuality[] } => {
+  const dim = vectors[0]?.length ?? 0;
+  const sizes = new Array(k).fill(0);
+  const sums = Array.from({ length: k }, () => new Float64Array(dim));
+  vectors.forEach((v, i) => {
+    const sum = sums[labels[i]];
+    sizes[labels[i]]++;
+    for (let d = 0; d < dim; d++) sum[d] += v[d];
+  });
+
+  // Mean pairwise cosine of unit vectors: (|Σv|² - n) / (n(n - 1))
+  const intra = sums.map((sum, g) =>
+    sizes[g] > 1 ? (dot(sum, sum) - sizes[g]) / (sizes[g] * (sizes[g] - 1)) : 1
+  );
+  const inter = (g: number, h: number) => dot(sums[g], sums[h]) / (sizes[g] * sizes[h]);
+
+  // Davies–Bouldin on cosine distance to unit centroids
+  const centroids = sums.map((sum) => normalize(Array.from(sum)));
+  const scatter = sums.map((sum, g) => 1 - Math.sqrt(dot(sum, sum)) / sizes[g]);
+  let daviesBouldin = 0;
+  const groups: GroupQuality[] = sizes.map((size, g) => {
+    let nearest = -1;
+    let nearestSimilarity = 0;
+    let worstRatio = 0;
+    for (let h = 0; h < k; h++) {
+      if (h === g) continue;
+      const similarity = inter(g, h);
+      if (nearest < 0 || similarity > nearestSimilarity) {
+        nearest = h;
+        nearestSimilarity = similarity;
+      }
+      const separation = Math.max(MIN_SEPARATION, 1 - dot(centroids[g], centroids[h]));
+      worstRatio = Math.max(worstRatio, (scatter[g] + scatter[h]) / separation);
+    }
+    daviesBouldin += worstRatio;
+    return {
+      size,
+      silhouette: 0,
+      intraSimilarity: intra[g],
+      interSimilarity: nearestSimilarity,
+      nearest,
+    };
+  });
+
+  const silhouette =
+    k > 1 ? sampledSilhouette(vectors, labels, k, random) : { overall: 0, perCluster: [] };
+  silhouette.perCluster.forEach((score, g) => (groups[g].silhouette = score));
+
+  const pairs = groups.filter((g) => g.size > 1);
+  const pairWeight = pairs.reduce((s, g) => s + g.size, 0);
+  let interTotal = 0;
+  for (let g = 0; g < k; g++) for (let h = g + 1; h < k; h++) interTotal += inter(g, h);
+
+  return {
+    level: {
+      clusterCount: k,
+      noteCount: vectors.length,
+      silhouette: silhouette.overall,
+      daviesBouldin: k > 1 ? daviesBouldin / k : 0,
+      intraSimilarity:
+        pairWeight > 0
+          ? pairs.reduce((s, g) => s + g.size * g.intraSimilarity, 0) / pairWeight
+          : 1,
+      interSimilarity: k > 1 ? interTotal / ((k * (k - 1)) / 2) : 0,
+    },
+    groups,
+  };
+};
+
+const emptyLevel = (depth: number): LevelQuality => ({
+  depth,
+  clusterCount: 0,
+  noteCount: 0,
+  silhouette: 0,
+  daviesBouldin: 0,
+  intraSimilarity: 0,
+  interSimilarity: 0,
+});
+
+/** Quality of a flat set of partitions; notes outside every partition are ignored */
+export const partitionQuality = (
+  embeddings: NoteEmbedding[],
+  partitions: EmbeddingPartition[],
+  seed: number = DEFAULT_SEED
+): Omit<LevelQuality, "depth"> => {
+  const labelOf = new Map<string, number>();
+  partitions.forEach((p, i) => p.noteIds.forEach((id) => labelOf.set(id, i)));
+  const members = usableEmbeddings(embeddings.filter((e) => labelOf.has(e.noteId)));
+  if (members.length === 0) {
+    const { depth: _depth, ...empty } = emptyLevel(0);
+    return empty;
+  }
+
+  // Compact labels: partitions without comparable embeddings drop out
+  const compact = new Map<number, number>();
+  const labels = Int32Array.from(members, (e) => {
+    const label = labelOf.get(e.noteId)!;
+    if (!compact.has(label)) compact.set(label, compact.size);
+    return compact.get(label)!;
+  });
+  return evaluateGrouping(
+    members.map((e) => normalize(e.vector)),
+    labels,
+    compact.size,
+    createRandom(seed)
+  ).level;
+};
+
+// ============================================================================
+// Cluster Tree Report
+// ============================================================================
+
+/**
+ * Quality report for a cluster tree. Each depth is evaluated as a flat
+ * grouping (notes in shallower leaves keep their cluster), and "overall"
+ * groups every note by the cluster directly above it.
+ */
+export const evaluateClusters = (
+  clusters: ClusterNode[],
+  embeddings: NoteEmbedding[],
+  options: { algorithm?: ClusteringAlgorithm; seed?: number } = {}
+): ClusteringReport => {
+  const embeddingById = new Map(
+    usableEmbeddings(embeddings).map((e) => [e.noteId, e] as const)
+  );
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+  // Path of clusters above each note (first placement wins)
+  const vectors: Vector[] = [];
+  const paths: ClusterNode[][] = [];
+  const placed = new Set<string>();
+  const walk = (node: ClusterNode, path: ClusterNode[]) => {
+    if (node.type === "note") {
+      const embedding = node.noteId ? embeddingById.get(node.noteId) : undefined;
+      if (embedding && path.length > 0 && !placed.has(embedding.noteId)) {
+        placed.add(embedding.noteId);
+        vectors.push(normalize(embedding.vector));
+        paths.push(path);
+      }
+      return;
+    }
+    node.children?.forEach((child) => walk(child, [...path, node]));
+  };
+  clusters.forEach((cluster) => walk(cluster, []));
+
+  const evaluateBy = (groupOf: (path: ClusterNode[]) => ClusterNode, depth: number) => {
+    const labelOf = new Map<ClusterNode, number>();
+    const labels = Int32Array.from(paths, (path) => {
+      const group = groupOf(path);
+      if (!labelOf.has(group)) labelOf.set(group, labelOf.size);
+      return labelOf.get(group)!;
+    });
+    const nodes = Array.from(labelOf.keys());
+    const { level, groups } = evaluateGrouping(vectors, labels, nodes.length, random);
+    return { level: { depth, ...level }, groups, nodes };
+  };
+
+  const maxDepth = paths.reduce((max, path) => Math.max(max, path.length), 0);
+  const levels: LevelQuality[] = [];
+  const clusterQualities: ClusterQuality[] = [];
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const { level, groups, nodes } = evaluateBy(
+      (path) => path[Math.min(depth, path.length) - 1],
+      depth
+    );
+    levels.push(level);
+    // Leaves from shallower levels were reported at their own depth
+    const atDepth = new Set(paths.map((path) => path[depth - 1]));
+    groups.forEach((group, g) => {
+      if (!atDepth.has(nodes[g])) return;
+      clusterQualities.push({
+        clusterId: nodes[g].id,
+        name: nodes[g].name,
+        depth,
+        size: group.size,
+        silhouette: group.silhouette,
+        intraSimilarity: group.intraSimilarity,
+        interSimilarity: group.interSimilarity,
+        nearestClusterName: group.nearest >= 0 ? nodes[group.nearest].name : undefined,
+      });
+    });
+  }
+
+  return {
+    createdAt: Date.now(),
+    algorithm: options.algorithm,
+    noteCount: vectors.length,
+    overall:
+      vectors.length > 0
+        ? evaluateBy((path) => path[path.length - 1], 0).level
+        : emptyLevel(0),
+    levels,
+    clusters: clusterQualities,
+  };
+};
+
+/** Silhouette rescaled to 0-1: 0.5 means notes sit between clusters */
+export const confidenceFromQuality = (quality: LevelQuality): number =>
+  Math.min(1, Math.max(0, (quality.silhouette + 1) / 2));
@@ -0,0 +1,766 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ClusterNode, ClusteringParameters, Note } from "../types";
+import { SAMPLE_NOTES } from "../constants";
+import { generateMockNotes } from "../mockNotes";
+import {
+  addUserConstraint,
+  clusterHistoryState,
+  fullSemanticClustering,
+  hierarchicalHybridClustering,
+  incrementalCluster,
+  ingestNotes,
+  memoryBuffer,
+  mergeClusters,
+  moveSubcluster,
+  pinNoteToCluster,
+  readCachedClusters,
+  readClusteringReports,
+  readHashIndex,
+  readUserConstraints,
+  recordManualMove,
+  removeUserConstraint,
+  renameCluster,
+  restoreClusterSnapshot,
+  semanticEnhancedClustering,
+  splitCluster,
+  takeClusterSnapshot,
+  toPartitionConstraints,
+  undoClusterCommand,
+  writeCachedClusters,
+} from "./clusteringService";
+import { confidenceFromQuality } from "./clusteringMetrics";
+import { getLLMProvider } from "./llmProvider";
+import { getClusterSnapshots } from "./storageService";
+
+const noteCounts = (clusters: ClusterNode[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const visit = (node: ClusterNode) => {
+    if (node.type === "note" && node.noteId) {
+      counts.set(node.noteId, (counts.get(node.noteId) || 0) + 1);
+    }
+    node.children?.forEach(visit);
+  };
+  clusters.forEach(visit);
+  return counts;
+};
+
+const noteNode = (note: Note): ClusterNode => ({
+  id: `note-${note.id}`,
+  name: note.title,
+  type: "note",
+  noteId: note.id,
+});
+
+/** Hand-curated clusters over SAMPLE_NOTES, grouped by folder */
+const curatedClusters = (notes: Note[]): ClusterNode[] =>
+  ["/samples/ai", "/samples/cooking", "/samples/web"].map((folder) => ({
+    id: `existing-${folder.split("/").pop()}`,
+    name: folder,
+    type: "cluster",
+    children: notes.filter((n) => n.folder === folder).map(noteNode),
+  }));
+
+const collectNoteIds = (cluster: ClusterNode): string[] =>
+  Array.from(noteCounts([cluster]).keys());
+
+const collectClusterIds = (clusters: ClusterNode[]): string[] =>
+  clusters.flatMap((c) =>
+    c.type === "cluster" ? [c.id, ...collectClusterIds(c.children || [])] : []
+  );
+
+/** Depth of the deepest cluster (1 = top-level clusters only) */
+const clusterDepth = (clusters: ClusterNode[]): number =>
+  Math.max(
+    0,
+    ...clusters
+      .filter((c) => c.type === "cluster")
+      .map((c) => 1 + clusterDepth(c.children || []))
+  );
+
+describe("ingestNotes", () => {
+  it("reports every note as changed on the first run", () => {
+    const { changedNoteIds } = ingestNotes(SAMPLE_NOTES);
+    expect(changedNoteIds).toEqual(SAMPLE_NOTES.map((n) => n.id));
+    expect(Object.keys(readHashIndex())).toHaveLength(SAMPLE_NOTES.length);
+  });
+
+  it("reports nothing when notes are unchanged", () => {
+    ingestNotes(SAMPLE_NOTES);
+    expect(ingestNotes(SAMPLE_NOTES).changedNoteIds).toEqual([]);
+  });
+
+  it("detects edited titles and content, and new notes", () => {
+    ingestNotes(SAMPLE_NOTES);
+    const edited = SAMPLE_NOTES.map((n) => {
+      if (n.id === "sample-1") return { ...n, title: "ML Basics" };
+      if (n.id === "sample-2") return { ...n, content: n.content + " More." };
+      return n;
+    });
+    const added = { ...SAMPLE_NOTES[0], id: "sample-new" };
+
+    const { changedNoteIds } = ingestNotes([...edited, added]);
+    expect(changedNoteIds).toEqual(["sample-1", "sample-2", "sample-new"]);
+  });
+
+  it("ignores changes to tags and folder", () => {
+    ingestNotes(SAMPLE_NOTES);
+    const moved = SAMPLE_NOTES.map((n) => ({ ...n, folder: "/moved", tags: [] }));
+    expect(ingestNotes(moved).changedNoteIds).toEqual([]);
+  });
+});
+
+/** Id of the top-level cluster holding a note */
+const topLevelClusterOf = (clusters: ClusterNode[], noteId: string) =>
+  clusters.find((c) => noteCounts([c]).has(noteId))?.id;
+
+describe("incrementalCluster", () => {
+  it("returns the existing clusters when nothing changed", async () => {
+    ingestNotes(SAMPLE_NOTES);
+    const existing = curatedClusters(SAMPLE_NOTES);
+
+    const result = await incrementalCluster(SAMPLE_NOTES, existing);
+    expect(result).toBe(existing);
+  });
+
+  it("merges a small change into the existing clusters", async () => {
+    ingestNotes(SAMPLE_NOTES);
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const newNote: Note = {
+      id: "sample-9",
+      title: "Neural Network Training",
+      content:
+        "Training deep neural networks with backpropagation, learning rate schedules and PyTorch.",
+      tags: ["ai"],
+      createdAt: "2024-01-01",
+      folder: "/drafts",
+    };
+    const notes = [...SAMPLE_NOTES, newNote]; // 1/9 changed, below 30%
+
+    const result = await incrementalCluster(notes, existing);
+
+    expect(collectClusterIds(result)).toEqual(
+      expect.arrayContaining(existing.map((c) => c.id))
+    );
+    const counts = noteCounts(result);
+    expect(counts.get("sample-9")).toBe(1);
+    SAMPLE_NOTES.forEach((n) => expect(counts.get(n.id)).toBe(1));
+    expect(readCachedClusters()).toEqual(result);
+  });
+
+  it("re-clusters from scratch when many notes changed", async () => {
+    ingestNotes(SAMPLE_NOTES.slice(0, 4));
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const decisions = memoryBuffer.getStats().totalDecisions;
+
+    const result = await incrementalCluster(SAMPLE_NOTES, existing); // 4/8 changed
+
+    // The full pipeline ran (and recorded its decision)
+    expect(memoryBuffer.getStats().totalDecisions).toBe(decisions + 1);
+    // Continuing clusters keep the existing ids, new ones get unique ids
+    const ids = collectClusterIds(result);
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach((id) => expect(id).toMatch(/^(existing|cluster)-/));
+    const counts = noteCounts(result);
+    SAMPLE_NOTES.forEach((n) => expect(counts.get(n.id)).toBe(1));
+  });
+
+  it("places new notes according to user constraints", async () => {
+    ingestNotes(SAMPLE_NOTES);
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const aiNote = existing[0].children![0].noteId!;
+    const newNotes: Note[] = ["sample-9", "sample-10"].map((id) => ({
+      id,
+      title: "Neural Network Training",
+      content:
+        "Training deep neural networks with backpropagation, learning rate schedules and PyTorch.",
+      tags: ["ai"],
+      createdAt: "2024-01-01",
+      folder: "/drafts",
+    }));
+    pinNoteToCluster("sample-9", "existing-cooking");
+    addUserConstraint("cannot-link", "sample-10", aiNote);
+
+    const result = await incrementalCluster([...SAMPLE_NOTES, ...newNotes], existing);
+
+    expect(topLevelClusterOf(result, "sample-9")).toBe("existing-cooking");
+    expect(topLevelClusterOf(result, "sample-10")).not.toBe("existing-ai");
+  });
+
+  it("records nothing when aborted", async () => {
+    ingestNotes(SAMPLE_NOTES.slice(0, 4));
+    const hashIndex = readHashIndex();
+    const existing = curatedClusters(SAMPLE_NOTES);
+    writeCachedClusters(existing);
+    const decisions = memoryBuffer.getStats().totalDecisions;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      incrementalCluster(SAMPLE_NOTES, existing, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(readHashIndex()).toEqual(hashIndex);
+    expect(readCachedClusters()).toEqual(existing);
+    expect(memoryBuffer.getStats().totalDecisions).toBe(decisions);
+  });
+
+  it("runs the full pipeline when there are no existing clusters", async () => {
+    const result = await incrementalCluster(SAMPLE_NOTES);
+
+    expect(result.length).toBeGreaterThan(0);
+    expect(noteCounts(result).size).toBe(SAMPLE_NOTES.length);
+    expect(readCachedClusters()).toEqual(result);
+  });
+});
+
+describe("hierarchicalHybridClustering", () => {
+  it(
+    "subdivides clusters recursively down to maxDepth",
+    async () => {
+      const notes = generateMockNotes();
+      const flat = await hierarchicalHybridClustering(notes, 0.3, 0.5, "kmeans", {
+        maxDepth: 1,
+      });
+      expect(clusterDepth(flat)).toBe(1);
+
+      const parameters: ClusteringParameters[] = [];
+      const deep = await hierarchicalHybridClustering(notes, 0.3, 0.5, "kmeans", {
+        maxDepth: 4,
+        minLeafSize: 2,
+        onParameters: (p) => parameters.push(p),
+      });
+
+      expect(clusterDepth(deep)).toBeGreaterThan(2);
+      expect(clusterDepth(deep)).toBeLessThanOrEqual(4);
+      const counts = noteCounts(deep);
+      expect(counts.size).toBe(notes.length);
+      expect(Array.from(counts.values()).every((c) => c === 1)).toBe(true);
+
+      // Every subtopic keeps at least minLeafSize notes
+      const subtopics = deep.flatMap((d) => d.children || []);
+      const visit = (node: ClusterNode) => {
+        if (node.type !== "cluster") return;
+        expect(noteCounts([node]).size).toBeGreaterThanOrEqual(2);
+        node.children?.forEach(visit);
+      };
+      subtopics.forEach(visit);
+
+      const deeper = parameters.filter((p) => (p.depth ?? 0) >= 3);
+      expect(deeper.length).toBeGreaterThan(0);
+      deeper.forEach((p) => expect(p.level).toBe("subtopics"));
+    },
+    60_000
+  );
+});
+
+describe("fullSemanticClustering", () => {
+  it(
+    "clusters the mock dataset offline, assigning every note exactly once",
+    async () => {
+      const notes = generateMockNotes();
+      const result = await fullSemanticClustering(notes);
+
+      const counts = noteCounts(result.clusters);
+      expect(counts.size).toBe(notes.length);
+      expect(Array.from(counts.values()).every((c) => c === 1)).toBe(true);
+      result.clusters.forEach((cluster) => {
+        expect(cluster.type).toBe("cluster");
+        expect(cluster.name).toBeTruthy();
+      });
+      expect(result.centroids.size).toBeGreaterThan(0);
+
+      // Quality is measured, not assumed
+      expect(result.report?.noteCount).toBe(notes.length);
+      expect(result.report?.levels.length).toBeGreaterThan(0);
+      expect(result.finalConfidence).toBe(
+        confidenceFromQuality(result.report!.overall)
+      );
+      expect(readClusteringReports()).toEqual([result.report]);
+    },
+    60_000
+  );
+
+  it(
+    "records auto-tuned parameters per level in the clustering decision",
+    async () => {
+      const notes = generateMockNotes();
+      const result = await fullSemanticClustering(notes, {
+        algorithm: "kmeans",
+        autoTune: true,
+        useSemanticEnhancement: false,
+      });
+
+      const [decision] = memoryBuffer.getRecentDecisions(1);
+      expect(decision.method).toBe("initial");
+      expect(decision.confidence).toBe(result.finalConfidence);
+      expect(Object.keys(decision.clusterAssignments).sort()).toEqual(
+        notes.map((n) => n.id).sort()
+      );
+
+      const [domains, ...subtopics] = decision.parameters!;
+      expect(domains).toMatchObject({
+        level: "domains",
+        algorithm: "kmeans",
+        autoTuned: true,
+        metric: "silhouette",
+      });
+      expect(domains.k).toBeGreaterThanOrEqual(2);
+      expect(domains.candidatesTried).toBeGreaterThan(0);
+      subtopics.forEach((p) => {
+        expect(p.level).toBe("subtopics");
+        expect(p.scope).toBeTruthy();
+      });
+    },
+    60_000
+  );
+
+  it(
+    "keeps cluster ids and user-given names when re-clustering",
+    async () => {
+      const notes = generateMockNotes();
+      const options = { algorithm: "kmeans" as const, useSemanticEnhancement: false };
+      const first = await fullSemanticClustering(notes, options);
+
+      const ids = collectClusterIds(first.clusters);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(readCachedClusters()).toEqual(first.clusters);
+
+      // The user renames a domain, then re-clusters
+      writeCachedClusters(
+        first.clusters.map((c, i) =>
+          i === 0 ? { ...c, name: "My Domain", userNamed: true } : c
+        )
+      );
+      const second = await fullSemanticClustering(notes, options);
+
+      expect(collectClusterIds(second.clusters)).toEqual(ids);
+      expect(second.clusters[0]).toMatchObject({
+        id: first.clusters[0].id,
+        name: "My Domain",
+        userNamed: true,
+      });
+      const [decision] = memoryBuffer.getRecentDecisions(1);
+      expect(new Set(Object.values(decision.clusterAssignments))).toEqual(
+        new Set(first.clusters.map((c) => c.id))
+      );
+    },
+    60_000
+  );
+
+  it("rejects when aborted instead of falling back to generic names", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const spy = vi
+      .spyOn(getLLMProvider(), "generateJSON")
+      .mockRejectedValue(new DOMException("Aborted", "AbortError"));
+
+    try {
+      await expect(
+        semanticEnhancedClustering(
+          curatedClusters(SAMPLE_NOTES),
+          SAMPLE_NOTES,
+          true,
+          true,
+          undefined,
+          { signal: controller.signal }
+        )
+      ).rejects.toMatchObject({ name: "AbortError" });
+      expect(spy).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.anything(),
+        { signal: controller.signal }
+      );
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
+
+describe("user constraints", () => {
+  it("persists constraints and replaces earlier ones on the same pair or pin", () => {
+    addUserConstraint("must-link", "a", "b");
+    addUserConstraint("cannot-link", "b", "a"); // Same pair, opposite order
+    pinNoteToCluster("c", "cluster-1");
+    pinNoteToCluster("c", "cluster-2");
+
+    const constraints = readUserConstraints();
+    expect(constraints.mustLinkPairs).toHaveLength(1);
+    expect(constraints.mustLinkPairs[0]).toMatchObject({
+      note1Id: "c",
+      note2Id: "cluster-cluster-2",
+      strength: 1,
+      userProvided: true,
+    });
+    expect(constraints.cannotLinkPairs).toHaveLength(1);
+    expect(constraints.totalNotesAffected).toBe(3);
+
+    const remaining = removeUserConstraint(constraints.cannotLinkPairs[0].id);
+    expect(remaining.totalConstraints).toBe(1);
+    expect(readUserConstraints()).toEqual(remaining);
+  });
+
+  it("turns pins into note pairs for partitioning", () => {
+    expect(toPartitionConstraints(readUserConstraints())).toBeUndefined();
+
+    addUserConstraint("must-link", "a", "b");
+    pinNoteToCluster("c", "x");
+    pinNoteToCluster("d", "x");
+    pinNoteToCluster("e", "y");
+
+    expect(toPartitionConstraints(readUserConstraints())).toEqual({
+      mustLink: [
+        ["a", "b"],
+        ["c", "d"],
+      ],
+      cannotLink: [["c", "e"]],
+    });
+  });
+
+  it("keeps pins to subtopics of one domain together at the domain level", () => {
+    const tree: ClusterNode[] = [
+      {
+        id: "ml",
+        name: "ML",
+        type: "cluster",
+        children: [
+          { id: "dl", name: "Deep Learning", type: "cluster", children: [] },
+          { id: "nlp", name: "NLP", type: "cluster", children: [] },
+        ],
+      },
+      { id: "food", name: "Food", type: "cluster", children: [] },
+    ];
+    pinNoteToCluster("c", "dl");
+    pinNoteToCluster("d", "nlp");
+    pinNoteToCluster("e", "food");
+    const constraints = readUserConstraints();
+
+    expect(toPartitionConstraints(constraints, tree, 1)).toEqual({
+      mustLink: [["c", "d"]],
+      cannotLink: [["c", "e"]],
+    });
+    // Below the domains only the two subtopic pins constrain each other
+    expect(toPartitionConstraints(constraints, tree, 2)).toEqual({
+      mustLink: [],
+      cannotLink: [["c", "d"]],
+    });
+  });
+
+  it(
+    "keeps notes together, apart and in their pinned cluster when re-clustering",
+    async () => {
+      const notes = generateMockNotes();
+      const options = { algorithm: "kmeans" as const, useSemanticEnhancement: false };
+      const first = await fullSemanticClustering(notes, options);
+      const [home, other] = first.clusters;
+      const [a, b] = collectNoteIds(home);
+      const [c, d] = collectNoteIds(other);
+
+      addUserConstraint("must-link", a, c);
+      addUserConstraint("cannot-link", a, b);
+      pinNoteToCluster(d, home.id);
+      const second = await fullSemanticClustering(notes, options);
+
+      const clusterOf = (noteId: string) => topLevelClusterOf(second.clusters, noteId);
+      expect(clusterOf(a)).toBe(clusterOf(c));
+      expect(clusterOf(a)).not.toBe(clusterOf(b));
+      expect(clusterOf(d)).toBe(home.id);
+      const counts = noteCounts(second.clusters);
+      notes.forEach((n) => expect(counts.get(n.id)).toBe(1));
+    },
+    60_000
+  );
+});
+
+describe("manual moves", () => {
+  it("records a move as a user decision and a pin", () => {
+    const { avgConfidence } = memoryBuffer.getStats();
+    const constraints = recordManualMove("moved-note", "cluster-a", "Cooking");
+
+    const [decision] = memoryBuffer.getRecentDecisions(1);
+    expect(decision).toMatchObject({
+      method: "manual",
+      userProvided: true,
+      noteIds: ["moved-note"],
+      clusterAssignments: { "moved-note": "cluster-a" },
+    });
+    expect(constraints.mustLinkPairs).toEqual([
+      expect.objectContaining({
+        note1Id: "moved-note",
+        note2Id: "cluster-cluster-a",
+        userProvided: true,
+      }),
+    ]);
+    // User decisions are not measured, so they leave the average alone
+    expect(memoryBuffer.getStats().avgConfidence).toBe(avgConfidence);
+  });
+
+  it(
+    "keeps moved notes after a re-cluster and reports them",
+    async () => {
+      const notes = generateMockNotes();
+      const options = { algorithm: "kmeans" as const, useSemanticEnhancement: false };
+      const first = await fullSemanticClustering(notes, options);
+      const [home, other] = first.clusters;
+      const moved = collectNoteIds(other)[0];
+
+      recordManualMove(moved, home.id, home.name);
+      // The move outlives the decisions the memory buffer keeps
+      for (let i = 0; i < 60; i++) {
+        memoryBuffer.addDecision({
+          id: `decision-filler-${i}`,
+          timestamp: Date.now(),
+          noteIds: [],
+          clusterAssignments: {},
+          clusterDescriptions: {},
+          confidence: 0.5,
+          method: "initial",
+        });
+      }
+      const second = await fullSemanticClustering(notes, options);
+
+      expect(topLevelClusterOf(second.clusters, moved)).toBe(home.id);
+      expect(second.userCorrections).toEqual({ total: 1, preserved: 1, lost: [] });
+      const reports = readClusteringReports();
+      expect(reports[reports.length - 1].userCorrections).toEqual(second.userCorrections);
+    },
+    60_000
+  );
+});
+
+describe("cluster tree editing", () => {
+  it("renames a cluster as user-named", () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+
+    const result = renameCluster(existing, "existing-ai", "Machine Learning", "Models");
+
+    expect(result[0]).toMatchObject({
+      id: "existing-ai",
+      name: "Machine Learning",
+      description: "Models",
+      userNamed: true,
+    });
+    expect(existing[0].name).toBe("/samples/ai"); // The input tree is left alone
+    expect(readCachedClusters()).toEqual(result);
+  });
+
+  it("merges clusters and moves subclusters", () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+
+    const merged = mergeClusters(existing, "existing-web", "existing-ai");
+    expect(merged.map((c) => c.id)).toEqual(["existing-ai", "existing-cooking"]);
+    expect(noteCounts(merged)).toEqual(noteCounts(existing));
+
+    const moved = moveSubcluster(merged, "existing-cooking", "existing-ai");
+    expect(moved.map((c) => c.id)).toEqual(["existing-ai"]);
+    expect(collectClusterIds(moved)).toEqual(["existing-ai", "existing-cooking"]);
+    expect(() => moveSubcluster(moved, "existing-ai", "existing-cooking")).toThrow();
+    expect(() => mergeClusters(moved, "existing-cooking", "existing-ai")).toThrow();
+
+    const back = moveSubcluster(moved, "existing-cooking", null);
+    expect(back.map((c) => c.id)).toEqual(["existing-ai", "existing-cooking"]);
+  });
+
+  it("splits a cluster by partitioning its notes again", async () => {
+    const notes = generateMockNotes();
+    const single: ClusterNode[] = [
+      { id: "everything", name: "Everything", type: "cluster", children: notes.map(noteNode) },
+    ];
+
+    const result = await splitCluster(notes, single, "everything", "kmeans");
+
+    expect(result.length).toBeGreaterThan(1);
+    result.forEach((c) => expect(c.id).toMatch(/^everything-\d+$/));
+    const counts = noteCounts(result);
+    notes.forEach((n) => expect(counts.get(n.id)).toBe(1));
+  });
+
+  it("leaves the cached tree alone when a split fails", async () => {
+    const twins: Note[] = ["twin-1", "twin-2"].map((id) => ({
+      ...SAMPLE_NOTES[0],
+      id,
+    }));
+    const existing = [
+      ...curatedClusters(SAMPLE_NOTES),
+      { id: "twins", name: "Twins", type: "cluster" as const, children: twins.map(noteNode) },
+    ];
+    writeCachedClusters(existing);
+
+    await expect(
+      splitCluster([...SAMPLE_NOTES, ...twins], existing, "twins", "threshold")
+    ).rejects.toThrow("could not be split further");
+    expect(readCachedClusters()).toEqual(existing);
+  });
+});
+
+describe("cluster history", () => {
+  // The history is kept in module state; a fresh module starts without it
+  let service: typeof import("./clusteringService");
+
+  beforeEach(async () => {
+    vi.resetModules();
+    service = await import("./clusteringService");
+  });
+
+  it("undoes and redoes commands in order", () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const renamed = service.renameCluster(existing, "existing-ai", "AI");
+    const merged = service.mergeClusters(renamed, "existing-web", "existing-ai");
+
+    expect(service.clusterHistoryState()).toEqual({
+      undo: 'Merge "/samples/web" into "AI"',
+      redo: null,
+    });
+    expect(service.undoClusterCommand()).toEqual(renamed);
+    expect(service.undoClusterCommand()).toEqual(existing);
+    expect(service.readCachedClusters()).toEqual(existing);
+    expect(service.redoClusterCommand()).toEqual(renamed);
+    expect(service.redoClusterCommand()).toEqual(merged);
+    expect(service.redoClusterCommand()).toBeNull();
+    expect(service.readCachedClusters()).toEqual(merged);
+
+    // A new command after an undo drops what could have been redone
+    service.undoClusterCommand();
+    service.recordClusterCommand("deleteNote", "Delete note", renamed, existing);
+    expect(service.clusterHistoryState()).toEqual({ undo: "Delete note", redo: null });
+  });
+
+  it("leaves earlier commands intact when notes are added incrementally", async () => {
+    service.ingestNotes(SAMPLE_NOTES);
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const [ai, cooking] = existing;
+    const moved = existing.map((c) =>
+      c.id === ai.id
+        ? { ...c, children: c.children!.slice(1) }
+        : c.id === cooking.id
+          ? { ...c, children: [...c.children!, ai.children![0]] }
+          : c
+    );
+    service.recordClusterCommand("moveNote", "Move note", existing, moved);
+    const newNote: Note = {
+      id: "sample-9",
+      title: "Neural Network Training",
+      content: "Training deep neural networks with backpropagation.",
+      tags: ["ai"],
+      createdAt: "2024-01-01",
+      folder: "/drafts",
+    };
+    service.pinNoteToCluster("sample-9", "existing-ai"); // Placed into an existing cluster
+
+    const updated = await service.incrementalCluster([...SAMPLE_NOTES, newNote], moved);
+    expect(topLevelClusterOf(updated, "sample-9")).toBe("existing-ai");
+    expect(noteCounts(moved).has("sample-9")).toBe(false);
+
+    expect(service.undoClusterCommand()).toEqual(moved);
+    expect(service.undoClusterCommand()).toEqual(existing);
+    const redone = service.redoClusterCommand()!;
+    expect(noteCounts(redone).has("sample-9")).toBe(false);
+    expect(service.redoClusterCommand()).toEqual(updated);
+  });
+
+  it("stores a tree shared by consecutive commands once", () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const renamed = service.renameCluster(existing, "existing-ai", "AI");
+    service.renameCluster(renamed, "existing-web", "Web");
+
+    const stored = JSON.parse(localStorage.getItem("clusters_history_v2")!);
+    expect(stored.commands).toHaveLength(2);
+    expect(stored.states).toHaveLength(3);
+  });
+
+  it("drops the oldest commands once the history outgrows its budget", async () => {
+    // Each tree is about 300k characters, so only a few fit the history's share
+    const existing: ClusterNode[] = curatedClusters(SAMPLE_NOTES).map((c) => ({
+      ...c,
+      description: "x".repeat(100_000),
+    }));
+    let tree = existing;
+    for (let i = 0; i < 5; i++) {
+      tree = service.renameCluster(tree, "existing-ai", `AI ${i}`);
+    }
+
+    expect(service.readCachedClusters()).toEqual(tree);
+    expect(localStorage.getItem("clusters_history_v2")!.length).toBeLessThanOrEqual(1_000_000);
+    let undone = 0;
+    while (service.undoClusterCommand()) undone++;
+    expect(undone).toBeGreaterThan(0);
+    expect(undone).toBeLessThan(5);
+
+    // What the session kept is what was persisted
+    const state = service.clusterHistoryState();
+    vi.resetModules();
+    const reloaded = await import("./clusteringService");
+    expect(reloaded.clusterHistoryState()).toEqual(state);
+  });
+
+  it("keeps the history across reloads", async () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+    service.renameCluster(existing, "existing-ai", "AI");
+    service.undoClusterCommand();
+
+    vi.resetModules();
+    const reloaded = await import("./clusteringService");
+    expect(reloaded.clusterHistoryState()).toEqual({
+      undo: null,
+      redo: 'Rename "/samples/ai" to "AI"',
+    });
+    expect(reloaded.redoClusterCommand()?.[0].name).toBe("AI");
+  });
+
+  it(
+    "records a re-cluster so it can be undone",
+    async () => {
+      const existing = curatedClusters(SAMPLE_NOTES);
+      service.writeCachedClusters(existing);
+
+      const result = await service.fullSemanticClustering(SAMPLE_NOTES, {
+        useSemanticEnhancement: false,
+      });
+
+      expect(service.clusterHistoryState().undo).toBe(`Re-cluster ${SAMPLE_NOTES.length} notes`);
+      expect(service.undoClusterCommand()).toEqual(existing);
+      expect(service.redoClusterCommand()).toEqual(result.clusters);
+    },
+    60_000
+  );
+});
+
+describe("cluster snapshots", () => {
+  it(
+    "snapshots every clustering run with its method, parameters and quality",
+    async () => {
+      const result = await fullSemanticClustering(SAMPLE_NOTES, {
+        useSemanticEnhancement: false,
+      });
+
+      const [latest] = await getClusterSnapshots();
+      expect(latest).toMatchObject({
+        name: `Clustered ${SAMPLE_NOTES.length} notes`,
+        automatic: true,
+        method: "initial",
+        algorithm: expect.any(String),
+        noteCount: SAMPLE_NOTES.length,
+        quality: result.report?.overall,
+      });
+      expect(latest.parameters?.[0].level).toBe("domains");
+      expect(latest.clusters).toEqual(result.clusters);
+    },
+    60_000
+  );
+
+  it("restores a named snapshot as an undoable command", async () => {
+    const existing = curatedClusters(SAMPLE_NOTES);
+    const snapshot = await takeClusterSnapshot("Before import", SAMPLE_NOTES, existing);
+    expect(snapshot).toMatchObject({ automatic: false, method: "manual", noteCount: 8 });
+    expect(snapshot.quality).toBeDefined();
+    expect(readClusteringReports()).toEqual([]);
+
+    const renamed = renameCluster(existing, "existing-ai", "AI");
+    expect(await restoreClusterSnapshot(snapshot.id, renamed)).toEqual(existing);
+    expect(readCachedClusters()).toEqual(existing);
+    expect(clusterHistoryState().undo).toBe('Restore snapshot "Before import"');
+    expect(undoClusterCommand()).toEqual(renamed);
+
+    await expect(restoreClusterSnapshot("missing", existing)).rejects.toThrow(
+      "Snapshot not found"
+    );
+  });
+});
@@ -10,6 +10,12 @@
  * - Incremental clustering: Only processes new/changed notes
  * - Hash-based change detection: Efficiently identifies modified notes
  * - Memory buffer: Maintains clustering history for improved consistency
+ * - User constraints: Must-link/cannot-link pairs and cluster pins honoured
+ *   by every run
+ * - Manual editing: Rename, merge, split and move clusters
+ * - History: Every change to the cluster tree can be undone and redone
+ * - Snapshots: Named copies of the tree, taken after every run or by the
+ *   user, that can be compared and restored
  * - 3-level hierarchy: Root → Domains → Subtopics → Notes
  *
  * Main Entry Points:
@@ -19,6 +25,7 @@
 
 import {
   Note,
+  NoteEmbedding,
   ClusterNode,
   ClusteringDecision,
   ClusteringMemory,
@@ -29,6 +36,18 @@ import {
   SupervisionSignal,
   ConstraintSet,
   SemanticClusteringResult,
+  ClusteringAlgorithm,
+  ClusteringReport,
+  ClusteringParameters,
+  AutoTuneOptions,
+  SizeConstraints,
+  TuningMetric,
+  ClusterLineageEvent,
+  PartitionConstraints,
+  UserCorrectionSummary,
+  ClusterCommandType,
+  ClusterHistory,
+  ClusterSnapshot,
 } from "../types";
 import {
   clusterNotesWithGemini,
@@ -40,10 +59,28 @@ import {
 } from "./geminiService";
 import {
   getOrGenerateEmbeddings,
-  embeddingGuidedPartitioning,
+  getAnnIndex,
   getEmbeddingStats,
-  loadEmbeddingIndex,
 } from "./embeddingService";
+import {
+  evaluateClustersInWorker,
+  partitionInWorker,
+  tunePartitionInWorker,
+} from "./clusteringWorkerClient";
+import {
+  DEFAULT_CLUSTERING_ALGORITHM,
+  defaultMinClusterSize,
+} from "./clusteringAlgorithms";
+import { confidenceFromQuality } from "./clusteringMetrics";
+import { isAbortError } from "./requestScheduler";
+import { matchClusterIdentities } from "./clusterIdentity";
+import { createClusterSnapshot, SnapshotMetadata } from "./clusterSnapshots";
+import {
+  deleteClusterSnapshots,
+  getClusterSnapshot,
+  getClusterSnapshots,
+  saveClusterSnapshot,
+} from "./storageService";
 
 // ============================================================================
 // Configuration & Constants
@@ -55,17 +92,51 @@ export interface IngestionResult {
 }
 
 /** Simple content hash for change detection (non-cryptographic) */
-const fastHash = (s: string) => {
+export const fastHash = (s: string) => {
   let h = 0;
   for (let i = 0; i < s.length; i++) h = (h * 31 + s.charCodeAt(i)) >>> 0;
   return h.toString(16);
 };
 
+/** Hash of the fields that affect clustering and search (what ingestNotes records) */
+export const hashNoteContent = (note: Note): string =>
+  fastHash(`${note.title}\n${note.content}`);
+
 // LocalStorage keys for caching
 const CACHE_KEY = "clusters_cache_v1";
+const HISTORY_KEY = "clusters_history_v2";
+const LEGACY_HISTORY_KEY = "clusters_history_v1"; // Stored two trees per command
 const HASH_INDEX_KEY = "note_hash_index_v1";
 const MEMORY_KEY = "clustering_memory_v1";
+const ALGORITHM_KEY = "clustering_algorithm_v1";
+const AUTO_TUNE_KEY = "clustering_auto_tune_v1";
+const MAX_DEPTH_KEY = "clustering_max_depth_v1";
+const CONSTRAINTS_KEY = "clustering_constraints_v1";
+const REPORTS_KEY = "clustering_reports_v1";
+const MAX_REPORTS = 10; // Keep the last 10 quality reports for comparison
 const MAX_MEMORY_SIZE = 50; // Keep last 50 clustering decisions
+// Hierarchy depth: domains (1) and subtopics (2) unless configured deeper
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MIN_LEAF_SIZE = 2;
+// Thresholds of the full pipeline (lower domain threshold = broader domains,
+// higher subtopic threshold = finer subtopics)
+const PIPELINE_DOMAIN_THRESHOLD = 0.3;
+const PIPELINE_SUBTOPIC_THRESHOLD = 0.5;
+// Each level below subtopics partitions at a stricter similarity threshold
+const SUBTOPIC_THRESHOLD_STEP = 0.1;
+const MAX_SUBTOPIC_THRESHOLD = 0.95;
+// Nearest neighbours whose clusters are considered for a new note
+const INCREMENTAL_NEIGHBOURS = 10;
+// note2Id prefix of a signal that links a note to a cluster rather than a note
+const CLUSTER_PSEUDO_ID_PREFIX = "cluster-";
+// Changes to the cluster tree that can be undone. Whole trees are stored, so
+// older commands are also dropped once the history outgrows its share of
+// LocalStorage (in characters), leaving room for the cache, memory and reports.
+const MAX_HISTORY_COMMANDS = 30;
+const MAX_HISTORY_CHARS = 1_000_000;
+// Snapshots taken after clustering runs; older ones are deleted. Snapshots
+// the user took are kept until deleted.
+const MAX_AUTOMATIC_SNAPSHOTS = 20;
 
 // ============================================================================
 // Dynamic Memory System
@@ -122,10 +193,14 @@ class ClusteringMemoryBuffer implements MemoryBuffer {
     this.memory.lastClusteringTime = decision.timestamp;
     this.memory.totalNotesProcessed += decision.noteIds.length;
 
-    // Recalculate average confidence
-    const confidences = this.memory.decisions.map((d) => d.confidence);
+    // Recalculate average confidence; user decisions are not measured
+    const confidences = this.memory.decisions
+      .filter((d) => !d.userProvided)
+      .map((d) => d.confidence);
     this.memory.averageConfidence =
-      confidences.reduce((a, b) => a + b, 0) / confidences.length;
+      confidences.length > 0
+        ? confidences.reduce((a, b) => a + b, 0) / confidences.length
+        : 0;
 
     this.saveMemory();
   }
@@ -183,11 +258,513 @@ export const readCachedClusters = (): ClusterNode[] => {
 export const writeCachedClusters = (clusters: ClusterNode[]): void => {
   try {
     localStorage.setItem(CACHE_KEY, JSON.stringify(clusters));
+  } catch (e) {
+    console.warn("Failed to cache clusters:", e);
+  }
+};
+
+// ============================================================================
+// Cluster History
+// ============================================================================
+
+let clusterHistory: ClusterHistory | null = null; // Loaded on first use; always what was persisted
+
+const emptyHistory = (): ClusterHistory => ({ states: [], commands: [], cursor: 0 });
+
+const loadClusterHistory = (): ClusterHistory => {
+  if (!clusterHistory) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    try {
+      const raw = localStorage.getItem(HISTORY_KEY);
+      clusterHistory = raw ? (JSON.parse(raw) as ClusterHistory) : emptyHistory();
+    } catch {
+      clusterHistory = emptyHistory();
+    }
+  }
+  return clusterHistory;
+};
+
+/** Drop the `count` oldest commands, and every tree no remaining command refers to */
+const trimClusterHistory = (history: ClusterHistory, count: number): ClusterHistory => {
+  const commands = history.commands.slice(count);
+  const used = Array.from(
+    new Set(commands.flatMap((c) => [c.before, c.after]))
+  ).sort((a, b) => a - b);
+  const remap = new Map(used.map((index, i) => [index, i]));
+  return {
+    states: used.map((index) => history.states[index]),
+    commands: commands.map((c) => ({
+      ...c,
+      before: remap.get(c.before)!,
+      after: remap.get(c.after)!,
+    })),
+    cursor: Math.max(0, history.cursor - count),
+  };
+};
+
+/** Persist the history, dropping the oldest commands until it fits its budget */
+const saveClusterHistory = (history: ClusterHistory): void => {
+  let kept = trimClusterHistory(
+    history,
+    Math.max(0, history.commands.length - MAX_HISTORY_COMMANDS)
+  );
+  while (kept.commands.length > 0) {
+    const json = JSON.stringify(kept);
+    if (json.length <= MAX_HISTORY_CHARS) {
+      try {
+        localStorage.setItem(HISTORY_KEY, json);
+        clusterHistory = kept;
+        return;
+      } catch (e) {
+        console.warn("Failed to save cluster history, dropping the oldest command:", e);
+      }
+    }
+    kept = trimClusterHistory(kept, 1);
+  }
+  localStorage.removeItem(HISTORY_KEY);
+  clusterHistory = emptyHistory();
+};
+
+const sameTree = (a: ClusterNode[], b: ClusterNode[]): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Apply a change to the cluster tree as an undoable command: `after` is
+ * cached, and commands undone before it can no longer be redone
+ * @returns The tree after the command
+ */
+export const recordClusterCommand = (
+  type: ClusterCommandType,
+  label: string,
+  before: ClusterNode[],
+  after: ClusterNode[]
+): ClusterNode[] => {
+  writeCachedClusters(after);
+
+  const history = loadClusterHistory();
+  const commands = history.commands.slice(0, history.cursor);
+  const states = [...history.states];
+  // `before` is usually the tree the last command left, which is already stored
+  const last = commands[commands.length - 1];
+  const beforeIndex =
+    last && sameTree(states[last.after], before)
+      ? last.after
+      : states.push(before) - 1;
+  const now = Date.now();
+  commands.push({
+    id: `command-${now}-${history.cursor}`,
+    type,
+    label,
+    timestamp: now,
+    before: beforeIndex,
+    after: states.push(after) - 1,
+  });
+  // Trimming nothing still drops the trees of commands that can no longer be redone
+  saveClusterHistory(
+    trimClusterHistory({ states, commands, cursor: commands.length }, 0)
+  );
+  console.log(`✏️ ${label}`);
+  return after;
+};
+
+/** Revert the last applied command; returns the restored tree, or null if none */
+export const undoClusterCommand = (): ClusterNode[] | null => {
+  const history = loadClusterHistory();
+  if (history.cursor === 0) return null;
+  const command = history.commands[history.cursor - 1];
+  const tree = history.states[command.before];
+  writeCachedClusters(tree);
+  saveClusterHistory({ ...history, cursor: history.cursor - 1 });
+  console.log(`↩️ Undid: ${command.label}`);
+  return tree;
+};
+
+/** Re-apply the last undone command; returns its tree, or null if none */
+export const redoClusterCommand = (): ClusterNode[] | null => {
+  const history = loadClusterHistory();
+  if (history.cursor === history.commands.length) return null;
+  const command = history.commands[history.cursor];
+  const tree = history.states[command.after];
+  writeCachedClusters(tree);
+  saveClusterHistory({ ...history, cursor: history.cursor + 1 });
+  console.log(`↪️ Redid: ${command.label}`);
+  return tree;
+};
+
+/** Labels of the commands undo and redo would apply */
+export const clusterHistoryState = (): { undo: string | null; redo: string | null } => {
+  const { commands, cursor } = loadClusterHistory();
+  return {
+    undo: cursor > 0 ? commands[cursor - 1].label : null,
+    redo: cursor < commands.length ? commands[cursor].label : null,
+  };
+};
+
+const CLUSTERING_ALGORITHMS: ClusteringAlgorithm[] = [
+  "threshold",
+  "kmeans",
+  "agglomerative",
+  "hdbscan",
+];
+
+/** Partitioning algorithm chosen in the UI (default when unset or unknown) */
+export const readClusteringAlgorithm = (): ClusteringAlgorithm => {
+  const stored = localStorage.getItem(ALGORITHM_KEY) as ClusteringAlgorithm | null;
+  return stored && CLUSTERING_ALGORITHMS.includes(stored)
+    ? stored
+    : DEFAULT_CLUSTERING_ALGORITHM;
+};
+
+export const writeClusteringAlgorithm = (algorithm: ClusteringAlgorithm): void => {
+  try {
+    localStorage.setItem(ALGORITHM_KEY, algorithm);
+  } catch {
+    // ignore
+  }
+};
+
+/** Whether thresholds are tuned automatically (off unless enabled in the UI) */
+export const readAutoTune = (): boolean =>
+  localStorage.getItem(AUTO_TUNE_KEY) === "true";
+
+export const writeAutoTune = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(AUTO_TUNE_KEY, String(enabled));
+  } catch {
+    // ignore
+  }
+};
+
+/** Deepest cluster level chosen in the UI (1 = domains only) */
+export const readMaxDepth = (): number => {
+  const stored = Number(localStorage.getItem(MAX_DEPTH_KEY));
+  return Number.isInteger(stored) && stored >= 1 ? stored : DEFAULT_MAX_DEPTH;
+};
+
+export const writeMaxDepth = (maxDepth: number): void => {
+  try {
+    localStorage.setItem(MAX_DEPTH_KEY, String(maxDepth));
+  } catch {
+    // ignore
+  }
+};
+
+// ============================================================================
+// User Constraints
+// ============================================================================
+
+const toConstraintSet = (signals: SupervisionSignal[]): ConstraintSet => {
+  const affected = new Set<string>();
+  signals.forEach((s) => {
+    affected.add(s.note1Id);
+    if (!s.note2Id.startsWith(CLUSTER_PSEUDO_ID_PREFIX)) affected.add(s.note2Id);
+  });
+  return {
+    mustLinkPairs: signals.filter((s) => s.type === "must-link"),
+    cannotLinkPairs: signals.filter((s) => s.type === "cannot-link"),
+    totalConstraints: signals.length,
+    totalNotesAffected: affected.size,
+  };
+};
+
+/** Cluster a signal pins its note to, if it links a note to a cluster */
+export const pinnedClusterId = (signal: SupervisionSignal): string | null =>
+  signal.note2Id.startsWith(CLUSTER_PSEUDO_ID_PREFIX)
+    ? signal.note2Id.slice(CLUSTER_PSEUDO_ID_PREFIX.length)
+    : null;
+
+const readUserSignals = (): SupervisionSignal[] => {
+  try {
+    const raw = localStorage.getItem(CONSTRAINTS_KEY);
+    return raw ? (JSON.parse(raw) as SupervisionSignal[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeUserSignals = (signals: SupervisionSignal[]): void => {
+  try {
+    localStorage.setItem(CONSTRAINTS_KEY, JSON.stringify(signals));
   } catch {
     // ignore
   }
 };
 
+/** Constraints the user set; every clustering run honours them */
+export const readUserConstraints = (): ConstraintSet =>
+  toConstraintSet(readUserSignals());
+
+/**
+ * Keep two notes in the same cluster (must-link) or in different clusters
+ * (cannot-link) on every subsequent clustering run. Replaces an earlier
+ * constraint on the same pair.
+ */
+export const addUserConstraint = (
+  type: SupervisionSignal["type"],
+  note1Id: string,
+  note2Id: string,
+  reason?: string
+): ConstraintSet => {
+  const samePair = (s: SupervisionSignal) =>
+    (s.note1Id === note1Id && s.note2Id === note2Id) ||
+    (s.note1Id === note2Id && s.note2Id === note1Id);
+  const signal: SupervisionSignal = {
+    id: `user-${type}-${Date.now()}-${note1Id}-${note2Id}`,
+    type,
+    note1Id,
+    note2Id,
+    strength: 1,
+    reason,
+    userProvided: true,
+  };
+  const signals = [...readUserSignals().filter((s) => !samePair(s)), signal];
+  writeUserSignals(signals);
+  return toConstraintSet(signals);
+};
+
+/**
+ * Keep a note in a cluster on every subsequent clustering run, for as long as
+ * the cluster keeps its id (clusterIdentity.ts). Replaces an earlier pin.
+ */
+export const pinNoteToCluster = (
+  noteId: string,
+  clusterId: string,
+  reason?: string
+): ConstraintSet => {
+  const signals = readUserSignals().filter(
+    (s) => !(s.note1Id === noteId && pinnedClusterId(s) !== null)
+  );
+  signals.push({
+    id: `user-pin-${Date.now()}-${noteId}`,
+    type: "must-link",
+    note1Id: noteId,
+    note2Id: `${CLUSTER_PSEUDO_ID_PREFIX}${clusterId}`,
+    strength: 1,
+    reason,
+    userProvided: true,
+  });
+  writeUserSignals(signals);
+  return toConstraintSet(signals);
+};
+
+export const removeUserConstraint = (id: string): ConstraintSet => {
+  const signals = readUserSignals().filter((s) => s.id !== id);
+  writeUserSignals(signals);
+  return toConstraintSet(signals);
+};
+
+/**
+ * Learn from a note the user moved to another cluster: remember the move as a
+ * user-provided decision (fed back to the LLM refinement prompt) and pin the
+ * note to the cluster, so later runs partition around it instead of undoing it
+ * @returns The user constraints, including the new pin
+ */
+export const recordManualMove = (
+  noteId: string,
+  targetClusterId: string,
+  targetClusterName: string
+): ConstraintSet => {
+  const now = Date.now();
+  memoryBuffer.addDecision({
+    id: `decision-manual-${now}-${noteId}`,
+    timestamp: now,
+    noteIds: [noteId],
+    clusterAssignments: { [noteId]: targetClusterId },
+    clusterDescriptions: { [targetClusterId]: targetClusterName },
+    confidence: 1,
+    method: "manual",
+    userProvided: true,
+  });
+  return pinNoteToCluster(noteId, targetClusterId, `Moved to "${targetClusterName}"`);
+};
+
+/**
+ * How many of the user's pins a cluster tree kept (a manual move pins the
+ * note): a pinned note counts as preserved when it is anywhere below the
+ * cluster it is pinned to
+ */
+const summarizeUserCorrections = (
+  notes: Note[],
+  clusters: ClusterNode[],
+  constraints: ConstraintSet
+): UserCorrectionSummary => {
+  const noteIds = new Set(notes.map((n) => n.id));
+  const clustersOf = new Map<string, Set<string>>(); // noteId -> enclosing clusters
+  const visit = (nodes: ClusterNode[], path: string[]) =>
+    nodes.forEach((node) => {
+      if (node.type === "note" && node.noteId) {
+        clustersOf.set(node.noteId, new Set(path));
+      } else if (node.type === "cluster") {
+        visit(node.children || [], [...path, node.id]);
+      }
+    });
+  visit(clusters, []);
+
+  const lost: string[] = [];
+  let total = 0;
+  constraints.mustLinkPairs.forEach((s) => {
+    const clusterId = pinnedClusterId(s);
+    if (clusterId === null || !noteIds.has(s.note1Id)) return; // Deleted since
+    total++;
+    if (!clustersOf.get(s.note1Id)?.has(clusterId)) lost.push(s.note1Id);
+  });
+  return { total, preserved: total - lost.length, lost };
+};
+
+/**
+ * Note pairs for partitioning the clusters at `depth`: note-to-note
+ * constraints as they are, and pins grouped by the cluster their pinned
+ * cluster falls under at that depth. Notes pinned under the same cluster are
+ * linked together and notes pinned under different ones kept apart, so two
+ * pins to subtopics of one domain keep their notes in that domain. Pins to
+ * clusters above `depth` leave their notes free at that depth.
+ * @param clusters Tree the pins refer to; pins to clusters not in it count as
+ * top-level clusters of their own
+ * @param depth Level being partitioned (1 = domains)
+ */
+export const toPartitionConstraints = (
+  constraints: ConstraintSet,
+  clusters: ClusterNode[] = [],
+  depth: number = 1
+): PartitionConstraints | undefined => {
+  const mustLink: [string, string][] = [];
+  const cannotLink: [string, string][] = [];
+  const pinned = new Map<string, string>(); // cluster at depth -> first pinned note
+
+  // Path of cluster ids from the top level down to each cluster
+  const paths = new Map<string, string[]>();
+  const visit = (nodes: ClusterNode[], path: string[]) =>
+    nodes.forEach((n) => {
+      if (n.type !== "cluster") return;
+      paths.set(n.id, [...path, n.id]);
+      visit(n.children || [], [...path, n.id]);
+    });
+  visit(clusters, []);
+  const groupAtDepth = (clusterId: string): string | null => {
+    const path = paths.get(clusterId);
+    if (!path) return depth === 1 ? clusterId : null;
+    return path[depth - 1] ?? null;
+  };
+
+  constraints.mustLinkPairs.forEach((s) => {
+    const clusterId = pinnedClusterId(s);
+    if (clusterId === null) {
+      mustLink.push([s.note1Id, s.note2Id]);
+      return;
+    }
+    const group = groupAtDepth(clusterId);
+    if (group === null) return;
+    if (pinned.has(group)) {
+      mustLink.push([pinned.get(group)!, s.note1Id]);
+    } else {
+      pinned.set(group, s.note1Id);
+    }
+  });
+  constraints.cannotLinkPairs.forEach((s) => {
+    if (pinnedClusterId(s) === null) cannotLink.push([s.note1Id, s.note2Id]);
+  });
+  // Must-links chain each cluster's pins, so one note per cluster suffices
+  const representatives = Array.from(pinned.values());
+  representatives.forEach((a, i) =>
+    representatives.slice(i + 1).forEach((b) => cannotLink.push([a, b]))
+  );
+
+  return mustLink.length > 0 || cannotLink.length > 0
+    ? { mustLink, cannotLink }
+    : undefined;
+};
+
+/**
+ * Move pinned notes (and the notes that must stay with them) into their
+ * cluster wherever partitioning put them. Pins to clusters that no longer
+ * exist are ignored; clusters left without notes are dropped.
+ */
+const applyClusterPins = (
+  clusters: ClusterNode[],
+  constraints: ConstraintSet
+): ClusterNode[] => {
+  const clusterIds = new Set<string>();
+  const visit = (nodes: ClusterNode[]) =>
+    nodes.forEach((n) => {
+      if (n.type !== "cluster") return;
+      clusterIds.add(n.id);
+      visit(n.children || []);
+    });
+  visit(clusters);
+
+  // Pins spread along must-links between notes
+  const partners = new Map<string, string[]>();
+  const targetOf = new Map<string, string>(); // noteId -> clusterId
+  constraints.mustLinkPairs.forEach((s) => {
+    const clusterId = pinnedClusterId(s);
+    if (clusterId !== null) {
+      if (clusterIds.has(clusterId)) targetOf.set(s.note1Id, clusterId);
+      return;
+    }
+    partners.set(s.note1Id, [...(partners.get(s.note1Id) || []), s.note2Id]);
+    partners.set(s.note2Id, [...(partners.get(s.note2Id) || []), s.note1Id]);
+  });
+  const queue = Array.from(targetOf.keys());
+  while (queue.length > 0) {
+    const noteId = queue.shift()!;
+    (partners.get(noteId) || []).forEach((partner) => {
+      if (targetOf.has(partner)) return;
+      targetOf.set(partner, targetOf.get(noteId)!);
+      queue.push(partner);
+    });
+  }
+  if (targetOf.size === 0) return clusters;
+
+  // Notes already somewhere below their cluster stay where they are
+  const targets = new Set(targetOf.values());
+  const moving = new Map<string, ClusterNode>(); // noteId -> its note node
+  const detach = (nodes: ClusterNode[], inside: Set<string>): ClusterNode[] =>
+    nodes.flatMap((node) => {
+      if (node.type === "note") {
+        const target = node.noteId && targetOf.get(node.noteId);
+        if (!target || inside.has(target)) return [node];
+        moving.set(node.noteId!, node);
+        return [];
+      }
+      const children = detach(node.children || [], new Set(inside).add(node.id));
+      return children.length > 0 || targets.has(node.id) ? [{ ...node, children }] : [];
+    });
+  const detached = detach(clusters, new Set());
+  if (moving.size === 0) return clusters;
+
+  const attach = (nodes: ClusterNode[]): ClusterNode[] =>
+    nodes.map((node) => {
+      if (node.type !== "cluster") return node;
+      const children = attach(node.children || []);
+      moving.forEach((note, noteId) => {
+        if (targetOf.get(noteId) !== node.id) return;
+        children.push({ ...note, id: `${node.id}-${noteId}` });
+      });
+      return { ...node, children };
+    });
+  console.log(`📌 Moved ${moving.size} pinned notes into their clusters`);
+  return attach(detached);
+};
+
+/** Quality reports of past clusterings, oldest first */
+export const readClusteringReports = (): ClusteringReport[] => {
+  try {
+    const raw = localStorage.getItem(REPORTS_KEY);
+    return raw ? (JSON.parse(raw) as ClusteringReport[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const recordClusteringReport = (report: ClusteringReport): void => {
+  try {
+    const reports = [...readClusteringReports(), report].slice(-MAX_REPORTS);
+    localStorage.setItem(REPORTS_KEY, JSON.stringify(reports));
+  } catch (e) {
+    console.warn("Failed to save clustering report:", e);
+  }
+};
+
 export const readHashIndex = (): Record<string, string> => {
   try {
     const raw = localStorage.getItem(HASH_INDEX_KEY);
@@ -217,7 +794,7 @@ export const ingestNotes = (notes: Note[]): IngestionResult => {
   );
 
   for (const n of notes) {
-    const h = fastHash(`${n.title}\n${n.content}`);
+    const h = hashNoteContent(n);
     if (idx[n.id] !== h) {
       if (idx[n.id]) {
         console.log(
@@ -252,7 +829,8 @@ const hashClusterAssignments = (clusters: ClusterNode[]): string => {
 // Iterative clustering with convergence detection (Step 1.3)
 export const iterativeClusterWithRefinement = async (
   notes: Note[],
-  maxIterations: number = 3
+  maxIterations: number = 3,
+  options: { signal?: AbortSignal } = {}
 ): Promise<{
   clusters: ClusterNode[];
   iterations: number;
@@ -266,7 +844,11 @@ export const iterativeClusterWithRefinement = async (
     iterations = i + 1;
 
     // Perform dual-prompt clustering with memory feedback
-    const result = await dualPromptClusterNotesWithGemini(notes, memoryBuffer);
+    const result = await dualPromptClusterNotesWithGemini(
+      notes,
+      memoryBuffer,
+      options
+    );
     clusters = result.clusters;
 
     // Check for convergence
@@ -283,10 +865,27 @@ export const iterativeClusterWithRefinement = async (
   return { clusters, iterations, converged: false };
 };
 
-// Incremental clustering: if few notes changed, only process those and merge into existing clusters
+// Incremental clustering: if few notes changed, only process those and merge into existing clusters.
+// Aborting `options.signal` rejects with an AbortError before anything is recorded.
 export const incrementalCluster = async (
   notes: Note[],
-  existingClusters?: ClusterNode[]
+  existingClusters?: ClusterNode[],
+  options: { signal?: AbortSignal } = {}
+): Promise<ClusterNode[]> => {
+  const hashIndex = readHashIndex();
+  try {
+    return await updateClusters(notes, existingClusters, options.signal);
+  } catch (e) {
+    // The notes of an aborted update still count as changed next time
+    if (isAbortError(e)) writeHashIndex(hashIndex);
+    throw e;
+  }
+};
+
+const updateClusters = async (
+  notes: Note[],
+  existingClusters: ClusterNode[] | undefined,
+  signal: AbortSignal | undefined
 ): Promise<ClusterNode[]> => {
   const { changedNoteIds } = ingestNotes(notes);
 
@@ -325,15 +924,8 @@ export const incrementalCluster = async (
     // Get only the new/changed notes
     const changedNotes = notes.filter((n) => changedNoteIds.includes(n.id));
 
-    // Load ALL existing embeddings from cache FIRST
-    const embeddingIndex = loadEmbeddingIndex();
-    let allEmbeddings = [...embeddingIndex.embeddings];
-    console.log(`  📊 Loaded ${allEmbeddings.length} cached embeddings`);
-
-    // Generate embeddings for new notes only (using the full notes list to preserve cache)
-    // Pass ALL notes but only new ones will be generated due to cache check
-    const updatedEmbeddings = await getOrGenerateEmbeddings(notes, false);
-    allEmbeddings = updatedEmbeddings;
+    // Pass ALL notes: cached embeddings are read per note and only new ones are generated
+    const allEmbeddings = await getOrGenerateEmbeddings(notes, false, { signal });
 
     // Get embeddings for just the new notes
     const newEmbeddings = allEmbeddings.filter((e) =>
@@ -341,12 +933,17 @@ export const incrementalCluster = async (
     );
 
     console.log(`  📊 Total embeddings available: ${allEmbeddings.length}`);
+    const annIndex = getAnnIndex(allEmbeddings);
     console.log(
       `  🆕 New embeddings for changed notes: ${newEmbeddings.length}`
     );
 
-    // True incremental update - add new notes to existing clusters
-    const updatedClusters = [...cached];
+    // True incremental update - add new notes to existing clusters.
+    // Notes are pushed into the clusters of a copy: `cached` is React state
+    // and the `after` tree of the previous history command.
+    const before = cached;
+    const updatedClusters = structuredClone(cached);
+    const userConstraints = readUserConstraints();
 
     for (const newNote of changedNotes) {
       // Check if note already exists in clusters (avoid duplicates)
@@ -360,10 +957,38 @@ export const incrementalCluster = async (
         continue;
       }
 
+      // User constraints come before similarity
+      const placement = constrainedPlacement(
+        newNote.id,
+        updatedClusters,
+        userConstraints
+      );
+      if (placement.cluster) {
+        console.log(
+          `  📌 Adding "${newNote.title}" to cluster "${placement.cluster.name}" (user constraint)`
+        );
+        placement.cluster.children = placement.cluster.children || [];
+        placement.cluster.children.push({
+          id: `note-${newNote.id}`,
+          name: newNote.title,
+          type: "note",
+          noteId: newNote.id,
+        });
+        continue;
+      }
+
       const newEmb = newEmbeddings.find((e) => e.noteId === newNote.id);
 
       // Use embedding similarity matching if we have the new note's embedding
       if (newEmb && allEmbeddings.length > 1) {
+        // Only clusters holding one of the note's nearest neighbours can match
+        const neighbourIds = new Set(
+          annIndex
+            .knn(newEmb.vector, INCREMENTAL_NEIGHBOURS + 1)
+            .map((n) => n.noteId)
+            .filter((id) => id !== newNote.id)
+        );
+
         // Find most similar existing cluster
         let bestCluster: ClusterNode | null = null;
         let bestSimilarity = 0;
@@ -371,13 +996,15 @@ export const incrementalCluster = async (
 
         for (const cluster of updatedClusters) {
           if (cluster.type !== "cluster" || !cluster.children) continue;
+          if (placement.excluded.has(cluster)) continue;
 
           // Get embeddings of notes in this cluster (recursively check nested clusters too)
           const clusterNoteIds = collectNoteIds(cluster);
+          if (!clusterNoteIds.some((id) => neighbourIds.has(id))) continue;
 
-          const clusterEmbeddings = allEmbeddings.filter((e) =>
-            clusterNoteIds.includes(e.noteId)
-          );
+          const clusterEmbeddings = clusterNoteIds
+            .map((id) => annIndex.get(id))
+            .filter((e): e is NoteEmbedding => !!e);
 
           if (clusterEmbeddings.length === 0) continue;
 
@@ -418,7 +1045,7 @@ export const incrementalCluster = async (
       // Fallback: Use content-based matching to find best cluster
       const matchedCluster = await findBestClusterForNote(
         newNote,
-        updatedClusters
+        updatedClusters.filter((c) => !placement.excluded.has(c))
       );
 
       if (matchedCluster) {
@@ -455,7 +1082,16 @@ export const incrementalCluster = async (
       }
     }
 
-    writeCachedClusters(updatedClusters);
+    signal?.throwIfAborted();
+    recordClusterCommand(
+      "incremental",
+      `Add ${changedNotes.length} changed notes to clusters`,
+      before,
+      updatedClusters
+    );
+    await recordRunSnapshot(`Added ${changedNotes.length} changed notes`, updatedClusters, {
+      method: "incremental",
+    });
     console.log(
       `✅ Incremental clustering complete: ${updatedClusters.length} clusters`
     );
@@ -473,6 +1109,8 @@ export const incrementalCluster = async (
     useSemanticEnhancement: true,
     generateCentroids: true,
     detectHardSamples: true,
+    previousClusters: cached,
+    signal,
   });
 
   console.log(
@@ -624,6 +1262,52 @@ const extractKeywords = (text: string): string[] => {
     .filter((word) => word.length > 2 && !stopWords.has(word));
 };
 
+// Helper: Where user constraints place a new note. A pin or a must-link
+// partner decides the cluster outright; clusters holding a cannot-link partner
+// are excluded from matching.
+const constrainedPlacement = (
+  noteId: string,
+  clusters: ClusterNode[],
+  constraints: ConstraintSet
+): { cluster: ClusterNode | null; excluded: Set<ClusterNode> } => {
+  // Deepest cluster directly holding a note, or the cluster with an id
+  const find = (
+    nodes: ClusterNode[],
+    match: (cluster: ClusterNode) => boolean
+  ): ClusterNode | null => {
+    for (const node of nodes) {
+      if (node.type !== "cluster") continue;
+      const found = find(node.children || [], match);
+      if (found) return found;
+      if (match(node)) return node;
+    }
+    return null;
+  };
+  const holding = (partnerId: string) => (cluster: ClusterNode) =>
+    !!cluster.children?.some((c) => c.noteId === partnerId);
+  const partnerOf = (signal: SupervisionSignal) =>
+    signal.note1Id === noteId ? signal.note2Id : signal.note1Id;
+  const involves = (signal: SupervisionSignal) =>
+    signal.note1Id === noteId || signal.note2Id === noteId;
+
+  for (const signal of constraints.mustLinkPairs.filter(involves)) {
+    const clusterId = pinnedClusterId(signal);
+    const cluster =
+      clusterId !== null
+        ? find(clusters, (c) => c.id === clusterId)
+        : find(clusters, holding(partnerOf(signal)));
+    if (cluster) return { cluster, excluded: new Set() };
+  }
+
+  const apart = new Set(constraints.cannotLinkPairs.filter(involves).map(partnerOf));
+  return {
+    cluster: null,
+    excluded: new Set(
+      clusters.filter((c) => collectNoteIds(c).some((id) => apart.has(id)))
+    ),
+  };
+};
+
 // Helper: Find best matching cluster for a note using content analysis
 const findBestClusterForNote = async (
   note: Note,
@@ -743,15 +1427,17 @@ const generateClusterNameForNote = async (note: Note): Promise<string> => {
   return "Miscellaneous";
 };
 
-// Enhanced clustering with dual-prompt and iterative refinement (Phase 1)
+// Enhanced clustering with dual-prompt and iterative refinement (Phase 1).
+// Without useCache the notes are clustered as given, e.g. to split one
+// cluster: the cache and hash index are neither read nor written.
 export const enhancedCluster = async (
   notes: Note[],
-  useIterativeRefinement: boolean = true
+  useIterativeRefinement: boolean = true,
+  useCache: boolean = true,
+  options: { signal?: AbortSignal } = {}
 ): Promise<ClusterNode[]> => {
-  const { changedNoteIds } = ingestNotes(notes);
-
   // Check cache
-  if (changedNoteIds.length === 0) {
+  if (useCache && ingestNotes(notes).changedNoteIds.length === 0) {
     const cached = readCachedClusters();
     if (cached.length > 0) return cached;
   }
@@ -761,18 +1447,22 @@ export const enhancedCluster = async (
   if (useIterativeRefinement) {
     // Use iterative refinement with memory feedback
     console.log("Starting iterative clustering with memory feedback...");
-    const result = await iterativeClusterWithRefinement(notes, 3);
+    const result = await iterativeClusterWithRefinement(notes, 3, options);
     clusters = result.clusters;
     console.log(
       `Clustering converged: ${result.converged} after ${result.iterations} iterations`
     );
   } else {
     // Use basic dual-prompt clustering
-    const result = await dualPromptClusterNotesWithGemini(notes, memoryBuffer);
+    const result = await dualPromptClusterNotesWithGemini(
+      notes,
+      memoryBuffer,
+      options
+    );
     clusters = result.clusters;
   }
 
-  writeCachedClusters(clusters);
+  if (useCache) writeCachedClusters(clusters);
   return clusters;
 };
 
@@ -859,22 +1549,47 @@ const partitionsToClusterNodes = (
 /**
  * Hybrid clustering: embeddings for partitioning, then LLM for refinement
  * @param notes Notes to cluster
- * @param similarityThreshold Threshold for embedding-based grouping (0-1)
+ * @param similarityThreshold Threshold for embedding-based grouping (0-1),
+ * used by the "threshold" and "agglomerative" algorithms
  * @param useRefinement Whether to refine with dual-prompt LLM
+ * @param algorithm Partitioning algorithm (see clusteringAlgorithms.ts)
+ * @param options.tuning Sweep the algorithm's parameter under these
+ * constraints instead of using similarityThreshold (clusteringTuning.ts)
+ * @param options.minClusterSize Smallest partition to keep; smaller ones are
+ * merged into their nearest partition (or left unclustered by "threshold")
+ * @param options.onParameters Receives the parameters the partitioning used
+ * @param options.constraints Note pairs to keep together/apart; honoured by
+ * every algorithm, and by tuning candidates
+ * @param options.cache Cache the result as the cluster tree (default true);
+ * off when only part of the tree is partitioned
+ * @param options.signal Cancels embedding and partitioning; the call then
+ * rejects with an AbortError instead of falling back to LLM clustering
  * @returns Refined clusters
  */
 export const hybridClusterWithEmbeddings = async (
   notes: Note[],
   similarityThreshold: number = 0.4,
-  useRefinement: boolean = true
+  useRefinement: boolean = true,
+  algorithm: ClusteringAlgorithm = DEFAULT_CLUSTERING_ALGORITHM,
+  options: {
+    tuning?: SizeConstraints & { metric?: TuningMetric };
+    minClusterSize?: number;
+    onParameters?: (
+      parameters: Omit<ClusteringParameters, "level" | "scope">
+    ) => void;
+    constraints?: PartitionConstraints;
+    cache?: boolean;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<ClusterNode[]> => {
+  const { cache = true, signal } = options;
   console.log(`Starting hybrid clustering for ${notes.length} notes...`);
   const start = performance.now();
 
   try {
     // Step 1: Generate or load embeddings
     console.log("Generating embeddings...");
-    const embeddings = await getOrGenerateEmbeddings(notes);
+    const embeddings = await getOrGenerateEmbeddings(notes, false, { signal });
     const embeddingStats = getEmbeddingStats(embeddings);
     console.log(`Embeddings ready: ${JSON.stringify(embeddingStats)}`);
 
@@ -882,18 +1597,66 @@ export const hybridClusterWithEmbeddings = async (
       console.warn(
         "Failed to generate embeddings, falling back to basic clustering"
       );
-      return await enhancedCluster(notes, false);
+      return await enhancedCluster(notes, false, cache);
     }
 
     // Step 2: Embedding-guided partitioning
-    console.log(
-      `Performing embedding-guided partitioning (threshold: ${similarityThreshold})...`
-    );
-    const partitions = embeddingGuidedPartitioning(
-      embeddings,
-      similarityThreshold,
-      1 // minClusterSize - allow more granular clusters
-    );
+    // Runs in the clustering worker so the editor stays responsive
+    let partitions: EmbeddingPartition[];
+    if (options.tuning) {
+      console.log(`Tuning embedding-guided partitioning (${algorithm})...`);
+      const tuned = await tunePartitionInWorker(
+        embeddings,
+        { ...options.tuning, algorithm, constraints: options.constraints },
+        { signal }
+      );
+      partitions = tuned.partitions;
+      console.log(
+        `Tuned ${algorithm}: ${JSON.stringify(tuned.parameters)} (${tuned.metric} ${tuned.score.toFixed(3)})`
+      );
+      options.onParameters?.({
+        algorithm,
+        threshold: tuned.parameters.threshold,
+        k: tuned.parameters.k,
+        minClusterSize: tuned.parameters.minClusterSize,
+        autoTuned: true,
+        metric: tuned.metric,
+        score: tuned.score,
+        candidatesTried: tuned.candidates.length,
+        withinConstraints: tuned.withinConstraints,
+      });
+    } else {
+      console.log(
+        `Performing embedding-guided partitioning (${algorithm}, threshold: ${similarityThreshold})...`
+      );
+      // Threshold components allow singletons; the others size their own
+      // minimum, never below the requested one
+      const minClusterSize =
+        algorithm === "threshold"
+          ? options.minClusterSize ?? 1
+          : options.minClusterSize === undefined
+          ? undefined
+          : Math.max(
+              options.minClusterSize,
+              defaultMinClusterSize(embeddings.length)
+            );
+      partitions = await partitionInWorker(
+        embeddings,
+        {
+          algorithm,
+          threshold: similarityThreshold,
+          minClusterSize,
+          constraints: options.constraints,
+        },
+        { signal }
+      );
+      options.onParameters?.({
+        algorithm,
+        threshold: similarityThreshold,
+        minClusterSize,
+        autoTuned: false,
+      });
+    }
 
     // Step 3: Generate meaningful names for each partition using LLM
     console.log(
@@ -911,8 +1674,9 @@ export const hybridClusterWithEmbeddings = async (
           };
         }
         try {
-          return await generateClusterName(partitionNotes);
+          return await generateClusterName(partitionNotes, { signal });
         } catch (e) {
+          if (isAbortError(e)) throw e;
           console.error(
             `Failed to generate name for partition ${partition.id}:`,
             e
@@ -925,52 +1689,10 @@ export const hybridClusterWithEmbeddings = async (
       })
     );
     console.log(`Generated ${partitionNames.length} cluster names`);
+    signal?.throwIfAborted();
 
     // Convert to ClusterNodes with meaningful names
-    let clusters = partitionsToClusterNodes(partitions, notes, partitionNames);
-
-    // FORCE SPLIT: If we only got 1 cluster with many notes, force split it
-    if (clusters.length === 1 && notes.length >= 10) {
-      console.warn(
-        `⚠️ Only 1 cluster detected with ${notes.length} notes. Forcing split by folder...`
-      );
-
-      // Group by folder as fallback
-      const folderGroups = new Map<string, Note[]>();
-      notes.forEach((note) => {
-        const folder = note.folder || "/misc";
-        if (!folderGroups.has(folder)) folderGroups.set(folder, []);
-        folderGroups.get(folder)!.push(note);
-      });
-
-      // Create clusters from folders
-      const folderClusters: ClusterNode[] = [];
-      let idx = 0;
-      for (const [folder, folderNotes] of folderGroups) {
-        if (folderNotes.length > 0) {
-          folderClusters.push({
-            id: `folder-cluster-${idx++}`,
-            name: folder
-              .replace(/^\//, "")
-              .replace(/-/g, " ")
-              .replace(/\b\w/g, (l) => l.toUpperCase()),
-            type: "cluster",
-            description: `Notes from ${folder}`,
-            children: folderNotes.map((note) => ({
-              id: `note-${note.id}`,
-              name: note.title,
-              type: "note" as const,
-              noteId: note.id,
-            })),
-          });
-        }
-      }
-
-      clusters = folderClusters;
-      console.log(
-        `✅ Force-split into ${clusters.length} folder-based clusters`
-      );
-    }
+    const clusters = partitionsToClusterNodes(partitions, notes, partitionNames);
 
     const duration = Math.round(performance.now() - start);
     //print for debugging
@@ -980,37 +1702,111 @@ export const hybridClusterWithEmbeddings = async (
     );
 
     // Cache the result
-    writeCachedClusters(clusters);
+    if (cache) writeCachedClusters(clusters);
 
     return clusters;
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Hybrid clustering error:", e);
     console.log("Falling back to enhanced clustering...");
-    return await enhancedCluster(notes, true);
+    return await enhancedCluster(notes, true, cache, { signal });
   }
 };
 
 /**
- * 3-Level Hierarchical Clustering:
+ * Default constraints for auto-tuning one level of the hierarchy: a handful of
+ * domains, none holding most of the notes, and up to 8 subtopics per domain
+ * @param level Hierarchy level being partitioned
+ * @param noteCount Notes being partitioned (all notes, or one domain's)
+ */
+export const autoTuneConstraints = (
+  level: ClusteringParameters["level"],
+  noteCount: number
+): SizeConstraints =>
+  level === "domains"
+    ? {
+        minClusterSize: defaultMinClusterSize(noteCount),
+        maxClusterSize: Math.ceil(noteCount * 0.6),
+        minClusters: 2,
+        maxClusters: 12,
+      }
+    : {
+        minClusterSize: defaultMinClusterSize(noteCount),
+        minClusters: 2,
+        maxClusters: 8,
+      };
+
+/** Threshold for partitioning clusters at `depth` (1 = domains) */
+const thresholdAtDepth = (
+  depth: number,
+  domainThreshold: number,
+  subtopicThreshold: number
+): number =>
+  depth === 1
+    ? domainThreshold
+    : Math.min(
+        MAX_SUBTOPIC_THRESHOLD,
+        subtopicThreshold + (depth - 2) * SUBTOPIC_THRESHOLD_STEP
+      );
+
+/**
+ * Hierarchical Clustering to any depth:
  * Level 0: Root (single node containing all)
  * Level 1: High-level domains (e.g., "Technology", "Cooking", "Personal")
  * Level 2: Subtopics (e.g., "Machine Learning", "Web Development")
+ * Level 3+: Subtopics of subtopics (e.g., "Deep Learning" → "Transformers")
+ *
+ * Clusters are subdivided recursively until maxDepth, or until they are too
+ * small to split into two clusters of at least minLeafSize notes.
  *
  * @param notes Notes to cluster
  * @param domainThreshold Threshold for Level 1 domains (higher = fewer, broader domains)
- * @param subtopicThreshold Threshold for Level 2 subtopics (lower = more granular subtopics)
- * @returns Hierarchical cluster structure with root node
+ * @param subtopicThreshold Threshold for Level 2 subtopics (lower = more granular
+ * subtopics); each deeper level adds SUBTOPIC_THRESHOLD_STEP
+ * @param algorithm Partitioning algorithm for every level
+ * @param options.autoTune Tune each level's threshold (or k) instead of using
+ * the fixed thresholds; the constraints override autoTuneConstraints()
+ * @param options.onParameters Receives the parameters used per level/cluster
+ * @param options.maxDepth Deepest cluster level (default 2: domains and subtopics)
+ * @param options.minLeafSize Smallest subtopic worth splitting off (default 2)
+ * @param options.constraintsAt Note pairs to keep together/apart when
+ * partitioning the clusters at a depth (1 = domains)
+ * @param options.cache Cache the finished tree as the cluster tree (default
+ * true); levels are never cached on their own
+ * @param options.signal Cancels every level; the call rejects with an AbortError
+ * @returns Domains, each holding its subtopics or notes
  */
 export const hierarchicalHybridClustering = async (
   notes: Note[],
   domainThreshold: number = 0.75,
-  subtopicThreshold: number = 0.8
+  subtopicThreshold: number = 0.8,
+  algorithm: ClusteringAlgorithm = DEFAULT_CLUSTERING_ALGORITHM,
+  options: {
+    autoTune?: AutoTuneOptions;
+    onParameters?: (parameters: ClusteringParameters) => void;
+    maxDepth?: number;
+    minLeafSize?: number;
+    constraintsAt?: (depth: number) => PartitionConstraints | undefined;
+    cache?: boolean;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<ClusterNode[]> => {
+  const {
+    autoTune,
+    onParameters,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    minLeafSize = DEFAULT_MIN_LEAF_SIZE,
+    constraintsAt,
+    cache = true,
+    signal,
+  } = options;
   console.log(
-    `🏗️ Starting 3-level hierarchical clustering for ${notes.length} notes...`
+    `🏗️ Starting hierarchical clustering for ${notes.length} notes (max depth ${maxDepth})...`
   );
   console.log(
-    `   Domain threshold: ${domainThreshold}, Subtopic threshold: ${subtopicThreshold}`
+    autoTune
+      ? `   Thresholds auto-tuned (${autoTune.metric ?? "silhouette"})`
+      : `   Domain threshold: ${domainThreshold}, Subtopic threshold: ${subtopicThreshold}`
   );
 
   // Step 1: Create Level 1 - High-level domains (broad grouping)
@@ -1018,77 +1814,116 @@ export const hierarchicalHybridClustering = async (
   const domains = await hybridClusterWithEmbeddings(
     notes,
     domainThreshold,
-    true // Generate names for domains
+    true, // Generate names for domains
+    algorithm,
+    {
+      tuning: autoTune && {
+        ...autoTuneConstraints("domains", notes.length),
+        ...autoTune.domains,
+        metric: autoTune.metric,
+      },
+      onParameters: (parameters) =>
+        onParameters?.({ ...parameters, level: "domains", depth: 1 }),
+      constraints: constraintsAt?.(1),
+      cache: false,
+      signal,
+    }
   );
   console.log(`   Created ${domains.length} high-level domains`);
 
-  // Step 2: For each domain, create Level 2 - Subtopics (finer grouping)
-  console.log("📂 Level 2: Creating subtopics within each domain...");
-  const domainsWithSubtopics = await Promise.all(
-    domains.map(async (domain) => {
-      // Get notes in this domain
-      const domainNoteIds =
-        domain.children
-          ?.filter((c) => c.type === "note")
-          .map((c) => c.noteId)
-          .filter((id): id is string => Boolean(id)) || [];
-
-      // If domain has enough notes, subdivide into subtopics
-      if (domainNoteIds.length >= 3) {
-        const domainNotes = notes.filter((n) => domainNoteIds.includes(n.id));
-
-        console.log(
-          `   Subdividing "${domain.name}" (${domainNotes.length} notes)...`
-        );
+  // Step 2: Recursively split each cluster's notes into subtopics
+  const subdivide = async (
+    cluster: ClusterNode,
+    depth: number
+  ): Promise<ClusterNode> => {
+    const clusterNoteIds = new Set(
+      (cluster.children || [])
+        .filter((c) => c.type === "note" && c.noteId)
+        .map((c) => c.noteId!)
+    );
+    if (depth > maxDepth || clusterNoteIds.size < 2 * minLeafSize) {
+      return cluster;
+    }
 
-        try {
-          const subtopics = await hybridClusterWithEmbeddings(
-            domainNotes,
-            subtopicThreshold,
-            true // Generate names for subtopics
-          );
+    const clusterNotes = notes.filter((n) => clusterNoteIds.has(n.id));
+    console.log(
+      `   ${"  ".repeat(depth - 2)}Subdividing "${cluster.name}" (${clusterNotes.length} notes, level ${depth})...`
+    );
 
-          // If we got meaningful subtopics (more than 1), use them
-          if (subtopics.length > 1) {
-            console.log(`     → ${subtopics.length} subtopics created`);
-            return {
-              ...domain,
-              children: subtopics, // Replace flat notes with subtopic clusters
-            };
-          }
-        } catch (e) {
-          console.warn(
-            `     → Subtopic creation failed, keeping flat structure`
-          );
+    try {
+      const subtopics = await hybridClusterWithEmbeddings(
+        clusterNotes,
+        thresholdAtDepth(depth, domainThreshold, subtopicThreshold),
+        true, // Generate names for subtopics
+        algorithm,
+        {
+          tuning: autoTune && {
+            ...autoTuneConstraints("subtopics", clusterNotes.length),
+            minClusterSize: Math.max(
+              minLeafSize,
+              defaultMinClusterSize(clusterNotes.length)
+            ),
+            ...autoTune.subtopics,
+            metric: autoTune.metric,
+          },
+          minClusterSize: minLeafSize,
+          onParameters: (parameters) =>
+            onParameters?.({
+              ...parameters,
+              level: "subtopics",
+              depth,
+              scope: cluster.name,
+            }),
+          constraints: constraintsAt?.(depth),
+          cache: false,
+          signal,
         }
-      }
+      );
 
-      // Keep original structure if not enough notes or subdivision failed
-      return domain;
-    })
-  );
+      // Only meaningful splits (more than 1 subtopic) are kept
+      if (subtopics.length > 1) {
+        return {
+          ...cluster,
+          // Replace flat notes with subtopic clusters, split further in turn
+          children: await Promise.all(
+            subtopics.map((subtopic) => subdivide(subtopic, depth + 1))
+          ),
+        };
+      }
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn(
+        `     → Subtopic creation failed for "${cluster.name}", keeping flat structure`
+      );
+    }
 
-  // Step 3: Create Level 0 - Root node wrapping everything
-  const rootNode: ClusterNode = {
-    id: "root",
-    name: "Knowledge Base",
-    type: "cluster",
-    description: `All notes organized into ${domainsWithSubtopics.length} domains`,
-    children: domainsWithSubtopics,
+    // Keep original structure if not enough notes or subdivision failed
+    return cluster;
   };
 
+  if (maxDepth >= 2) {
+    console.log("📂 Level 2+: Creating subtopics within each domain...");
+  }
+  const domainsWithSubtopics = await Promise.all(
+    domains.map((domain) => subdivide(domain, 2))
+  );
+
   console.log(`✅ Hierarchical clustering complete:`);
   console.log(`   Level 0: 1 root node`);
-  console.log(`   Level 1: ${domainsWithSubtopics.length} domains`);
-  const totalSubtopics = domainsWithSubtopics.reduce((sum, d) => {
-    const subtopicCount =
-      d.children?.filter((c) => c.type === "cluster").length || 0;
-    return sum + subtopicCount;
-  }, 0);
-  console.log(`   Level 2: ${totalSubtopics} subtopics`);
-
-  // Return array with root node (or just domains if you prefer flat array)
-  // For graph visualization, returning domains might be better
+  let level = domainsWithSubtopics;
+  for (let depth = 1; level.length > 0; depth++) {
+    console.log(
+      `   Level ${depth}: ${level.length} ${depth === 1 ? "domains" : "subtopics"}`
+    );
+    level = level.flatMap((c) =>
+      (c.children || []).filter((child) => child.type === "cluster")
+    );
+  }
+
+  signal?.throwIfAborted();
+  if (cache) writeCachedClusters(domainsWithSubtopics);
+
+  // Domains are returned without a root node; the graph adds its own
   return domainsWithSubtopics;
 };
 // --- Semantic Enhancement (Phase 3) ---
@@ -1097,11 +1932,13 @@ export const hierarchicalHybridClustering = async (
  * Generate semantic centroids for all clusters (Step 3.1)
  * @param clusters Clusters to enhance
  * @param notes All notes for context
+ * @param options.signal Aborts the LLM calls with an AbortError
  * @returns Map of cluster ID to semantic centroid
  */
 export const generateSemanticCentroids = async (
   clusters: ClusterNode[],
-  notes: Note[]
+  notes: Note[],
+  options: { signal?: AbortSignal } = {}
 ): Promise<Map<string, SemanticCentroid>> => {
   const centroids = new Map<string, SemanticCentroid>();
   const noteMap = new Map(notes.map((n) => [n.id, n]));
@@ -1132,7 +1969,8 @@ export const generateSemanticCentroids = async (
         const centroid = await generateSemanticCentroid(
           cluster.id,
           clusterNotes,
-          cluster.description
+          cluster.description,
+          options
         );
         centroids.set(cluster.id, centroid);
       }
@@ -1165,12 +2003,14 @@ export const generateSemanticCentroids = async (
  * @param clusters Clusters for context
  * @param notes All notes
  * @param augmentThreshold Threshold for which samples to augment (0-1)
+ * @param options.signal Aborts the LLM calls with an AbortError
  * @returns Array of hard samples with potential augmentations
  */
 export const detectAndAugmentHardSamples = async (
   clusters: ClusterNode[],
   notes: Note[],
-  augmentThreshold: number = 0.65
+  augmentThreshold: number = 0.65,
+  options: { signal?: AbortSignal } = {}
 ): Promise<HardSample[]> => {
   const hardSamples: HardSample[] = [];
   const clusterIds = clusters
@@ -1187,7 +2027,7 @@ export const detectAndAugmentHardSamples = async (
     const note = notes[idx];
     if (!note) continue;
 
-    const hardSample = await detectHardSample(note, clusterIds);
+    const hardSample = await detectHardSample(note, clusterIds, options);
     if (hardSample && hardSample.ambiguityScore >= augmentThreshold) {
       hardSamples.push(hardSample);
     }
@@ -1267,13 +2107,18 @@ export const generateSupervisionSignals = (
  * @param notes All notes
  * @param generateCentroids Whether to generate semantic centroids
  * @param detectHardSamples Whether to detect hard samples
+ * @param userConstraints Constraints the user set; self-healing never moves
+ * the notes they cover, and they are reported with the generated ones
+ * @param options.signal Aborts the LLM calls with an AbortError
  * @returns Enhanced clustering result with semantics
  */
 export const semanticEnhancedClustering = async (
   clusters: ClusterNode[],
   notes: Note[],
   generateCentroids: boolean = true,
-  detectHardSamples: boolean = true
+  detectHardSamples: boolean = true,
+  userConstraints?: ConstraintSet,
+  options: { signal?: AbortSignal } = {}
 ): Promise<SemanticClusteringResult> => {
   const start = performance.now();
 
@@ -1283,12 +2128,12 @@ export const semanticEnhancedClustering = async (
 
   // Step 1: Generate semantic centroids
   const centroids = generateCentroids
-    ? await generateSemanticCentroids(clusters, notes)
+    ? await generateSemanticCentroids(clusters, notes, options)
     : new Map();
 
   // Step 2: Detect hard samples
   const hardSamples = detectHardSamples
-    ? await detectAndAugmentHardSamples(clusters, notes, 0.65)
+    ? await detectAndAugmentHardSamples(clusters, notes, 0.65, options)
     : [];
 
   // Step 3: Re-enhance cluster names with semantic analysis
@@ -1340,7 +2185,8 @@ export const semanticEnhancedClustering = async (
       const centroid = centroids.get(cluster.id);
       const { name, description } = await generateSemanticClusterName(
         clusterNotes,
-        centroid
+        centroid,
+        options
       );
 
       return {
@@ -1350,6 +2196,7 @@ export const semanticEnhancedClustering = async (
         children: enhancedChildren,
       };
     } catch (e) {
+      if (isAbortError(e)) throw e;
       console.error(`Failed to enhance cluster ${cluster.id}:`, e);
       return { ...cluster, children: enhancedChildren };
     }
@@ -1361,6 +2208,12 @@ export const semanticEnhancedClustering = async (
 
   // Step 4: Generate supervision signals
   const constraints = generateSupervisionSignals(hardSamples);
+  const userNoteIds = new Set(
+    [
+      ...(userConstraints?.mustLinkPairs || []),
+      ...(userConstraints?.cannotLinkPairs || []),
+    ].flatMap((s) => (pinnedClusterId(s) === null ? [s.note1Id, s.note2Id] : [s.note1Id]))
+  );
 
   // Step 5: Apply constraints (Self-Healing)
   // Logic: Move hard samples to their 'must-link' clusters if specified
@@ -1380,7 +2233,8 @@ export const semanticEnhancedClustering = async (
     constraints.mustLinkPairs.forEach((signal) => {
       if (
         signal.type === "must-link" &&
-        signal.note2Id.startsWith("cluster-")
+        signal.note2Id.startsWith("cluster-") &&
+        !userNoteIds.has(signal.note1Id) // User constraints take precedence
       ) {
         const noteId = signal.note1Id;
         const targetClusterId = signal.note2Id.replace("cluster-", "");
@@ -1445,7 +2299,20 @@ export const semanticEnhancedClustering = async (
     clusters: enhancedClusters,
     centroids,
     hardSamples,
-    constraints,
+    constraints: userConstraints
+      ? {
+          mustLinkPairs: [...userConstraints.mustLinkPairs, ...constraints.mustLinkPairs],
+          cannotLinkPairs: [
+            ...userConstraints.cannotLinkPairs,
+            ...constraints.cannotLinkPairs,
+          ],
+          totalConstraints: userConstraints.totalConstraints + constraints.totalConstraints,
+          totalNotesAffected: new Set([
+            ...userNoteIds,
+            ...hardSamples.map((h) => h.noteId),
+          ]).size,
+        }
+      : constraints,
     iterations: 1,
     finalConfidence: avgCentroidConfidence,
   };
@@ -1457,6 +2324,88 @@ export const semanticEnhancedClustering = async (
   return result;
 };
 
+// --- Clustering Quality ---
+
+/**
+ * Measure a cluster tree against the notes' embeddings (silhouette,
+ * Davies–Bouldin, intra/inter similarity) and keep the report for comparison
+ * with later runs
+ * @param notes Notes in the tree
+ * @param clusters Cluster tree to evaluate
+ * @param algorithm Algorithm that produced the tree, if it was just clustered
+ * @param userCorrections Pins the tree kept, reported alongside
+ * @param options.record Keep the report for comparison (default: true)
+ * @returns The report, or null when no embeddings are available
+ */
+export const evaluateClusterQuality = async (
+  notes: Note[],
+  clusters: ClusterNode[],
+  algorithm?: ClusteringAlgorithm,
+  userCorrections?: UserCorrectionSummary,
+  options: { record?: boolean } = {}
+): Promise<ClusteringReport | null> => {
+  try {
+    const embeddings = await getOrGenerateEmbeddings(notes);
+    if (embeddings.length === 0) return null;
+
+    const evaluated = await evaluateClustersInWorker(clusters, embeddings, algorithm);
+    const report = userCorrections ? { ...evaluated, userCorrections } : evaluated;
+    if (options.record !== false) recordClusteringReport(report);
+    console.log(
+      `Clustering quality: silhouette ${report.overall.silhouette.toFixed(
+        3
+      )}, Davies-Bouldin ${report.overall.daviesBouldin.toFixed(3)}`
+    );
+    return report;
+  } catch (e) {
+    console.error("Clustering evaluation failed:", e);
+    return null;
+  }
+};
+
+/**
+ * Match a new clustering result to the previous cluster tree
+ * (clusterIdentity.ts): continuing clusters keep their ids and user-given
+ * names, so bookmarks and memory assignments still point at them. Centroids
+ * are re-keyed to the carried-over ids.
+ * @returns The result with stable ids, and the splits/merges since last time
+ */
+const carryOverClusterIdentities = async (
+  notes: Note[],
+  previous: ClusterNode[],
+  result: SemanticClusteringResult
+): Promise<{ result: SemanticClusteringResult; lineage: ClusterLineageEvent[] }> => {
+  let embeddings: NoteEmbedding[] = [];
+  try {
+    embeddings = await getOrGenerateEmbeddings(notes);
+  } catch (e) {
+    console.warn("Matching clusters by note overlap only:", e);
+  }
+
+  const identity = matchClusterIdentities(previous, result.clusters, { embeddings });
+  console.log(
+    `Cluster identities: ${identity.matches.length} kept, ${identity.created.length} new, ${identity.retired.length} retired, ${identity.lineage.length} splits/merges`
+  );
+
+  // The rebuilt tree has the same shape; walk both to re-key centroids
+  const centroids = new Map<string, SemanticCentroid>();
+  const rekey = (before: ClusterNode[], after: ClusterNode[]) =>
+    before.forEach((node, i) => {
+      if (node.type !== "cluster") return;
+      const centroid = result.centroids.get(node.id);
+      if (centroid) {
+        centroids.set(after[i].id, { ...centroid, clusterId: after[i].id });
+      }
+      rekey(node.children || [], after[i].children || []);
+    });
+  rekey(result.clusters, identity.clusters);
+
+  return {
+    result: { ...result, clusters: identity.clusters, centroids },
+    lineage: identity.lineage,
+  };
+};
+
 /**
  * Full end-to-end semantic clustering: embeddings + LLM + semantics
  * @param notes Notes to cluster
@@ -1470,6 +2419,13 @@ export const fullSemanticClustering = async (
     useSemanticEnhancement?: boolean;
     generateCentroids?: boolean;
     detectHardSamples?: boolean;
+    algorithm?: ClusteringAlgorithm;
+    autoTune?: boolean | AutoTuneOptions; // Default: the stored UI setting
+    maxDepth?: number; // Default: the stored UI setting
+    minLeafSize?: number;
+    previousClusters?: ClusterNode[]; // Whose ids carry over; default: the cache
+    constraints?: ConstraintSet; // Honoured as hard constraints; default: the user's
+    signal?: AbortSignal; // Rejects with an AbortError; nothing is recorded
   } = {}
 ): Promise<SemanticClusteringResult> => {
   const {
@@ -1477,6 +2433,13 @@ export const fullSemanticClustering = async (
     useSemanticEnhancement = true,
     generateCentroids = true,
     detectHardSamples = true,
+    algorithm = readClusteringAlgorithm(),
+    autoTune = readAutoTune(),
+    maxDepth = readMaxDepth(),
+    minLeafSize,
+    previousClusters = readCachedClusters(),
+    constraints = readUserConstraints(),
+    signal,
   } = options;
 
   console.log("Starting full semantic clustering pipeline...");
@@ -1486,42 +2449,375 @@ export const fullSemanticClustering = async (
 
   // Phase 2: Hybrid embeddings with 3-level hierarchy
   let clusters: ClusterNode[];
+  const parameters: ClusteringParameters[] = [];
   if (useHybridEmbeddings) {
     console.log("Phase 2: 3-Level Hierarchical Clustering");
-    // Level 0: Root, Level 1: Domains, Level 2: Subtopics
+    // Level 0: Root, Level 1: Domains, Level 2+: Subtopics
     clusters = await hierarchicalHybridClustering(
       notes,
-      0.3, // Domain threshold (lower = more notes grouped together)
-      0.5 // Subtopic threshold (higher = finer subtopics)
+      PIPELINE_DOMAIN_THRESHOLD,
+      PIPELINE_SUBTOPIC_THRESHOLD,
+      algorithm,
+      {
+        autoTune: autoTune === true ? {} : autoTune || undefined,
+        onParameters: (p) => parameters.push(p),
+        maxDepth,
+        minLeafSize,
+        // Pins refer to the clusters of the previous run
+        constraintsAt: (depth) =>
+          toPartitionConstraints(constraints, previousClusters, depth),
+        // The finished tree is cached below, once it can be undone
+        cache: false,
+        signal,
+      }
     );
   } else {
     console.log("Phase 1: Enhanced LLM clustering");
-    clusters = await enhancedCluster(notes, true);
+    clusters = await enhancedCluster(notes, true, true, { signal });
   }
 
+  signal?.throwIfAborted();
+
   // Phase 3: Semantic enhancement
+  let result: SemanticClusteringResult;
   if (useSemanticEnhancement) {
     console.log("Phase 3: Semantic enhancement");
-    return semanticEnhancedClustering(
+    result = await semanticEnhancedClustering(
       clusters,
       notes,
       generateCentroids,
-      detectHardSamples
+      detectHardSamples,
+      constraints,
+      { signal }
     );
+  } else {
+    result = {
+      clusters,
+      centroids: new Map(),
+      hardSamples: [],
+      constraints,
+      iterations: 1,
+      finalConfidence: 0.5, // Unmeasured until the report below
+    };
   }
 
-  // Fallback: just return clusters
-  return {
-    clusters,
-    centroids: new Map(),
-    hardSamples: [],
-    constraints: {
-      mustLinkPairs: [],
-      cannotLinkPairs: [],
-      totalConstraints: 0,
-      totalNotesAffected: 0,
-    },
-    iterations: 1,
-    finalConfidence: 0.8,
+  // Clusters that continue previous ones keep their ids and user-given names
+  const identity = await carryOverClusterIdentities(notes, previousClusters, result);
+  // Pins refer to those ids, so they can only be applied now
+  result = {
+    ...identity.result,
+    clusters: applyClusterPins(identity.result.clusters, constraints),
   };
+
+  // Pins, including manual moves, this run kept
+  const userCorrections = summarizeUserCorrections(
+    notes,
+    result.clusters,
+    constraints
+  );
+  if (userCorrections.total > 0) {
+    console.log(
+      `✋ User corrections preserved: ${userCorrections.preserved}/${userCorrections.total}`
+    );
+    result = { ...result, userCorrections };
+  }
+
+  signal?.throwIfAborted();
+
+  // Objective quality of the final tree; confidence follows its silhouette
+  const report = await evaluateClusterQuality(
+    notes,
+    result.clusters,
+    useHybridEmbeddings ? algorithm : undefined,
+    result.userCorrections
+  );
+  const finalResult = report
+    ? { ...result, report, finalConfidence: confidenceFromQuality(report.overall) }
+    : result;
+
+  // Remember how the notes were partitioned, including tuned parameters
+  const now = Date.now();
+  const clusterAssignments: Record<string, string> = {};
+  const clusterDescriptions: Record<string, string> = {};
+  finalResult.clusters.forEach((cluster) => {
+    clusterDescriptions[cluster.id] = cluster.description || "";
+    collectNoteIds(cluster).forEach((noteId) => {
+      clusterAssignments[noteId] = cluster.id;
+    });
+  });
+  memoryBuffer.addDecision({
+    id: `decision-${now}`,
+    timestamp: now,
+    noteIds: notes.map((n) => n.id),
+    clusterAssignments,
+    clusterDescriptions,
+    confidence: finalResult.finalConfidence,
+    method: "initial",
+    parameters: parameters.length > 0 ? parameters : undefined,
+    lineage: identity.lineage.length > 0 ? identity.lineage : undefined,
+  });
+
+  // The next run matches against the cached tree. A re-cluster can be
+  // undone; there is nothing to undo to the first time.
+  if (previousClusters.length > 0) {
+    recordClusterCommand(
+      "recluster",
+      `Re-cluster ${notes.length} notes`,
+      previousClusters,
+      finalResult.clusters
+    );
+  } else {
+    writeCachedClusters(finalResult.clusters);
+  }
+  await recordRunSnapshot(`Clustered ${notes.length} notes`, finalResult.clusters, {
+    method: "initial",
+    algorithm: useHybridEmbeddings ? algorithm : undefined,
+    parameters: parameters.length > 0 ? parameters : undefined,
+    quality: finalResult.report?.overall,
+  });
+  return finalResult;
+};
+
+// --- Cluster Tree Editing ---
+
+/** Path from a top-level cluster down to the cluster with `clusterId` */
+const findClusterPath = (
+  clusters: ClusterNode[],
+  clusterId: string
+): ClusterNode[] | null => {
+  for (const node of clusters) {
+    if (node.type !== "cluster") continue;
+    if (node.id === clusterId) return [node];
+    const path = findClusterPath(node.children || [], clusterId);
+    if (path) return [node, ...path];
+  }
+  return null;
+};
+
+const requireCluster = (clusters: ClusterNode[], clusterId: string): ClusterNode[] => {
+  const path = findClusterPath(clusters, clusterId);
+  if (!path) throw new Error(`Cluster not found: ${clusterId}`);
+  return path;
+};
+
+/** Rebuild the tree with the cluster `clusterId` replaced by `replace(cluster)` */
+const replaceCluster = (
+  clusters: ClusterNode[],
+  clusterId: string,
+  replace: (cluster: ClusterNode) => ClusterNode[]
+): ClusterNode[] =>
+  clusters.flatMap((node) => {
+    if (node.type !== "cluster") return [node];
+    if (node.id === clusterId) return replace(node);
+    return [{ ...node, children: replaceCluster(node.children || [], clusterId, replace) }];
+  });
+
+/** Drop clusters an edit left without notes or subclusters */
+const pruneEmptyClusters = (clusters: ClusterNode[]): ClusterNode[] =>
+  clusters.flatMap((node) => {
+    if (node.type !== "cluster") return [node];
+    const children = pruneEmptyClusters(node.children || []);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+/**
+ * Rename a cluster (and optionally change its description). The name counts
+ * as user-given, so re-clustering keeps it (clusterIdentity.ts).
+ */
+export const renameCluster = (
+  clusters: ClusterNode[],
+  clusterId: string,
+  name: string,
+  description?: string
+): ClusterNode[] => {
+  const [cluster] = requireCluster(clusters, clusterId).slice(-1);
+  const after = replaceCluster(clusters, clusterId, (c) => [
+    { ...c, name, description: description ?? c.description, userNamed: true },
+  ]);
+  return recordClusterCommand("rename", `Rename "${cluster.name}" to "${name}"`, clusters, after);
+};
+
+/**
+ * Merge one cluster into another: the target keeps its id and name and
+ * takes over the source's notes and subclusters
+ */
+export const mergeClusters = (
+  clusters: ClusterNode[],
+  sourceId: string,
+  targetId: string
+): ClusterNode[] => {
+  const sourcePath = requireCluster(clusters, sourceId);
+  const targetPath = requireCluster(clusters, targetId);
+  const source = sourcePath[sourcePath.length - 1];
+  const target = targetPath[targetPath.length - 1];
+  if (sourcePath.includes(target) || targetPath.includes(source)) {
+    throw new Error("Cannot merge a cluster with a cluster that contains it");
+  }
+
+  const withoutSource = replaceCluster(clusters, sourceId, () => []);
+  const after = replaceCluster(withoutSource, targetId, (c) => [
+    { ...c, children: [...(c.children || []), ...(source.children || [])] },
+  ]);
+  return recordClusterCommand(
+    "merge",
+    `Merge "${source.name}" into "${target.name}"`,
+    clusters,
+    pruneEmptyClusters(after)
+  );
+};
+
+/**
+ * Move a cluster, with everything below it, under another cluster or to the
+ * top level (newParentId null)
+ */
+export const moveSubcluster = (
+  clusters: ClusterNode[],
+  clusterId: string,
+  newParentId: string | null
+): ClusterNode[] => {
+  const path = requireCluster(clusters, clusterId);
+  const cluster = path[path.length - 1];
+  const parentPath = newParentId === null ? [] : requireCluster(clusters, newParentId);
+  if (parentPath.includes(cluster)) {
+    throw new Error("Cannot move a cluster into itself or one of its subclusters");
+  }
+
+  const detached = replaceCluster(clusters, clusterId, () => []);
+  const after =
+    newParentId === null
+      ? [...detached, cluster]
+      : replaceCluster(detached, newParentId, (c) => [
+          { ...c, children: [...(c.children || []), cluster] },
+        ]);
+  const parentName =
+    parentPath.length > 0 ? `"${parentPath[parentPath.length - 1].name}"` : "the top level";
+  return recordClusterCommand(
+    "moveCluster",
+    `Move "${cluster.name}" to ${parentName}`,
+    clusters,
+    pruneEmptyClusters(after)
+  );
+};
+
+/**
+ * Split a cluster by partitioning its notes again, one level finer than the
+ * cluster's own; the parts replace it as siblings. Its subclusters are not
+ * kept. User constraints hold as in a full run.
+ * @param notes All notes (the cluster's are picked out)
+ * @param algorithm Partitioning algorithm (default: the stored UI setting)
+ */
+export const splitCluster = async (
+  notes: Note[],
+  clusters: ClusterNode[],
+  clusterId: string,
+  algorithm: ClusteringAlgorithm = readClusteringAlgorithm()
+): Promise<ClusterNode[]> => {
+  const path = requireCluster(clusters, clusterId);
+  const cluster = path[path.length - 1];
+  const noteIds = new Set(collectNoteIds(cluster));
+  const clusterNotes = notes.filter((n) => noteIds.has(n.id));
+  if (clusterNotes.length < 2) {
+    throw new Error(`"${cluster.name}" has too few notes to split`);
+  }
+
+  const parts = await hybridClusterWithEmbeddings(
+    clusterNotes,
+    thresholdAtDepth(path.length + 1, PIPELINE_DOMAIN_THRESHOLD, PIPELINE_SUBTOPIC_THRESHOLD),
+    true, // Name the parts
+    algorithm,
+    // The cache keeps the whole tree until the split is recorded
+    {
+      constraints: toPartitionConstraints(readUserConstraints(), clusters, path.length + 1),
+      cache: false,
+    }
+  );
+  if (parts.length < 2) {
+    throw new Error(`"${cluster.name}" could not be split further`);
+  }
+
+  // Ids derived from the split cluster's, so they stay unique in the tree
+  const renamed = parts.map((part, i) => {
+    const id = `${clusterId}-${i + 1}`;
+    return {
+      ...part,
+      id,
+      children: part.children?.map((child) =>
+        child.type === "note" ? { ...child, id: `${id}-${child.noteId}` } : child
+      ),
+    };
+  });
+  const after = replaceCluster(clusters, clusterId, () => renamed);
+  return recordClusterCommand(
+    "split",
+    `Split "${cluster.name}" into ${renamed.length} clusters`,
+    clusters,
+    after
+  );
+};
+
+// --- Cluster Snapshots ---
+
+/**
+ * Snapshot the tree a clustering run produced, deleting the oldest automatic
+ * snapshots beyond the limit. Failures are logged; the run still succeeds.
+ */
+const recordRunSnapshot = async (
+  name: string,
+  clusters: ClusterNode[],
+  metadata: SnapshotMetadata
+): Promise<void> => {
+  try {
+    await saveClusterSnapshot(
+      createClusterSnapshot(name, clusters, { ...metadata, automatic: true })
+    );
+    const automatic = (await getClusterSnapshots()).filter((s) => s.automatic);
+    await deleteClusterSnapshots(
+      automatic.slice(MAX_AUTOMATIC_SNAPSHOTS).map((s) => s.id)
+    );
+  } catch (e) {
+    console.warn("Could not save a cluster snapshot:", e);
+  }
+};
+
+/**
+ * Save the current tree as a named snapshot. It is kept until deleted, and
+ * carries the tree's quality when embeddings are available.
+ * @param notes Notes in the tree, to measure its quality
+ */
+export const takeClusterSnapshot = async (
+  name: string,
+  notes: Note[],
+  clusters: ClusterNode[]
+): Promise<ClusterSnapshot> => {
+  if (clusters.length === 0) throw new Error("There are no clusters to snapshot");
+  // A snapshot is not a clustering run, so its report is not kept
+  const report = await evaluateClusterQuality(notes, clusters, undefined, undefined, {
+    record: false,
+  });
+  const snapshot = createClusterSnapshot(name.trim() || "Untitled snapshot", clusters, {
+    method: "manual",
+    quality: report?.overall,
+  });
+  await saveClusterSnapshot(snapshot);
+  console.log(`📸 Saved snapshot "${snapshot.name}"`);
+  return snapshot;
+};
+
+/**
+ * Make a snapshot's tree the current one. Restoring is undoable like any
+ * other change to the tree.
+ * @param current The tree being replaced
+ */
+export const restoreClusterSnapshot = async (
+  snapshotId: string,
+  current: ClusterNode[]
+): Promise<ClusterNode[]> => {
+  const snapshot = await getClusterSnapshot(snapshotId);
+  if (!snapshot) throw new Error(`Snapshot not found: ${snapshotId}`);
+  return recordClusterCommand(
+    "restore",
+    `Restore snapshot "${snapshot.name}"`,
+    current,
+    structuredClone(snapshot.clusters)
+  );
 };
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { EmbeddingPartition, NoteEmbedding } from "../types";
+import { tunePartitioning } from "./clusteringTuning";
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+});
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+/** `perCentre` notes around each of `centres` random directions; ids are "c<centre>-<i>" */
+const clusteredCorpus = (centres: number, perCentre: number, dim = 16, seed = 7) => {
+  const random = seededRandom(seed);
+  const directions = Array.from({ length: centres }, () =>
+    Array.from({ length: dim }, () => random() * 2 - 1)
+  );
+  return directions.flatMap((direction, c) =>
+    Array.from({ length: perCentre }, (_, i) =>
+      emb(
+        `c${c}-${i}`,
+        direction.map((v) => v + (random() - 0.5) * 0.4)
+      )
+    )
+  );
+};
+
+const centreOf = (noteId: string) => noteId.split("-")[0];
+
+const assignedIds = (partitions: EmbeddingPartition[]) =>
+  partitions.flatMap((p) => p.noteIds).sort();
+
+describe("tunePartitioning", () => {
+  const corpus = clusteredCorpus(5, 30);
+
+  it("picks the k with the best silhouette", () => {
+    const result = tunePartitioning(corpus, { algorithm: "kmeans" });
+
+    expect(result.parameters.k).toBe(5);
+    expect(result.partitions).toHaveLength(5);
+    expect(result.metric).toBe("silhouette");
+    expect(result.withinConstraints).toBe(true);
+    expect(result.candidates.length).toBeGreaterThan(5);
+    const best = Math.max(...result.candidates.map((c) => c.score));
+    expect(result.score).toBe(best);
+    result.partitions.forEach((p) => {
+      expect(new Set(p.noteIds.map(centreOf)).size).toBe(1);
+    });
+  });
+
+  it("sweeps agglomerative thresholds and reports progress", () => {
+    const stages = new Set<string>();
+    const result = tunePartitioning(
+      corpus,
+      { algorithm: "agglomerative", metric: "daviesBouldin" },
+      (stage) => stages.add(stage)
+    );
+
+    expect(result.parameters.threshold).toBeGreaterThan(0);
+    expect(result.partitions).toHaveLength(5);
+    expect(result.score).toBeLessThan(0); // Negated Davies–Bouldin
+    expect(stages.has("tuning")).toBe(true);
+  });
+
+  it("respects cluster count and size constraints", () => {
+    const result = tunePartitioning(corpus, {
+      algorithm: "kmeans",
+      maxClusters: 3,
+      maxClusterSize: 90,
+    });
+
+    expect(result.withinConstraints).toBe(true);
+    expect(result.partitions.length).toBeLessThanOrEqual(3);
+    result.partitions.forEach((p) => expect(p.noteIds.length).toBeLessThanOrEqual(90));
+    expect(assignedIds(result.partitions)).toEqual(corpus.map((e) => e.noteId).sort());
+  });
+
+  it("falls back to the least violating candidate when nothing fits", () => {
+    const result = tunePartitioning(corpus, {
+      algorithm: "hdbscan",
+      minClusters: 20,
+    });
+
+    expect(result.withinConstraints).toBe(false);
+    const chosen = result.candidates.find(
+      (c) => c.parameters.minClusterSize === result.parameters.minClusterSize
+    )!;
+    result.candidates.forEach((c) =>
+      expect(c.violation).toBeGreaterThanOrEqual(chosen.violation)
+    );
+    expect(assignedIds(result.partitions)).toEqual(corpus.map((e) => e.noteId).sort());
+  });
+
+  it("sweeps a sample of large corpora and partitions every note", () => {
+    const large = clusteredCorpus(4, 300, 16, 3);
+    const result = tunePartitioning(large, { algorithm: "kmeans" });
+
+    expect(result.parameters.k).toBe(4);
+    expect(assignedIds(result.partitions)).toEqual(large.map((e) => e.noteId).sort());
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Clustering Auto-Tuning
+ *
+ * Sweeps the free parameter of a partitioning algorithm (the similarity
+ * threshold, k, or HDBSCAN's minimum cluster size) and keeps the value that
+ * scores best on a quality metric while respecting cluster size constraints.
+ * How tightly notes cluster varies a lot between knowledge bases, so fixed
+ * thresholds suit some corpora and not others. Pure, so it runs in the
+ * clustering worker.
+ *
+ * Key Features:
+ * - Silhouette or Davies–Bouldin as the objective
+ * - Min/max cluster size and cluster count constraints; when nothing
+ *   satisfies them, the least violating candidate wins
+ * - Sweeps run on a sample of large corpora, the winner on every note
+ *
+ * Main Entry Points:
+ * - tunePartitioning(): Sweep, pick and run the best configuration
+ */
+
+import {
+  ClusteringAlgorithm,
+  EmbeddingPartition,
+  NoteEmbedding,
+  PartitionConstraints,
+  SizeConstraints,
+  TuningMetric,
+} from "../types";
+import {
+  agglomerativeCuts,
+  constrainPartitions,
+  defaultMinClusterSize,
+  partitionEmbeddings,
+  PartitionOptions,
+} from "./clusteringAlgorithms";
+import {
+  createRandom,
+  partitionQuality,
+  sampleIndices,
+  usableEmbeddings,
+} from "./clusteringMetrics";
+import { ProgressCallback } from "./embeddingMath";
+
+// ============================================================================
+// Types & Configuration
+// ============================================================================
+
+export interface TuningOptions extends SizeConstraints {
+  algorithm: ClusteringAlgorithm;
+  metric?: TuningMetric;
+  seed?: number;
+  constraints?: PartitionConstraints; // Every candidate honours them
+}
+
+export interface TuningCandidate {
+  parameters: PartitionOptions;
+  clusterCount: number;
+  score: number; // Higher is better for either metric
+  violation: number; // 0 when every constraint holds
+}
+
+export interface TuningResult {
+  partitions: EmbeddingPartition[];
+  parameters: PartitionOptions;
+  metric: TuningMetric;
+  score: number;
+  withinConstraints: boolean;
+  candidates: TuningCandidate[];
+}
+
+const DEFAULT_SEED = 42;
+
+// Similarity thresholds 0.20, 0.25, ... 0.90
+const THRESHOLD_SWEEP = Array.from({ length: 15 }, (_, i) =>
+  Math.round((0.2 + i * 0.05) * 100) / 100
+);
+const K_SWEEP = [2, 3, 4, 5, 6, 7, 8, 10, 12, 15, 20, 25, 30, 40];
+// HDBSCAN minimum cluster sizes, as multiples of the smallest allowed size
+const MIN_SIZE_FACTORS = [1, 1.5, 2, 3, 4, 6];
+// Sweeps run on at most this many notes; the winner then runs on all of them
+const TUNING_SAMPLE = 1000;
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+/** Parameter values worth trying for `algorithm` on `noteCount` notes */
+const sweepFor = (
+  algorithm: ClusteringAlgorithm,
+  noteCount: number,
+  minClusterSize: number
+): PartitionOptions[] => {
+  switch (algorithm) {
+    case "threshold":
+      // Components below the size constraint stay out, as in the pipeline
+      return THRESHOLD_SWEEP.map((threshold) => ({ algorithm, threshold, minClusterSize: 1 }));
+    case "agglomerative":
+      return THRESHOLD_SWEEP.map((threshold) => ({ algorithm, threshold, minClusterSize }));
+    case "kmeans":
+      return K_SWEEP.filter((k) => k * minClusterSize <= noteCount).map((k) => ({
+        algorithm,
+        k,
+        minClusterSize,
+      }));
+    case "hdbscan": {
+      const sizes = MIN_SIZE_FACTORS.map((f) => Math.ceil(minClusterSize * f)).filter(
+        (size, i, all) => size * 2 <= noteCount && all.indexOf(size) === i
+      );
+      return sizes.map((size) => ({ algorithm, minClusterSize: size }));
+    }
+  }
+};
+
+/**
+ * How far a partitioning is from satisfying the constraints: notes outside
+ * the size bounds and notes left unassigned (as fractions of all notes),
+ * plus one per cluster above or below the allowed count
+ */
+const constraintViolation = (
+  partitions: EmbeddingPartition[],
+  noteCount: number,
+  scale: number,
+  constraints: SizeConstraints
+): number => {
+  const { minClusterSize = 1, maxClusterSize = Infinity } = constraints;
+  const { minClusters = 1, maxClusters = Infinity } = constraints;
+
+  let outside = 0;
+  let assigned = 0;
+  partitions.forEach((p) => {
+    const size = p.noteIds.length * scale;
+    outside += Math.max(0, minClusterSize - size) + Math.max(0, size - maxClusterSize);
+    assigned += p.noteIds.length;
+  });
+
+  const count = partitions.length;
+  return (
+    outside / (noteCount * scale) +
+    (noteCount - assigned) / noteCount +
+    Math.max(0, minClusters - count) +
+    Math.max(0, count - maxClusters)
+  );
+};
+
+const scoreFor = (
+  metric: TuningMetric,
+  embeddings: NoteEmbedding[],
+  partitions: EmbeddingPartition[],
+  seed: number
+): number => {
+  const quality = partitionQuality(embeddings, partitions, seed);
+  if (metric === "silhouette") return quality.silhouette;
+  // Davies–Bouldin is 0 for a single cluster, which is not a good partition
+  return quality.clusterCount < 2 ? -Infinity : -quality.daviesBouldin;
+};
+
+// ============================================================================
+// Tuning
+// ============================================================================
+
+/**
+ * Try every candidate parameter value for the algorithm, keep the one that
+ * satisfies the constraints with the best metric (or violates them least),
+ * and partition all notes with it
+ */
+export const tunePartitioning = (
+  embeddings: NoteEmbedding[],
+  options: TuningOptions,
+  onProgress?: ProgressCallback
+): TuningResult => {
+  const { algorithm, metric = "silhouette", seed = DEFAULT_SEED, constraints } = options;
+  const usable = usableEmbeddings(embeddings);
+  const minClusterSize = Math.max(
+    2,
+    options.minClusterSize ?? defaultMinClusterSize(usable.length)
+  );
+
+  // Sample large corpora; sizes found on the sample are scaled back up
+  const sample = sampleIndices(usable.length, TUNING_SAMPLE, createRandom(seed))
+    .sort((a, b) => a - b)
+    .map((i) => usable[i]);
+  const scale = usable.length / Math.max(1, sample.length);
+  const toSample = (parameters: PartitionOptions): PartitionOptions => ({
+    ...parameters,
+    seed,
+    constraints,
+    minClusterSize:
+      parameters.minClusterSize === undefined || parameters.minClusterSize <= 1
+        ? parameters.minClusterSize
+        : Math.max(2, Math.round(parameters.minClusterSize / scale)),
+  });
+
+  const sweep = sweepFor(algorithm, usable.length, minClusterSize);
+  if (sweep.length === 0) {
+    // Too few notes to sweep under the size constraint; use the defaults
+    const parameters: PartitionOptions = { algorithm, minClusterSize, seed };
+    const partitions = partitionEmbeddings(usable, { ...parameters, constraints });
+    return {
+      partitions,
+      parameters,
+      metric,
+      score: scoreFor(metric, usable, partitions, seed),
+      withinConstraints:
+        constraintViolation(partitions, usable.length, 1, options) === 0,
+      candidates: [],
+    };
+  }
+
+  // One dendrogram serves every agglomerative threshold
+  const samplePartitions =
+    algorithm === "agglomerative"
+      ? agglomerativeCuts(sample, sweep, toSample(sweep[0]), onProgress).map(
+          (partitions) => constrainPartitions(sample, partitions, constraints, seed)
+        )
+      : null;
+
+  const candidates: TuningCandidate[] = [];
+  const outcomes: EmbeddingPartition[][] = [];
+  sweep.forEach((parameters, i) => {
+    const partitions =
+      samplePartitions?.[i] ?? partitionEmbeddings(sample, toSample(parameters));
+    outcomes.push(partitions);
+    candidates.push({
+      parameters,
+      clusterCount: partitions.length,
+      score: scoreFor(metric, sample, partitions, seed),
+      violation: constraintViolation(partitions, sample.length, scale, options),
+    });
+    onProgress?.("tuning", i + 1, sweep.length);
+  });
+
+  // Least violation first, then best score; ties keep the earlier candidate
+  let best = 0;
+  candidates.forEach((candidate, i) => {
+    const current = candidates[best];
+    if (
+      candidate.violation < current.violation ||
+      (candidate.violation === current.violation && candidate.score > current.score)
+    ) {
+      best = i;
+    }
+  });
+
+  const winner = candidates[best];
+  const parameters = { ...winner.parameters, seed };
+  const partitions =
+    sample.length === usable.length
+      ? outcomes[best]
+      : partitionEmbeddings(usable, { ...parameters, constraints });
+
+  return {
+    partitions,
+    parameters,
+    metric,
+    score: winner.score,
+    withinConstraints: winner.violation === 0,
+    candidates,
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Clustering Worker
+ *
+ * Web Worker entry point: runs clusteringWorkerTasks.ts requests off the main
+ * thread and streams progress events back. Started by
+ * clusteringWorkerClient.ts; requests are handled one at a time in order.
+ */
+
+import {
+  runWorkerTask,
+  WorkerRequest,
+  WorkerResponse,
+} from "./clusteringWorkerTasks";
+
+// The DOM lib types `self` as Window, whose postMessage needs a target origin
+const ctx = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+ctx.onmessage = (event) => {
+  const { id, task } = event.data;
+  try {
+    const result = runWorkerTask(task, (progress) =>
+      ctx.postMessage({ id, type: "progress", progress })
+    );
+    ctx.postMessage({ id, type: "result", result });
+  } catch (e) {
+    ctx.postMessage({
+      id,
+      type: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+};
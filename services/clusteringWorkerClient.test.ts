@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ClusterNode, NoteEmbedding } from "../types";
+import { embeddingGuidedPartitioning } from "./embeddingMath";
+import {
+  onWorkerProgress,
+  partitionInWorker,
+  prepareGraphLayoutInWorker,
+  runInWorker,
+} from "./clusteringWorkerClient";
+import {
+  runWorkerTask,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerTask,
+} from "./clusteringWorkerTasks";
+
+// vitest has no Web Worker, so these exercise the in-process fallback, which
+// runs the same dispatcher as the worker
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+  chunks: [{ start: 0, end: 1, vector }],
+});
+
+const EMBEDDINGS = [
+  emb("a1", [1, 0, 0]),
+  emb("a2", [0.95, 0.05, 0]),
+  emb("b1", [0, 1, 0]),
+  emb("b2", [0.05, 0.95, 0]),
+];
+
+const PARTITION_TASK: WorkerTask = {
+  type: "partition",
+  embeddings: EMBEDDINGS,
+  options: { algorithm: "threshold", threshold: 0.9, minClusterSize: 1 },
+};
+
+describe("clustering worker tasks", () => {
+  it("partitions like embeddingGuidedPartitioning and reports progress", async () => {
+    const events: WorkerProgress[] = [];
+    const global: WorkerProgress[] = [];
+    const unsubscribe = onWorkerProgress((p) => global.push(p));
+
+    const partitions = await partitionInWorker(
+      EMBEDDINGS,
+      { algorithm: "threshold", threshold: 0.9, minClusterSize: 1 },
+      { onProgress: (p) => events.push(p) }
+    );
+    unsubscribe();
+
+    expect(partitions).toEqual(embeddingGuidedPartitioning(EMBEDDINGS, 0.9, 1));
+    expect(partitions.map((p) => p.noteIds.sort())).toEqual([
+      ["a1", "a2"],
+      ["b1", "b2"],
+    ]);
+    expect(events.map((e) => e.stage)).toContain("pairs");
+    expect(events.every((e) => e.task === "partition")).toBe(true);
+    const lastPairs = events.filter((e) => e.stage === "pairs").pop()!;
+    expect(lastPairs.completed).toBe(lastPairs.total);
+    expect(global).toEqual(events);
+  });
+
+  it("flattens clusters into graph nodes with initial positions", async () => {
+    const clusters: ClusterNode[] = [
+      {
+        id: "c1",
+        name: "Cooking",
+        type: "cluster",
+        children: [
+          { id: "n1", name: "Bread", type: "note", noteId: "n1" },
+          {
+            id: "c2",
+            name: "Baking",
+            type: "cluster",
+            children: [{ id: "n2", name: "Cake", type: "note", noteId: "n2" }],
+          },
+        ],
+      },
+    ];
+
+    const { nodes, links } = await prepareGraphLayoutInWorker(clusters, 400, 300);
+
+    expect(nodes.map((n) => n.type)).toEqual(["root", "cluster", "note", "subcluster", "note"]);
+    expect(links).toHaveLength(4);
+    expect(nodes.map((n) => n.clusterId)).toEqual([undefined, "c1", undefined, "c2", undefined]);
+    expect(nodes[0]).toMatchObject({ x: 200, y: 150 });
+    nodes.forEach((n) => {
+      expect(Number.isFinite(n.x)).toBe(true);
+      expect(Number.isFinite(n.y)).toBe(true);
+    });
+  });
+
+  it("rejects calls whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      runInWorker(PARTITION_TASK, { signal: controller.signal })
+    ).rejects.toThrow(/cancelled/);
+  });
+});
+
+describe("clustering worker calls", () => {
+  // Answers every request on the next tick, like the real worker would
+  class FakeWorker {
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    onerror: ((event: { message: string }) => void) | null = null;
+    terminated = false;
+
+    postMessage({ id, task }: WorkerRequest) {
+      setTimeout(() => {
+        if (this.terminated) return;
+        this.onmessage?.({ data: { id, type: "result", result: runWorkerTask(task) } });
+      });
+    }
+
+    terminate() {
+      this.terminated = true;
+    }
+  }
+
+  // Crashes on every request, e.g. when it runs out of memory
+  class CrashingWorker extends FakeWorker {
+    postMessage() {
+      setTimeout(() => this.onerror?.({ message: "out of memory" }));
+    }
+  }
+
+  const loadClient = async (WorkerClass: typeof FakeWorker = FakeWorker) => {
+    vi.stubGlobal("Worker", WorkerClass);
+    vi.resetModules();
+    return import("./clusteringWorkerClient");
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("stops listening to the signal once a call settles", async () => {
+    const client = await loadClient();
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const partitions = await client.runInWorker(PARTITION_TASK, {
+      signal: controller.signal,
+    });
+
+    expect(partitions).toHaveLength(2);
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+
+  it("rejects a running call when its signal is aborted", async () => {
+    const client = await loadClient();
+    const controller = new AbortController();
+
+    const call = client.runInWorker(PARTITION_TASK, { signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toThrow(/cancelled/);
+  });
+
+  it("runs the calls of a crashed worker on the main thread", async () => {
+    const client = await loadClient(CrashingWorker);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const partitions = await client.runInWorker(PARTITION_TASK);
+
+    expect(partitions).toEqual(embeddingGuidedPartitioning(EMBEDDINGS, 0.9, 1));
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Clustering Worker Client
+ *
+ * Main-thread side of the clustering worker. Heavy embedding math
+ * (partitioning with centroids, tuning, quality metrics) and graph layout
+ * preprocessing are posted to a single lazily started Web Worker so the
+ * editor stays responsive while a large knowledge base is re-clustered.
+ *
+ * Key Features:
+ * - Typed request/response protocol (clusteringWorkerTasks.ts)
+ * - Progress events per call and for global subscribers (status bar)
+ * - Cancellation via AbortSignal (terminates and restarts the worker)
+ * - In-process fallback where Web Workers are unavailable, e.g. in tests,
+ *   and for the calls in flight when the worker crashes
+ *
+ * Main Entry Points:
+ * - runInWorker(): Run any worker task
+ * - partitionInWorker(): Embedding partitioning with centroids
+ * - tunePartitionInWorker(): Auto-tuned partitioning (parameter sweep)
+ * - prepareGraphLayoutInWorker(): D3 nodes/links for ClusterGraph
+ * - evaluateClustersInWorker(): Quality report for a cluster tree
+ * - onWorkerProgress(): Subscribe to progress of every worker task
+ */
+
+import {
+  ClusteringAlgorithm,
+  ClusteringReport,
+  ClusterNode,
+  EmbeddingPartition,
+  NoteEmbedding,
+} from "../types";
+import { PartitionOptions } from "./clusteringAlgorithms";
+import { TuningOptions, TuningResult } from "./clusteringTuning";
+import {
+  runWorkerTask,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTask,
+  WorkerTaskResult,
+  WorkerTaskResults,
+} from "./clusteringWorkerTasks";
+import { GraphLayout } from "./graphLayout";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkerCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+type PendingCall = {
+  task: WorkerTask;
+  resolve: (result: WorkerTaskResults[keyof WorkerTaskResults]) => void;
+  reject: (error: Error) => void;
+  emit: (progress: WorkerProgress) => void;
+};
+
+// ============================================================================
+// Worker Lifecycle
+// ============================================================================
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingCall>();
+const progressListeners = new Set<(progress: WorkerProgress) => void>();
+
+/** Drop the worker and return the calls in flight; the next call starts a new one */
+const dropWorker = (): PendingCall[] => {
+  worker?.terminate();
+  worker = null;
+  const calls = Array.from(pending.values());
+  pending.clear();
+  return calls;
+};
+
+/** Reject every in-flight call and drop the worker */
+const resetWorker = (error: Error) =>
+  dropWorker().forEach((call) => call.reject(error));
+
+/** Run the calls of a crashed worker on the main thread instead */
+const recoverFromCrash = () =>
+  dropWorker().forEach((call) => {
+    try {
+      call.resolve(runWorkerTask(call.task, call.emit));
+    } catch (e) {
+      call.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+  });
+
+const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+  const message = event.data;
+  const call = pending.get(message.id);
+  if (!call) return; // Cancelled meanwhile
+
+  switch (message.type) {
+    case "progress":
+      call.emit(message.progress);
+      break;
+    case "result":
+      pending.delete(message.id);
+      call.resolve(message.result);
+      break;
+    case "error":
+      pending.delete(message.id);
+      call.reject(new Error(message.message));
+      break;
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (workerUnavailable || typeof Worker === "undefined") return null;
+
+  try {
+    worker = new Worker(new URL("./clusteringWorker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      console.error(
+        "Clustering worker crashed, computing on the main thread:",
+        event.message
+      );
+      recoverFromCrash();
+    };
+    return worker;
+  } catch (e) {
+    console.warn("Clustering worker unavailable, computing on the main thread:", e);
+    workerUnavailable = true;
+    return null;
+  }
+};
+
+const abortError = () =>
+  new DOMException("Clustering task was cancelled", "AbortError");
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Subscribe to progress of every worker task; returns an unsubscribe function */
+export const onWorkerProgress = (
+  listener: (progress: WorkerProgress) => void
+): (() => void) => {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+};
+
+/**
+ * Run a task in the clustering worker (or in-process as a fallback).
+ * Aborting rejects this call with an AbortError and restarts the worker,
+ * which also cancels any other call still running in it.
+ */
+export const runInWorker = <T extends WorkerTask>(
+  task: T,
+  options: WorkerCallOptions = {}
+): Promise<WorkerTaskResult<T>> => {
+  const { signal } = options;
+  const emit = (progress: WorkerProgress) => {
+    options.onProgress?.(progress);
+    progressListeners.forEach((listener) => listener(progress));
+  };
+
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const target = getWorker();
+  if (!target) {
+    return new Promise((resolve) => resolve(runWorkerTask(task, emit)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const onAbort = () => {
+      if (pending.has(id)) resetWorker(abortError());
+    };
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+    pending.set(id, {
+      task,
+      // The worker answers each request with the result of its task
+      resolve: (result) => {
+        settle();
+        resolve(result as WorkerTaskResult<T>);
+      },
+      reject: (error) => {
+        settle();
+        reject(error);
+      },
+      emit,
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const request: WorkerRequest = { id, task };
+    target.postMessage(request);
+  });
+};
+
+// Chunk vectors are not needed for note-level math; skip cloning them
+const withoutChunks = (embeddings: NoteEmbedding[]): NoteEmbedding[] =>
+  embeddings.map(({ chunks: _chunks, ...embedding }) => embedding);
+
+export const partitionInWorker = (
+  embeddings: NoteEmbedding[],
+  partitionOptions: PartitionOptions,
+  options?: WorkerCallOptions
+): Promise<EmbeddingPartition[]> =>
+  runInWorker(
+    {
+      type: "partition",
+      embeddings: withoutChunks(embeddings),
+      options: partitionOptions,
+    },
+    options
+  );
+
+export const tunePartitionInWorker = (
+  embeddings: NoteEmbedding[],
+  tuningOptions: TuningOptions,
+  options?: WorkerCallOptions
+): Promise<TuningResult> =>
+  runInWorker(
+    { type: "tune", embeddings: withoutChunks(embeddings), options: tuningOptions },
+    options
+  );
+
+export const prepareGraphLayoutInWorker = (
+  clusters: ClusterNode[],
+  width: number,
+  height: number,
+  options?: WorkerCallOptions
+): Promise<GraphLayout> =>
+  runInWorker({ type: "graphLayout", clusters, width, height }, options);
+
+export const evaluateClustersInWorker = (
+  clusters: ClusterNode[],
+  embeddings: NoteEmbedding[],
+  algorithm?: ClusteringAlgorithm,
+  options?: WorkerCallOptions
+): Promise<ClusteringReport> =>
+  runInWorker(
+    { type: "evaluate", clusters, embeddings: withoutChunks(embeddings), algorithm },
+    options
+  );
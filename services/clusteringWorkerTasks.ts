@@ -0,0 +1,101 @@
+/**
+ * Clustering Worker Protocol
+ *
+ * Typed messages between the main thread (clusteringWorkerClient.ts) and the
+ * clustering worker (clusteringWorker.ts), plus the task dispatcher both of
+ * them use: the worker runs it on every request, and the client runs it
+ * in-process where Web Workers are unavailable (tests, old browsers).
+ *
+ * Tasks:
+ * - partition:   partitionEmbeddings() with the selected algorithm, including
+ *                partition centroids
+ * - graphLayout: ClusterNode tree → D3 nodes/links with initial positions
+ * - evaluate:    Quality report for a ClusterNode tree (clusteringMetrics.ts)
+ * - tune:        tunePartitioning() parameter sweep (clusteringTuning.ts)
+ */
+
+import {
+  ClusteringAlgorithm,
+  ClusteringReport,
+  ClusterNode,
+  EmbeddingPartition,
+  NoteEmbedding,
+} from "../types";
+import { partitionEmbeddings, PartitionOptions } from "./clusteringAlgorithms";
+import { evaluateClusters } from "./clusteringMetrics";
+import { TuningOptions, TuningResult, tunePartitioning } from "./clusteringTuning";
+import { GraphLayout, prepareGraphLayout } from "./graphLayout";
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export type WorkerTask =
+  | { type: "partition"; embeddings: NoteEmbedding[]; options: PartitionOptions }
+  | { type: "graphLayout"; clusters: ClusterNode[]; width: number; height: number }
+  | {
+      type: "evaluate";
+      clusters: ClusterNode[];
+      embeddings: NoteEmbedding[];
+      algorithm?: ClusteringAlgorithm;
+    }
+  | { type: "tune"; embeddings: NoteEmbedding[]; options: TuningOptions };
+
+export interface WorkerTaskResults {
+  partition: EmbeddingPartition[];
+  graphLayout: GraphLayout;
+  evaluate: ClusteringReport;
+  tune: TuningResult;
+}
+
+export type WorkerTaskResult<T extends WorkerTask> = WorkerTaskResults[T["type"]];
+
+export interface WorkerProgress {
+  task: WorkerTask["type"];
+  stage: string;
+  completed: number;
+  total: number;
+}
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: WorkerProgress }
+  | { id: number; type: "result"; result: WorkerTaskResults[keyof WorkerTaskResults] }
+  | { id: number; type: "error"; message: string };
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+export const runWorkerTask = <T extends WorkerTask>(
+  task: T,
+  onProgress: (progress: WorkerProgress) => void = () => {}
+): WorkerTaskResult<T> => {
+  const report = (stage: string, completed: number, total: number) =>
+    onProgress({ task: task.type, stage, completed, total });
+
+  // Each case returns the result type for its own task
+  const run = (): WorkerTaskResults[keyof WorkerTaskResults] => {
+    switch (task.type) {
+      case "partition":
+        return partitionEmbeddings(task.embeddings, task.options, report);
+
+      case "graphLayout":
+        return prepareGraphLayout(task.clusters, task.width, task.height);
+
+      case "evaluate":
+        return evaluateClusters(task.clusters, task.embeddings, {
+          algorithm: task.algorithm,
+        });
+
+      case "tune":
+        return tunePartitioning(task.embeddings, task.options, report);
+    }
+  };
+
+  return run() as WorkerTaskResult<T>;
+};
@@ -0,0 +1,324 @@
+/**
+ * Embedding Math
+ *
+ * Pure vector computations over note embeddings: cosine similarity,
+ * centroids, similar-pair search on the ANN index and embedding-guided
+ * partitioning (scored by clusteringMetrics.ts). Nothing here touches
+ * storage, the network or the DOM, so the clustering worker
+ * (clusteringWorker.ts) runs the same code off the main thread.
+ * embeddingService re-exports these for existing callers.
+ *
+ * Main Entry Points:
+ * - findSimilarPairs(): Find pairs of similar notes
+ * - embeddingGuidedPartitioning(): Cluster notes by embedding similarity
+ * - getAnnIndex(): Nearest-neighbour index over a set of embeddings
+ */
+
+import { NoteEmbedding, SimilarityPair, EmbeddingPartition } from "../types";
+import { AnnIndex, buildAnnIndex } from "./annIndex";
+import { scorePartitions } from "./clusteringMetrics";
+
+// ============================================================================
+// Progress Reporting
+// ============================================================================
+
+/** Reports work done in a long computation, e.g. to a progress bar */
+export type ProgressCallback = (
+  stage: string,
+  completed: number,
+  total: number
+) => void;
+
+// Emit roughly this many progress events per stage
+const PROGRESS_STEPS = 50;
+
+export const throttledProgress = (
+  onProgress: ProgressCallback | undefined,
+  stage: string,
+  total: number
+) => {
+  const every = Math.max(1, Math.floor(total / PROGRESS_STEPS));
+  return (completed: number) => {
+    if (onProgress && (completed % every === 0 || completed === total)) {
+      onProgress(stage, completed, total);
+    }
+  };
+};
+
+// --- Similarity Computation ---
+
+/**
+ * Compute cosine similarity between two vectors
+ */
+export const cosineSimilarity = (vec1: number[], vec2: number[]): number => {
+  // Different lengths mean different embedding models: not comparable
+  if (vec1.length === 0 || vec1.length !== vec2.length) return 0;
+
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < vec1.length; i++) {
+    dotProduct += vec1[i] * vec2[i];
+    norm1 += vec1[i] * vec1[i];
+    norm2 += vec2[i] * vec2[i];
+  }
+
+  norm1 = Math.sqrt(norm1);
+  norm2 = Math.sqrt(norm2);
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+  return dotProduct / (norm1 * norm2);
+};
+
+/**
+ * Compute centroid (average) of embedding vectors
+ */
+export const computeCentroid = (vectors: number[][]): number[] => {
+  if (vectors.length === 0) return [];
+
+  const dim = vectors[0].length;
+  const centroid = new Array(dim).fill(0);
+
+  vectors.forEach((vec) => {
+    for (let i = 0; i < dim; i++) {
+      centroid[i] += vec[i];
+    }
+  });
+
+  for (let i = 0; i < dim; i++) {
+    centroid[i] /= vectors.length;
+  }
+
+  return centroid;
+};
+
+// --- Nearest-Neighbour Index ---
+
+// Index over every embedding seen for the active model, kept across calls
+let sharedAnnIndex: AnnIndex | null = null;
+
+// Embeddings are re-read from IndexedDB on every call, so identity is not enough
+const isSameEmbedding = (a: NoteEmbedding, b: NoteEmbedding): boolean =>
+  a === b ||
+  (a.contentHash !== undefined &&
+    a.contentHash === b.contentHash &&
+    a.timestamp === b.timestamp);
+
+/**
+ * ANN index over exactly `embeddings` (all from one model). The shared index
+ * is updated in place and returned when it holds the same notes, so repeated
+ * queries over the corpus only pay for new or re-embedded notes; subsets get
+ * an index of their own.
+ */
+export const getAnnIndex = (embeddings: NoteEmbedding[]): AnnIndex => {
+  const first = embeddings[0];
+  if (!first) return buildAnnIndex();
+
+  if (
+    !sharedAnnIndex ||
+    (sharedAnnIndex.model !== null &&
+      (sharedAnnIndex.model !== first.modelUsed ||
+        sharedAnnIndex.dimensions !== first.vector.length))
+  ) {
+    sharedAnnIndex = buildAnnIndex();
+  }
+
+  const index = sharedAnnIndex;
+  embeddings.forEach((embedding) => {
+    const current = index.get(embedding.noteId);
+    if (!current || !isSameEmbedding(current, embedding)) index.add(embedding);
+  });
+
+  return index.size === embeddings.length ? index : buildAnnIndex(embeddings);
+};
+
+/** Drop notes that no longer exist from the shared index */
+export const pruneAnnIndex = (liveIds: Set<string>): void => {
+  sharedAnnIndex
+    ?.noteIds()
+    .filter((id) => !liveIds.has(id))
+    .forEach((id) => sharedAnnIndex!.remove(id));
+};
+
+/**
+ * Find all high-similarity pairs using threshold
+ * Each embedding runs one radius query against the ANN index of its model
+ * @param embeddings Embeddings to compare
+ * @param threshold Similarity threshold (0-1)
+ * @param onProgress Called as embeddings are processed (stage "pairs")
+ * @returns Pairs of similar notes
+ */
+export const findSimilarPairs = (
+  embeddings: NoteEmbedding[],
+  threshold: number = 0.7,
+  onProgress?: ProgressCallback
+): SimilarityPair[] => {
+  const pairs: SimilarityPair[] = [];
+  const report = throttledProgress(onProgress, "pairs", embeddings.length);
+  let processed = 0;
+
+  // Vectors from different models are never compared
+  const byModel = new Map<string, NoteEmbedding[]>();
+  embeddings.forEach((e) => {
+    const key = `${e.modelUsed}:${e.vector.length}`;
+    if (!byModel.has(key)) byModel.set(key, []);
+    byModel.get(key)!.push(e);
+  });
+
+  byModel.forEach((group) => {
+    const index = getAnnIndex(group);
+    const position = new Map(group.map((e, i) => [e.noteId, i] as const));
+
+    group.forEach((embedding, i) => {
+      // Only later embeddings, so each pair is reported once
+      index
+        .radius(embedding.vector, threshold, {
+          filter: (id) => (position.get(id) ?? -1) > i,
+        })
+        .forEach((neighbour) => {
+          pairs.push({
+            note1Id: embedding.noteId,
+            note2Id: neighbour.noteId,
+            similarity: neighbour.similarity,
+          });
+        });
+      report(++processed);
+    });
+  });
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+};
+
+// --- Embedding-Guided Partitioning (Step 2.2) ---
+
+/**
+ * Simple clustering using cosine similarity (DBSCAN-like approach)
+ * @param embeddings Note embeddings
+ * @param similarityThreshold Threshold for grouping (0-1)
+ * @param minClusterSize Minimum notes per cluster
+ * @param onProgress Called during pair search and component building
+ * @returns Partitions (clusters) based on embeddings
+ */
+export const embeddingGuidedPartitioning = (
+  embeddings: NoteEmbedding[],
+  similarityThreshold: number = 0.7,
+  minClusterSize: number = 1,
+  onProgress?: ProgressCallback
+): EmbeddingPartition[] => {
+  const partitions: EmbeddingPartition[] = [];
+  const assignedNotes = new Set<string>(); // Notes assigned to a valid cluster
+
+  // Find similar pairs
+  const pairs = findSimilarPairs(embeddings, similarityThreshold, onProgress);
+
+  console.log(
+    `Found ${pairs.length} similar pairs at threshold ${similarityThreshold}`
+  );
+  if (pairs.length > 0) {
+    console.log(
+      `Top 5 similarities:`,
+      pairs
+        .slice(0, 5)
+        .map(
+          (p) =>
+            `${p.note1Id.slice(0, 8)}-${p.note2Id.slice(
+              0,
+              8
+            )}: ${p.similarity.toFixed(3)}`
+        )
+    );
+  }
+
+  // Build adjacency graph
+  const graph = new Map<string, Set<string>>();
+  embeddings.forEach((e) => {
+    graph.set(e.noteId, new Set());
+  });
+
+  pairs.forEach((pair) => {
+    graph.get(pair.note1Id)?.add(pair.note2Id);
+    graph.get(pair.note2Id)?.add(pair.note1Id);
+  });
+
+  // Cluster using connected components (BFS)
+  const findConnectedComponent = (startId: string): Set<string> => {
+    const component = new Set<string>();
+    const queue = [startId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (component.has(current)) continue;
+
+      component.add(current);
+
+      const neighbors = graph.get(current) || new Set();
+      neighbors.forEach((neighbor) => {
+        if (!component.has(neighbor)) {
+          queue.push(neighbor);
+        }
+      });
+    }
+
+    return component;
+  };
+
+  // Find all connected components (clusters)
+  const embeddingById = new Map(embeddings.map((e) => [e.noteId, e] as const));
+  const visited = new Set<string>();
+  const reportComponents = throttledProgress(
+    onProgress,
+    "components",
+    embeddings.length
+  );
+  embeddings.forEach((e) => {
+    if (!visited.has(e.noteId)) {
+      const component = findConnectedComponent(e.noteId);
+
+      // Mark all notes in this component as visited
+      component.forEach((id) => visited.add(id));
+      reportComponents(visited.size);
+
+      // Only create partition if it meets minimum size
+      if (component.size >= minClusterSize) {
+        const clusterEmbeddings = Array.from(component)
+          .map((id) => embeddingById.get(id))
+          .filter((e): e is NoteEmbedding => !!e)
+          .map((e) => e.vector);
+
+        partitions.push({
+          id: `partition-${partitions.length}`,
+          noteIds: Array.from(component),
+          centroid: computeCentroid(clusterEmbeddings),
+        });
+
+        // Mark as assigned
+        component.forEach((id) => assignedNotes.add(id));
+      }
+    }
+  });
+
+  // IMPORTANT: Handle unassigned notes (singletons and small groups)
+  // These notes didn't meet minClusterSize but should still be clustered
+  const unassigned = embeddings.filter((e) => !assignedNotes.has(e.noteId));
+
+  if (unassigned.length > 0) {
+    console.log(
+      `⚠️ ${unassigned.length} notes not assigned to clusters, will be grouped in Phase 3`
+    );
+
+    // DON'T create individual singleton partitions - they'll be handled in clusteringService
+    // where unclustered notes get added to an "Additional Topics" cluster
+    // This is better than having many 1-note clusters
+  }
+
+  console.log(`Embedding-guided partitions created:`);
+  partitions.forEach((p, idx) => {
+    console.log(`  Partition ${idx}: ${p.noteIds.length} notes`);
+  });
+  console.log(
+    `Total: ${partitions.length} partitions covering ${assignedNotes.size}/${embeddings.length} notes`
+  );
+
+  return scorePartitions(embeddings, partitions);
+};
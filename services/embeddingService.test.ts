@@ -0,0 +1,400 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  getEmbeddingModels,
+  getEmbeddings,
+  saveEmbeddings,
+} from "./storageService";
+import { hashNoteContent } from "./clusteringService";
+import { Note, NoteEmbedding } from "../types";
+import {
+  chunkNoteContent,
+  cosineSimilarity,
+  embeddingGuidedPartitioning,
+  findSimilarPairs,
+  generateEmbeddingsBatch,
+  getEmbeddingFailures,
+  getOrGenerateEmbeddings,
+  migrateEmbeddings,
+  needsEmbeddingMigration,
+  pruneOrphanedEmbeddings,
+  retryFailedEmbeddings,
+} from "./embeddingService";
+import { getLLMProvider, onLLMProviderChange, setLLMProvider } from "./llmProvider";
+import { EmbeddingMigrationProgress } from "../types";
+
+const emb = (noteId: string, vector: number[]): NoteEmbedding => ({
+  noteId,
+  vector,
+  timestamp: 0,
+  modelUsed: "test",
+  textLength: 0,
+});
+
+// Two tight groups (a*, b*) plus an outlier pointing elsewhere
+const EMBEDDINGS = [
+  emb("a1", [1, 0, 0]),
+  emb("a2", [0.95, 0.05, 0]),
+  emb("a3", [0.9, 0.1, 0]),
+  emb("b1", [0, 1, 0]),
+  emb("b2", [0.05, 0.95, 0]),
+  emb("c1", [0, 0, 1]),
+];
+
+const sortedGroups = (groups: string[][]) =>
+  groups.map((g) => [...g].sort()).sort((x, y) => x[0].localeCompare(y[0]));
+
+describe("findSimilarPairs", () => {
+  it("returns only pairs at or above the threshold, most similar first", () => {
+    const pairs = findSimilarPairs(EMBEDDINGS, 0.9);
+
+    expect(pairs.length).toBe(4); // a1-a2, a1-a3, a2-a3, b1-b2
+    pairs.forEach((p) => expect(p.similarity).toBeGreaterThanOrEqual(0.9));
+    const sims = pairs.map((p) => p.similarity);
+    expect(sims).toEqual([...sims].sort((a, b) => b - a));
+    expect(
+      pairs.some((p) => p.note1Id.startsWith("a") !== p.note2Id.startsWith("a"))
+    ).toBe(false);
+  });
+
+  it("treats zero vectors as dissimilar", () => {
+    const pairs = findSimilarPairs(
+      [emb("z", [0, 0, 0]), emb("a", [1, 0, 0])],
+      0
+    );
+    expect(pairs).toEqual([{ note1Id: "z", note2Id: "a", similarity: 0 }]);
+  });
+
+  it("never pairs vectors from different embedding models", () => {
+    const pairs = findSimilarPairs(
+      [emb("a", [1, 0]), { ...emb("b", [1, 0]), modelUsed: "other" }],
+      -1
+    );
+    expect(pairs).toEqual([]);
+  });
+
+  it("lists each unordered pair once", () => {
+    const pairs = findSimilarPairs(EMBEDDINGS, -1);
+    expect(pairs).toHaveLength((EMBEDDINGS.length * (EMBEDDINGS.length - 1)) / 2);
+  });
+});
+
+describe("embeddingGuidedPartitioning", () => {
+  it("groups notes into connected components above the threshold", () => {
+    const partitions = embeddingGuidedPartitioning(EMBEDDINGS, 0.9, 1);
+
+    expect(sortedGroups(partitions.map((p) => p.noteIds))).toEqual([
+      ["a1", "a2", "a3"],
+      ["b1", "b2"],
+      ["c1"],
+    ]);
+    expect(partitions.map((p) => p.id)).toEqual([
+      "partition-0",
+      "partition-1",
+      "partition-2",
+    ]);
+  });
+
+  it("chains notes transitively through intermediate neighbours", () => {
+    // x1~x2 and x2~x3 are similar, x1~x3 is not
+    const chain = [
+      emb("x1", [1, 0]),
+      emb("x2", [Math.cos(0.4), Math.sin(0.4)]),
+      emb("x3", [Math.cos(0.8), Math.sin(0.8)]),
+    ];
+    const partitions = embeddingGuidedPartitioning(chain, 0.9, 1);
+    expect(partitions).toHaveLength(1);
+    expect([...partitions[0].noteIds].sort()).toEqual(["x1", "x2", "x3"]);
+  });
+
+  it("leaves components below minClusterSize unassigned", () => {
+    const partitions = embeddingGuidedPartitioning(EMBEDDINGS, 0.9, 2);
+    expect(sortedGroups(partitions.map((p) => p.noteIds))).toEqual([
+      ["a1", "a2", "a3"],
+      ["b1", "b2"],
+    ]);
+  });
+
+  it("computes the centroid of each partition", () => {
+    const partitions = embeddingGuidedPartitioning(EMBEDDINGS, 0.9, 2);
+    const b = partitions.find((p) => p.noteIds.includes("b1"))!;
+    expect(b.centroid).toHaveLength(3);
+    expect(b.centroid![0]).toBeCloseTo(0.025);
+    expect(b.centroid![1]).toBeCloseTo(0.975);
+    expect(b.centroid![2]).toBeCloseTo(0);
+  });
+});
+
+describe("chunkNoteContent", () => {
+  const slices = (content: string, size?: number, overlap?: number) =>
+    chunkNoteContent(content, size, overlap).map((c) =>
+      content.slice(c.start, c.end)
+    );
+
+  it("keeps a short note in one chunk", () => {
+    expect(chunkNoteContent("Just a line.")).toEqual([
+      { start: 0, end: 12, heading: undefined },
+    ]);
+  });
+
+  it("starts a new chunk at a heading once the size limit would be exceeded", () => {
+    const content = "# One\nalpha beta\n# Two\ngamma delta\n";
+    expect(slices(content, 1000)).toEqual([content]);
+
+    const chunks = chunkNoteContent(content, 20);
+    expect(chunks.map((c) => c.heading)).toEqual(["One", "Two"]);
+    expect(content.slice(chunks[1].start, chunks[1].end)).toBe("# Two\ngamma delta\n");
+  });
+
+  it("splits long sections into overlapping windows at word boundaries", () => {
+    const content = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkNoteContent(content, 100, 20);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+    chunks.slice(1).forEach((chunk, i) => {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(100);
+      expect(chunk.start).toBeLessThan(chunks[i].end); // overlaps its predecessor
+    });
+    expect(content[chunks[0].end]).toBe(" ");
+  });
+});
+
+describe("generateEmbeddingsBatch", () => {
+  it("embeds every chunk and pools them into a unit note vector", async () => {
+    const note: Note = {
+      id: "long",
+      title: "Kitchen and Cluster Notes",
+      content: `# Bread\n${"Sourdough starter hydration flour. ".repeat(20)}\n# Kubernetes\n${"Pods schedule containers onto nodes. ".repeat(20)}`,
+      tags: [],
+      createdAt: "2024-01-01",
+      folder: "/test",
+    };
+
+    const [embedding] = await generateEmbeddingsBatch([note]);
+
+    expect(embedding.chunks!.map((c) => c.heading)).toEqual(["Bread", "Kubernetes"]);
+    const norm = Math.sqrt(embedding.vector.reduce((s, v) => s + v * v, 0));
+    expect(norm).toBeCloseTo(1);
+    embedding.chunks!.forEach((chunk) =>
+      expect(cosineSimilarity(embedding.vector, chunk.vector)).toBeGreaterThan(0.3)
+    );
+    expect(embedding.textLength).toBe(note.title.length + 1 + note.content.length);
+  });
+
+  it("reports notes whose embedding failed until a retry succeeds", async () => {
+    const notes: Note[] = ["ok", "broken"].map((id) => ({
+      id,
+      title: `Note ${id}`,
+      content: `Content of ${id}`,
+      tags: [],
+      createdAt: "2024-01-01",
+      folder: "/test",
+    }));
+    const provider = getLLMProvider();
+    const original = provider.embed.bind(provider);
+    const spy = vi
+      .spyOn(provider, "embed")
+      .mockImplementation(async (text, options) => {
+        if (text.startsWith("Note broken")) throw new Error("quota exhausted");
+        return original(text, options);
+      });
+
+    try {
+      const embeddings = await generateEmbeddingsBatch(notes);
+      expect(embeddings.map((e) => e.noteId)).toEqual(["ok"]);
+      expect(getEmbeddingFailures()).toMatchObject([
+        { noteId: "broken", error: "quota exhausted", attempts: 1 },
+      ]);
+
+      spy.mockRestore();
+      const retried = await retryFailedEmbeddings(notes);
+      expect(retried.map((e) => e.noteId)).toEqual(["broken"]);
+      expect(getEmbeddingFailures()).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("rejects on abort without recording failures", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const note: Note = {
+      id: "aborted",
+      title: "Aborted",
+      content: "Never embedded",
+      tags: [],
+      createdAt: "2024-01-01",
+      folder: "/test",
+    };
+    const provider = getLLMProvider();
+    const spy = vi
+      .spyOn(provider, "embed")
+      .mockRejectedValue(new DOMException("Aborted", "AbortError"));
+
+    try {
+      await expect(
+        generateEmbeddingsBatch([note], { signal: controller.signal })
+      ).rejects.toThrow();
+      expect(getEmbeddingFailures()).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
+
+describe("getOrGenerateEmbeddings", () => {
+  const note = (id: string): Note => ({
+    id,
+    title: `Legacy ${id}`,
+    content: "Some content",
+    tags: [],
+    createdAt: "2024-01-01",
+    folder: "/test",
+  });
+
+  it("migrates the legacy LocalStorage index into IndexedDB", async () => {
+    const legacy = {
+      noteId: "legacy-1",
+      vector: [1, 0],
+      timestamp: Date.now(),
+      modelUsed: "mock-embedding-bow-256",
+      textLength: 12,
+      contentHash: hashNoteContent(note("legacy-1")),
+      chunks: [{ start: 0, end: 12, vector: [1, 0] }],
+    };
+    localStorage.setItem(
+      "embedding_index_v1",
+      JSON.stringify({ embeddings: [legacy], lastUpdated: Date.now(), modelVersion: legacy.modelUsed, totalNotes: 1 })
+    );
+
+    const [embedding] = await getOrGenerateEmbeddings([note("legacy-1")]);
+
+    expect(embedding.vector).toEqual([1, 0]); // served from the migrated cache
+    expect(localStorage.getItem("embedding_index_v1")).toBeNull();
+    expect(await getEmbeddings(["legacy-1"], legacy.modelUsed)).toHaveLength(1);
+  });
+
+  it("generates and stores only missing embeddings", async () => {
+    const first = await getOrGenerateEmbeddings([note("fresh-1")]);
+    const both = await getOrGenerateEmbeddings([note("fresh-1"), note("fresh-2")]);
+
+    expect(both.find((e) => e.noteId === "fresh-1")).toEqual(first[0]);
+    expect(await getEmbeddings(["fresh-1", "fresh-2"], first[0].modelUsed)).toHaveLength(2);
+  });
+
+  it("regenerates only notes whose content hash changed", async () => {
+    const [a, b] = await getOrGenerateEmbeddings([note("hash-a"), note("hash-b")]);
+    expect(a.contentHash).toBe(hashNoteContent(note("hash-a")));
+
+    const editedB = { ...note("hash-b"), content: "Rewritten about something else" };
+    const after = await getOrGenerateEmbeddings([note("hash-a"), editedB]);
+
+    expect(after.find((e) => e.noteId === "hash-a")).toEqual(a);
+    const newB = after.find((e) => e.noteId === "hash-b")!;
+    expect(newB.contentHash).toBe(hashNoteContent(editedB));
+    expect(newB.vector).not.toEqual(b.vector);
+  });
+
+  it("prunes embeddings of notes that no longer exist", async () => {
+    const [kept] = await getOrGenerateEmbeddings([note("live")]);
+    await saveEmbeddings([{ ...kept, noteId: "gone" }, { ...kept, noteId: "gone", modelUsed: "other-model" }]);
+
+    await pruneOrphanedEmbeddings([note("live")]);
+
+    expect(await getEmbeddings(["gone"], kept.modelUsed)).toEqual([]);
+    expect(await getEmbeddings(["gone"], "other-model")).toEqual([]);
+    expect(await getEmbeddings(["live"], kept.modelUsed)).toHaveLength(1);
+  });
+});
+
+describe("migrateEmbeddings", () => {
+  const notes: Note[] = ["m1", "m2", "m3"].map((id) => ({
+    id,
+    title: `Migrated ${id}`,
+    content: `Content for ${id}`,
+    tags: [],
+    createdAt: "2024-01-01",
+    folder: "/test",
+  }));
+
+  const seedOldModel = () =>
+    saveEmbeddings(
+      notes.map((n) => ({ ...emb(n.id, [1, 0]), modelUsed: "old-model" }))
+    );
+
+  it("re-embeds the corpus under the active model and drops the old vectors", async () => {
+    await seedOldModel();
+    expect(await needsEmbeddingMigration()).toBe(true);
+
+    const updates: EmbeddingMigrationProgress[] = [];
+    const result = await migrateEmbeddings(notes, {
+      batchSize: 2,
+      delayMs: 0,
+      onProgress: (p) => updates.push(p),
+    });
+
+    expect(result).toMatchObject({ completed: 3, failed: 0, total: 3, done: true });
+    expect(updates.map((u) => u.completed)).toEqual([0, 2, 3, 3]);
+    expect(await getEmbeddingModels()).not.toContain("old-model");
+    expect(await needsEmbeddingMigration()).toBe(false);
+  });
+
+  it("stops waiting between batches when aborted", async () => {
+    await pruneOrphanedEmbeddings([]);
+    await seedOldModel();
+
+    const controller = new AbortController();
+    const result = await migrateEmbeddings(notes, {
+      batchSize: 1,
+      delayMs: 60_000,
+      signal: controller.signal,
+      onProgress: (p) => {
+        if (p.completed === 1) setTimeout(() => controller.abort(), 10);
+      },
+    });
+    expect(result).toMatchObject({ completed: 1, done: false });
+  });
+
+  it("resumes an interrupted migration without redoing finished notes", async () => {
+    await pruneOrphanedEmbeddings([]);
+    await seedOldModel();
+
+    const controller = new AbortController();
+    const first = await migrateEmbeddings(notes, {
+      batchSize: 1,
+      delayMs: 0,
+      signal: controller.signal,
+      onProgress: (p) => p.completed === 1 && controller.abort(),
+    });
+    expect(first).toMatchObject({ completed: 1, done: false });
+    expect(await needsEmbeddingMigration()).toBe(true);
+
+    const updates: EmbeddingMigrationProgress[] = [];
+    const second = await migrateEmbeddings(notes, {
+      batchSize: 1,
+      delayMs: 0,
+      onProgress: (p) => updates.push(p),
+    });
+    expect(updates[0].completed).toBe(1);
+    expect(second).toMatchObject({ completed: 3, done: true });
+    expect(await needsEmbeddingMigration()).toBe(false);
+  });
+
+  it("needs a migration again once another embedding model is switched in", async () => {
+    await getOrGenerateEmbeddings(notes);
+    expect(await needsEmbeddingMigration()).toBe(false);
+
+    const provider = getLLMProvider();
+    const listener = vi.fn();
+    const unsubscribe = onLLMProviderChange(listener);
+    setLLMProvider({ ...provider, embeddingModel: "other-model" });
+    try {
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(await needsEmbeddingMigration()).toBe(true);
+    } finally {
+      setLLMProvider(provider);
+      unsubscribe();
+    }
+  });
+});
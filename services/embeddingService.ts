@@ -1,82 +1,204 @@
 /**
  * Embedding Service
  *
- * This service generates and manages vector embeddings for notes using Google's
- * Gemini text-embedding-004 model. Embeddings enable semantic similarity search
- * and content-based clustering.
+ * This service generates and manages vector embeddings for notes using the
+ * active LLM provider's embedding model (Gemini text-embedding-004 by default).
+ * Embeddings enable semantic similarity search and content-based clustering.
  *
  * Key Features:
- * - Batch embedding generation with concurrency control
- * - LocalStorage caching with TTL (7 days)
- * - Cosine similarity computation
+ * - Full-content embeddings: notes are split into heading-aware, overlapping
+ *   chunks and the note vector is pooled from the chunk vectors
+ * - Batch embedding generation through the shared request scheduler
+ *   (rate limits, retries, cancellation); notes that still fail are
+ *   recorded so they can be retried later
+ * - Per-note IndexedDB cache (binary vectors keyed by note and model),
+ *   invalidated per note by content hash; orphans are pruned
+ * - Model-aware: vectors from different embedding models are never compared,
+ *   and a resumable background migration re-embeds the corpus after a switch
+ * - Cosine similarity computation, with an ANN index (annIndex.ts) for
+ *   neighbour and similar-pair queries
  * - DBSCAN-like clustering based on embedding proximity
  *
  * Main Entry Points:
  * - getOrGenerateEmbeddings(): Get embeddings with smart caching
+ * - getEmbeddingFailures() / retryFailedEmbeddings(): Failed-notes report
  * - embeddingGuidedPartitioning(): Cluster notes by embedding similarity
  * - findSimilarPairs(): Find pairs of similar notes
+ * - getAnnIndex(): Nearest-neighbour index over a set of embeddings
  */
 
 import {
   Note,
   NoteEmbedding,
+  EmbeddingChunk,
+  EmbeddingFailure,
+  EmbeddingMigrationProgress,
   EmbeddingIndex,
-  SimilarityPair,
-  EmbeddingPartition,
 } from "../types";
-import { GoogleGenAI } from "@google/genai";
+import { getLLMProvider, RequestOptions } from "./llmProvider";
+import { isAbortError, sleep } from "./requestScheduler";
+import { pruneAnnIndex } from "./embeddingMath";
+import {
+  deleteEmbeddingsForModel,
+  getEmbeddingModels,
+  getEmbeddings,
+  pruneEmbeddings,
+  saveEmbeddings,
+} from "./storageService";
+import { hashNoteContent } from "./clusteringService";
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+// Earlier versions kept every vector in one LocalStorage key
+const LEGACY_EMBEDDING_CACHE_KEY = "embedding_index_v1";
+
+// Records the target model of an unfinished migration so it resumes on next start
+const MIGRATION_STATE_KEY = "embedding_migration_v1";
+const MIGRATION_BATCH_SIZE = 10; // notes per batch
+const MIGRATION_BATCH_DELAY_MS = 2000;
+
+// Notes whose last embedding attempt failed, keyed by note id
+const FAILURES_KEY = "embedding_failures_v1";
 
-const EMBEDDING_CACHE_KEY = "embedding_index_v1";
-const EMBEDDING_MODEL = "text-embedding-004";
+// Chunking: sized to stay well inside embedding model input limits
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS_PER_NOTE = 64;
 
 // ============================================================================
 // Cache Management
 // ============================================================================
 
-export const loadEmbeddingIndex = (): EmbeddingIndex => {
+/**
+ * Move embeddings from the legacy LocalStorage index into IndexedDB, once.
+ * Entries from before chunking only covered 500 characters and are dropped.
+ */
+const migrateLegacyEmbeddingIndex = async (): Promise<void> => {
+  const raw = localStorage.getItem(LEGACY_EMBEDDING_CACHE_KEY);
+  if (!raw) return;
+
   try {
-    const raw = localStorage.getItem(EMBEDDING_CACHE_KEY);
-    if (raw) {
-      const parsed = JSON.parse(raw) as EmbeddingIndex;
-      if (parsed.embeddings && Array.isArray(parsed.embeddings)) {
-        return parsed;
-      }
+    const parsed = JSON.parse(raw) as EmbeddingIndex;
+    const chunked = (parsed.embeddings || []).filter((e) => e.chunks);
+    await saveEmbeddings(chunked);
+    console.log(`Migrated ${chunked.length} embeddings to IndexedDB`);
+  } catch (e) {
+    console.warn("Failed to migrate legacy embedding index:", e);
+  }
+  localStorage.removeItem(LEGACY_EMBEDDING_CACHE_KEY);
+};
+
+const loadCachedEmbeddings = async (
+  notes: Note[],
+  model: string
+): Promise<NoteEmbedding[]> => {
+  try {
+    await migrateLegacyEmbeddingIndex();
+    return await getEmbeddings(
+      notes.map((n) => n.id),
+      model
+    );
+  } catch (e) {
+    console.warn("Failed to load cached embeddings:", e);
+    return [];
+  }
+};
+
+/**
+ * Remove cached embeddings for notes that no longer exist
+ * @param notes The complete set of live notes
+ */
+export const pruneOrphanedEmbeddings = async (notes: Note[]): Promise<void> => {
+  try {
+    const liveIds = new Set(notes.map((n) => n.id));
+    const failures = readFailures();
+    const orphanedFailures = Object.keys(failures).filter((id) => !liveIds.has(id));
+    if (orphanedFailures.length > 0) {
+      orphanedFailures.forEach((id) => delete failures[id]);
+      writeFailures(failures);
+    }
+
+    pruneAnnIndex(liveIds);
+
+    const removed = await pruneEmbeddings(Array.from(liveIds));
+    if (removed > 0) {
+      console.log(`🧹 Pruned ${removed} orphaned embeddings`);
     }
   } catch (e) {
-    console.warn("Failed to load embedding index:", e);
+    console.warn("Failed to prune orphaned embeddings:", e);
   }
+};
 
-  return {
-    embeddings: [],
-    lastUpdated: 0,
-    modelVersion: EMBEDDING_MODEL,
-    totalNotes: 0,
-  };
+const storeEmbeddings = async (embeddings: NoteEmbedding[]): Promise<void> => {
+  try {
+    await saveEmbeddings(embeddings);
+  } catch (e) {
+    console.warn("Failed to save embeddings:", e);
+  }
 };
 
-const saveEmbeddingIndex = (index: EmbeddingIndex): void => {
+// --- Failure Report ---
+
+const readFailures = (): Record<string, EmbeddingFailure> => {
   try {
-    localStorage.setItem(EMBEDDING_CACHE_KEY, JSON.stringify(index));
+    const raw = localStorage.getItem(FAILURES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeFailures = (failures: Record<string, EmbeddingFailure>): void => {
+  try {
+    if (Object.keys(failures).length === 0) {
+      localStorage.removeItem(FAILURES_KEY);
+    } else {
+      localStorage.setItem(FAILURES_KEY, JSON.stringify(failures));
+    }
   } catch (e) {
-    console.warn("Failed to save embedding index:", e);
+    console.warn("Failed to save embedding failure report:", e);
   }
 };
 
+/** Record failed notes and clear the ones that were embedded */
+const updateFailures = (
+  failed: Map<Note, string>,
+  succeededIds: string[]
+): void => {
+  const failures = readFailures();
+  const before = Object.keys(failures).length;
+  succeededIds.forEach((id) => delete failures[id]);
+  failed.forEach((error, note) => {
+    failures[note.id] = {
+      noteId: note.id,
+      title: note.title,
+      error,
+      attempts: (failures[note.id]?.attempts ?? 0) + 1,
+      lastAttempt: Date.now(),
+    };
+  });
+  if (failed.size > 0 || Object.keys(failures).length !== before) {
+    writeFailures(failures);
+  }
+};
+
+/** Notes whose embedding failed and has not succeeded since, newest first */
+export const getEmbeddingFailures = (): EmbeddingFailure[] =>
+  Object.values(readFailures()).sort((a, b) => b.lastAttempt - a.lastAttempt);
+
+// Similarity math lives in embeddingMath so the clustering worker can use it
+export {
+  cosineSimilarity,
+  embeddingGuidedPartitioning,
+  findSimilarPairs,
+  getAnnIndex,
+} from "./embeddingMath";
+
 // --- Embedding Generation (Step 2.1) ---
 
-// Helper to split array into chunks for concurrency
+// Helper to split array into fixed-size batches
 const chunkArray = <T>(array: T[], size: number): T[][] => {
   const chunked: T[][] = [];
   for (let i = 0; i < array.length; i += size) {
@@ -85,357 +207,375 @@ const chunkArray = <T>(array: T[], size: number): T[][] => {
   return chunked;
 };
 
+export interface ContentChunk {
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+/**
+ * Split Markdown content into chunks for embedding.
+ * Content is split at headings, consecutive small sections are merged up to
+ * `chunkSize` (the chunk keeps the first section's heading), and long
+ * sections are cut into overlapping windows. A chunk only spans a heading
+ * when sections were merged into it.
+ */
+export const chunkNoteContent = (
+  content: string,
+  chunkSize: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): ContentChunk[] => {
+  // 1. Sections between headings
+  const sections: ContentChunk[] = [];
+  let sectionStart = 0;
+  let sectionHeading: string | undefined;
+  for (const match of content.matchAll(/^#{1,6}\s+(.+)$/gm)) {
+    if (match.index! > sectionStart) {
+      sections.push({ start: sectionStart, end: match.index!, heading: sectionHeading });
+    }
+    sectionStart = match.index!;
+    sectionHeading = match[1].trim();
+  }
+  sections.push({ start: sectionStart, end: content.length, heading: sectionHeading });
+
+  // 2. Merge small neighbours
+  const merged: ContentChunk[] = [];
+  sections
+    .filter((s) => content.slice(s.start, s.end).trim().length > 0)
+    .forEach((section) => {
+      const last = merged[merged.length - 1];
+      if (last && section.end - last.start <= chunkSize) {
+        last.end = section.end;
+      } else {
+        merged.push({ ...section });
+      }
+    });
+
+  // 3. Window long sections, preferring to cut at whitespace
+  const chunks: ContentChunk[] = [];
+  merged.forEach((section) => {
+    let start = section.start;
+    while (section.end - start > chunkSize) {
+      let end = start + chunkSize;
+      const lastSpace = content.lastIndexOf(" ", end);
+      if (lastSpace > start + chunkSize / 2) end = lastSpace;
+      chunks.push({ start, end, heading: section.heading });
+      start = Math.max(end - overlap, start + 1);
+    }
+    chunks.push({ start, end: section.end, heading: section.heading });
+  });
+
+  // Title-only notes still get one (empty) chunk so they are embedded
+  return chunks.length > 0 ? chunks : [{ start: 0, end: content.length }];
+};
+
+/** Length-weighted mean of chunk vectors, L2-normalised */
+const poolChunkVectors = (chunks: EmbeddingChunk[]): number[] => {
+  const dim = chunks[0].vector.length;
+  const pooled = new Array(dim).fill(0);
+  chunks.forEach((chunk) => {
+    const weight = Math.max(1, chunk.end - chunk.start);
+    for (let i = 0; i < dim; i++) pooled[i] += chunk.vector[i] * weight;
+  });
+  const norm = Math.sqrt(pooled.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? pooled : pooled.map((v) => v / norm);
+};
+
 /**
- * Generate embeddings for a batch of notes using Gemini API
- * Updated for Concurrency: Processes 10 notes at a time
+ * Generate embeddings for a batch of notes using the active LLM provider
+ * Every note is chunked and all chunks are handed to the provider at once;
+ * its request scheduler paces them and retries transient errors. A note is
+ * only embedded if all of its chunks are, otherwise it goes into the failure
+ * report (see getEmbeddingFailures) and is retried on the next run.
  * @param notes Notes to embed
+ * @param options.signal Abort the batch; nothing is recorded as failed
  * @returns Array of note embeddings
  */
 export const generateEmbeddingsBatch = async (
-  notes: Note[]
+  notes: Note[],
+  options: { signal?: AbortSignal } = {}
 ): Promise<NoteEmbedding[]> => {
-  const ai = getAIClient();
-  const embeddings: NoteEmbedding[] = [];
-
-  // Batch size of 10 for reasonable concurrency without rate limiting aggressively
-  const chunks = chunkArray(notes, 10);
+  const llm = getLLMProvider();
+  const { signal } = options;
+
+  const jobs = notes.flatMap((note) => {
+    let chunks = chunkNoteContent(note.content);
+    if (chunks.length > MAX_CHUNKS_PER_NOTE) {
+      console.warn(
+        `⚠️ Note ${note.id} has ${chunks.length} chunks, embedding the first ${MAX_CHUNKS_PER_NOTE}`
+      );
+      chunks = chunks.slice(0, MAX_CHUNKS_PER_NOTE);
+    }
+    return chunks.map((chunk) => ({ note, chunk }));
+  });
+  const embeddedChunks = new Map<string, EmbeddingChunk[]>();
+  const failed = new Map<Note, string>();
 
   console.log(
-    `Starting embedding generation for ${notes.length} notes in ${chunks.length} batches...`
+    `Starting embedding generation for ${notes.length} notes (${jobs.length} chunks)...`
   );
 
-  for (const [index, chunk] of chunks.entries()) {
-    console.log(
-      `Processing batch ${index + 1}/${chunks.length} (${
-        chunk.length
-      } notes)...`
-    );
-
-    // Create array of promises for this chunk
-    const chunkPromises = chunk.map(async (note) => {
+  await Promise.all(
+    jobs.map(async ({ note, chunk }) => {
       try {
-        const text = `${note.title}\n${note.content.substring(0, 500)}`;
-
-        // Use the correct API format for @google/genai
-        const response = await ai.models.embedContent({
-          model: EMBEDDING_MODEL,
-          contents: text,
-        });
-
-        // Handle both possible response shapes
-        const embedding =
-          (response as any).embedding ?? (response as any).embeddings?.[0];
-
-        if (embedding?.values?.length) {
-          return {
-            noteId: note.id,
-            vector: embedding.values,
-            timestamp: Date.now(),
-            modelUsed: EMBEDDING_MODEL,
-            textLength: text.length,
-          } as NoteEmbedding;
+        const text = `${note.title}\n${note.content.slice(chunk.start, chunk.end)}`;
+        const vector = await llm.embed(text, { signal });
+
+        if (vector.length) {
+          const list = embeddedChunks.get(note.id) || [];
+          list.push({ ...chunk, vector });
+          embeddedChunks.set(note.id, list);
         } else {
-          console.error(`❌ No embedding values for note ${note.id}`);
-          return null;
+          console.error(`❌ No embedding values for note ${note.id} (chunk at ${chunk.start})`);
+          failed.set(note, "No embedding values returned");
         }
       } catch (err) {
-        console.error(`❌ Failed to embed note ${note.id}:`, err);
-        return null;
+        if (isAbortError(err)) return;
+        console.error(`❌ Failed to embed note ${note.id} (chunk at ${chunk.start}):`, err);
+        failed.set(note, err instanceof Error ? err.message : String(err));
       }
-    });
-
-    // Wait for all requests in this chunk to finish
-    const results = await Promise.all(chunkPromises);
-
-    // Filter out nulls and add to main list
-    const validResults = results.filter((r): r is NoteEmbedding => r !== null);
-    embeddings.push(...validResults);
+    })
+  );
 
-    // Optional: Small delay between chunks to be nice to the API
-    if (index < chunks.length - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException("Embedding aborted", "AbortError");
   }
 
+  const embeddings: NoteEmbedding[] = [];
+  notes.forEach((note) => {
+    const chunks = embeddedChunks.get(note.id);
+    if (!chunks || failed.has(note)) return;
+    chunks.sort((a, b) => a.start - b.start);
+    embeddings.push({
+      noteId: note.id,
+      vector: poolChunkVectors(chunks),
+      timestamp: Date.now(),
+      modelUsed: llm.embeddingModel,
+      textLength: note.title.length + 1 + note.content.length,
+      contentHash: hashNoteContent(note),
+      chunks,
+    });
+  });
+  updateFailures(
+    failed,
+    embeddings.map((e) => e.noteId)
+  );
+
   console.log(
-    `Generated embeddings for ${embeddings.length}/${notes.length} notes`
+    `Generated embeddings for ${embeddings.length}/${notes.length} notes` +
+      (failed.size > 0 ? ` (${failed.size} failed, see getEmbeddingFailures())` : "")
   );
   return embeddings;
 };
 
+/**
+ * Split notes into those with a usable cached embedding and those needing one.
+ * Only the requested notes are read, each by [noteId, model]; an embedding is
+ * reused only if it was computed from the note's current title and content
+ * by the same model.
+ */
+const partitionByCache = async (notes: Note[], model: string) => {
+  const hashes = new Map(notes.map((n) => [n.id, hashNoteContent(n)]));
+  const stored = await loadCachedEmbeddings(notes, model);
+  const cached = stored.filter(
+    (e) =>
+      e.modelUsed === model &&
+      e.chunks &&
+      e.contentHash === hashes.get(e.noteId)
+  );
+  const cachedIds = new Set(cached.map((e) => e.noteId));
+  return {
+    cached,
+    missing: notes.filter((n) => !cachedIds.has(n.id)),
+    staleCount: stored.length - cached.length,
+  };
+};
+
 /**
  * Get or generate embeddings for notes with caching
  * @param notes Notes to embed
  * @param forceRefresh Skip cache and regenerate
- * @returns Embeddings for each note
+ * @param options.signal Abort generation of missing embeddings
+ * @returns Embeddings for each note that has (or got) one
  */
 export const getOrGenerateEmbeddings = async (
   notes: Note[],
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  options: { signal?: AbortSignal } = {}
 ): Promise<NoteEmbedding[]> => {
-  const index = loadEmbeddingIndex();
-  const now = Date.now();
-  const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
-
-  // Check if cache is still valid
-  if (
-    !forceRefresh &&
-    index.embeddings.length > 0 &&
-    now - index.lastUpdated < CACHE_TTL
-  ) {
-    // Return cached embeddings for available notes
-    const cached = index.embeddings.filter((e) =>
-      notes.some((n) => n.id === e.noteId)
-    );
+  const model = getLLMProvider().embeddingModel;
 
-    // Find missing notes
-    const cachedIds = new Set(cached.map((e) => e.noteId));
-    const missing = notes.filter((n) => !cachedIds.has(n.id));
+  const { cached, missing, staleCount } = forceRefresh
+    ? { cached: [], missing: notes, staleCount: 0 }
+    : await partitionByCache(notes, model);
 
-    if (missing.length === 0) {
-      console.log(`Cache hit: ${cached.length} embeddings from cache`);
-      return cached;
-    }
+  if (missing.length === 0) {
+    console.log(`Cache hit: ${cached.length} embeddings from cache`);
+    return cached;
+  }
 
-    // Generate embeddings for missing notes
+  if (cached.length > 0 || staleCount > 0) {
     console.log(
-      `Partial cache hit: ${cached.length} cached, generating ${missing.length} new`
+      `Partial cache hit: ${cached.length} cached, ${staleCount} stale, generating ${missing.length}`
+    );
+  } else {
+    console.log(
+      `Cache miss or refresh forced: generating ${missing.length} embeddings`
     );
-    const newEmbeddings = await generateEmbeddingsBatch(missing);
-
-    // Update index
-    const updated = [...cached, ...newEmbeddings];
-    const newIndex: EmbeddingIndex = {
-      embeddings: updated,
-      lastUpdated: now,
-      modelVersion: EMBEDDING_MODEL,
-      totalNotes: updated.length,
-    };
-    saveEmbeddingIndex(newIndex);
-
-    return updated;
   }
 
-  // Generate all embeddings
-  console.log(
-    `Cache miss or refresh forced: generating ${notes.length} embeddings`
-  );
-  const newEmbeddings = await generateEmbeddingsBatch(notes);
-
-  // Save to cache
-  const newIndex: EmbeddingIndex = {
-    embeddings: newEmbeddings,
-    lastUpdated: now,
-    modelVersion: EMBEDDING_MODEL,
-    totalNotes: newEmbeddings.length,
-  };
-  saveEmbeddingIndex(newIndex);
+  const newEmbeddings = await generateEmbeddingsBatch(missing, options);
+  await storeEmbeddings(newEmbeddings);
 
-  return newEmbeddings;
+  return [...cached, ...newEmbeddings];
 };
 
-// --- Similarity Computation ---
-
 /**
- * Compute cosine similarity between two vectors
+ * Retry every note in the failure report that is still among `notes`
+ * @returns Embeddings of the retried notes that now have one
  */
-const cosineSimilarity = (vec1: number[], vec2: number[]): number => {
-  if (vec1.length === 0 || vec2.length === 0) return 0;
-
-  let dotProduct = 0;
-  let norm1 = 0;
-  let norm2 = 0;
-
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i];
-    norm1 += vec1[i] * vec1[i];
-    norm2 += vec2[i] * vec2[i];
-  }
-
-  norm1 = Math.sqrt(norm1);
-  norm2 = Math.sqrt(norm2);
+export const retryFailedEmbeddings = async (
+  notes: Note[],
+  options: { signal?: AbortSignal } = {}
+): Promise<NoteEmbedding[]> => {
+  const failures = readFailures();
+  const retry = notes.filter((n) => failures[n.id]);
+  if (retry.length === 0) return [];
 
-  if (norm1 === 0 || norm2 === 0) return 0;
-  return dotProduct / (norm1 * norm2);
+  console.log(`🔁 Retrying embeddings for ${retry.length} failed notes`);
+  return getOrGenerateEmbeddings(retry, false, options);
 };
 
-/**
- * Compute centroid (average) of embedding vectors
- */
-const computeCentroid = (vectors: number[][]): number[] => {
-  if (vectors.length === 0) return [];
-
-  const dim = vectors[0].length;
-  const centroid = new Array(dim).fill(0);
+// --- Embedding Model Migration ---
 
-  vectors.forEach((vec) => {
-    for (let i = 0; i < dim; i++) {
-      centroid[i] += vec[i];
-    }
-  });
-
-  for (let i = 0; i < dim; i++) {
-    centroid[i] /= vectors.length;
+const readMigrationTarget = (): string | null => {
+  try {
+    const raw = localStorage.getItem(MIGRATION_STATE_KEY);
+    return raw ? (JSON.parse(raw) as { targetModel: string }).targetModel : null;
+  } catch {
+    return null;
   }
-
-  return centroid;
 };
 
 /**
- * Find all high-similarity pairs using threshold
- * @param embeddings Embeddings to compare
- * @param threshold Similarity threshold (0-1)
- * @returns Pairs of similar notes
+ * Whether the corpus must be re-embedded for the active embedding model:
+ * a previous migration to it was interrupted, or vectors from another
+ * model are still stored.
  */
-export const findSimilarPairs = (
-  embeddings: NoteEmbedding[],
-  threshold: number = 0.7
-): SimilarityPair[] => {
-  const pairs: SimilarityPair[] = [];
-
-  for (let i = 0; i < embeddings.length; i++) {
-    for (let j = i + 1; j < embeddings.length; j++) {
-      const similarity = cosineSimilarity(
-        embeddings[i].vector,
-        embeddings[j].vector
-      );
-
-      if (similarity >= threshold) {
-        pairs.push({
-          note1Id: embeddings[i].noteId,
-          note2Id: embeddings[j].noteId,
-          similarity,
-        });
-      }
-    }
+export const needsEmbeddingMigration = async (): Promise<boolean> => {
+  const model = getLLMProvider().embeddingModel;
+  if (readMigrationTarget() === model) return true;
+  try {
+    const models = await getEmbeddingModels();
+    return models.some((m) => m !== model);
+  } catch (e) {
+    console.warn("Failed to read embedding models:", e);
+    return false;
   }
-
-  return pairs.sort((a, b) => b.similarity - a.similarity);
 };
 
-// --- Embedding-Guided Partitioning (Step 2.2) ---
-
 /**
- * Simple clustering using cosine similarity (DBSCAN-like approach)
- * @param embeddings Note embeddings
- * @param similarityThreshold Threshold for grouping (0-1)
- * @param minClusterSize Minimum notes per cluster
- * @returns Partitions (clusters) based on embeddings
+ * Re-embed every note without a current embedding under the active model,
+ * in throttled batches. Progress is saved per batch, so an interrupted run
+ * (reload, abort) resumes where it stopped. Once every note is embedded,
+ * vectors from other models are deleted.
  */
-export const embeddingGuidedPartitioning = (
-  embeddings: NoteEmbedding[],
-  similarityThreshold: number = 0.7,
-  minClusterSize: number = 1
-): EmbeddingPartition[] => {
-  const partitions: EmbeddingPartition[] = [];
-  const assignedNotes = new Set<string>(); // Notes assigned to a valid cluster
-
-  // Find similar pairs
-  const pairs = findSimilarPairs(embeddings, similarityThreshold);
+export const migrateEmbeddings = async (
+  notes: Note[],
+  options: {
+    batchSize?: number;
+    delayMs?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: EmbeddingMigrationProgress) => void;
+  } = {}
+): Promise<EmbeddingMigrationProgress> => {
+  const model = getLLMProvider().embeddingModel;
+  const batchSize = options.batchSize ?? MIGRATION_BATCH_SIZE;
+  const delayMs = options.delayMs ?? MIGRATION_BATCH_DELAY_MS;
+  localStorage.setItem(
+    MIGRATION_STATE_KEY,
+    JSON.stringify({ targetModel: model })
+  );
 
+  const { missing } = await partitionByCache(notes, model);
+  const progress: EmbeddingMigrationProgress = {
+    targetModel: model,
+    completed: notes.length - missing.length,
+    failed: 0,
+    total: notes.length,
+    done: false,
+  };
   console.log(
-    `Found ${pairs.length} similar pairs at threshold ${similarityThreshold}`
+    `🔁 Re-embedding ${missing.length}/${notes.length} notes for ${model}`
   );
-  if (pairs.length > 0) {
-    console.log(
-      `Top 5 similarities:`,
-      pairs
-        .slice(0, 5)
-        .map(
-          (p) =>
-            `${p.note1Id.slice(0, 8)}-${p.note2Id.slice(
-              0,
-              8
-            )}: ${p.similarity.toFixed(3)}`
-        )
-    );
-  }
-
-  // Build adjacency graph
-  const graph = new Map<string, Set<string>>();
-  embeddings.forEach((e) => {
-    graph.set(e.noteId, new Set());
-  });
-
-  pairs.forEach((pair) => {
-    graph.get(pair.note1Id)?.add(pair.note2Id);
-    graph.get(pair.note2Id)?.add(pair.note1Id);
-  });
-
-  // Cluster using connected components (BFS)
-  const findConnectedComponent = (startId: string): Set<string> => {
-    const component = new Set<string>();
-    const queue = [startId];
+  options.onProgress?.({ ...progress });
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (component.has(current)) continue;
-
-      component.add(current);
+  const batches = chunkArray(missing, batchSize);
+  for (const [index, batch] of batches.entries()) {
+    if (options.signal?.aborted) {
+      console.log(
+        `⏸️ Embedding migration paused at ${progress.completed}/${progress.total}`
+      );
+      return progress;
+    }
 
-      const neighbors = graph.get(current) || new Set();
-      neighbors.forEach((neighbor) => {
-        if (!component.has(neighbor)) {
-          queue.push(neighbor);
-        }
+    // Notes may have been embedded meanwhile (e.g. by a search)
+    const { missing: stillMissing } = await partitionByCache(batch, model);
+    let embeddings: NoteEmbedding[];
+    try {
+      embeddings = await generateEmbeddingsBatch(stillMissing, {
+        signal: options.signal,
       });
+    } catch (e) {
+      if (!isAbortError(e)) throw e;
+      console.log(
+        `⏸️ Embedding migration paused at ${progress.completed}/${progress.total}`
+      );
+      return progress;
     }
+    await storeEmbeddings(embeddings);
+    progress.completed += batch.length - stillMissing.length + embeddings.length;
+    progress.failed += stillMissing.length - embeddings.length;
+    options.onProgress?.({ ...progress });
 
-    return component;
-  };
-
-  // Find all connected components (clusters)
-  const visited = new Set<string>();
-  embeddings.forEach((e) => {
-    if (!visited.has(e.noteId)) {
-      const component = findConnectedComponent(e.noteId);
-
-      // Mark all notes in this component as visited
-      component.forEach((id) => visited.add(id));
-
-      // Only create partition if it meets minimum size
-      if (component.size >= minClusterSize) {
-        const clusterEmbeddings = Array.from(component)
-          .map((id) => embeddings.find((e) => e.noteId === id)!)
-          .filter((e) => e) // safety check
-          .map((e) => e.vector);
-
-        partitions.push({
-          id: `partition-${partitions.length}`,
-          noteIds: Array.from(component),
-          centroid: computeCentroid(clusterEmbeddings),
-          silhouetteScore: 0,
-        });
-
-        // Mark as assigned
-        component.forEach((id) => assignedNotes.add(id));
+    if (index < batches.length - 1 && delayMs > 0) {
+      try {
+        await sleep(delayMs, options.signal);
+      } catch (e) {
+        // The next iteration reports the pause
+        if (!isAbortError(e)) throw e;
       }
     }
-  });
-
-  // IMPORTANT: Handle unassigned notes (singletons and small groups)
-  // These notes didn't meet minClusterSize but should still be clustered
-  const unassigned = embeddings.filter((e) => !assignedNotes.has(e.noteId));
-
-  if (unassigned.length > 0) {
-    console.log(
-      `⚠️ ${unassigned.length} notes not assigned to clusters, will be grouped in Phase 3`
-    );
+  }
 
-    // DON'T create individual singleton partitions - they'll be handled in clusteringService
-    // where unclustered notes get added to an "Additional Topics" cluster
-    // This is better than having many 1-note clusters
+  // Failed notes keep the migration pending so the next start retries them
+  if (progress.failed === 0) {
+    try {
+      const staleModels = (await getEmbeddingModels()).filter((m) => m !== model);
+      await Promise.all(staleModels.map((m) => deleteEmbeddingsForModel(m)));
+    } catch (e) {
+      console.warn("Failed to delete embeddings from previous models:", e);
+    }
+    localStorage.removeItem(MIGRATION_STATE_KEY);
   }
 
-  console.log(`Embedding-guided partitions created:`);
-  partitions.forEach((p, idx) => {
-    console.log(`  Partition ${idx}: ${p.noteIds.length} notes`);
-  });
+  progress.done = true;
+  options.onProgress?.({ ...progress });
   console.log(
-    `Total: ${partitions.length} partitions covering ${assignedNotes.size}/${embeddings.length} notes`
+    `✅ Embedding migration finished: ${progress.completed}/${progress.total} (${progress.failed} failed)`
   );
+  return progress;
+};
 
-  return partitions;
+/**
+ * Embed a free-text query (e.g. a search string) with the active provider
+ * @returns Query vector, or an empty array if the provider returned none
+ */
+export const embedQuery = async (
+  query: string,
+  options: RequestOptions = {}
+): Promise<number[]> => {
+  return getLLMProvider().embed(query, options);
 };
 
 /**
@@ -0,0 +1,175 @@
+/**
+ * Gemini LLM Provider
+ *
+ * LLMProvider implementation backed by the @google/genai SDK. Uses the
+ * API_KEY injected at build time unless a key is given in the config.
+ */
+
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import type {
+  GenerateOptions,
+  LLMProvider,
+  LLMProviderConfig,
+  RequestOptions,
+  ResponseSchema,
+} from "./llmProvider";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_MODEL = "gemini-2.5-flash-lite";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004";
+
+// embedContent() answers with `embeddings`; older SDK versions with one `embedding`
+type EmbedResponse = {
+  embedding?: { values?: number[] };
+  embeddings?: { values?: number[] }[];
+};
+
+const SCHEMA_TYPES: Record<ResponseSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+/** Convert the vendor-neutral schema into Gemini's Schema format */
+const toGeminiSchema = (schema: ResponseSchema): Schema => {
+  const result: Schema = { type: SCHEMA_TYPES[schema.type] };
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value),
+      ])
+    );
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.enum) result.enum = schema.enum;
+  return result;
+};
+
+// ============================================================================
+// Response Helpers
+// ============================================================================
+
+/** Extract text from various GenAI response formats */
+const extractResponseText = (response: any): string => {
+  if (!response) {
+    console.warn("❌ Response is null/undefined");
+    return "";
+  }
+
+  // Log response structure for debugging
+  console.log("📦 Response type:", typeof response);
+
+  // Try direct text property first
+  if (typeof response.text === "string") {
+    console.log(
+      "✅ Found text as string property. response.text",
+      response.text
+    );
+    return response.text;
+  }
+
+  // Try text() method
+  if (typeof response.text === "function") {
+    console.log("✅ Found text as function, calling it...");
+    const result = response.text();
+    console.log(
+      "✅ text() returned:",
+      typeof result,
+      result?.substring?.(0, 100)
+    );
+    return result || "";
+  }
+
+  // Try candidates array (standard Gemini API response)
+  if (response.candidates?.[0]?.content?.parts?.[0]?.text) {
+    console.log("✅ Found text in candidates array");
+    return response.candidates[0].content.parts[0].text;
+  }
+
+  console.warn("❌ Could not extract text from response:", response);
+  console.log(
+    "📦 Response content:",
+    JSON.stringify(response).substring(0, 500)
+  );
+  return "";
+};
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export const createGeminiProvider = (
+  config: Partial<LLMProviderConfig> = {}
+): LLMProvider => {
+  const model = config.model || DEFAULT_MODEL;
+  const embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+  const getAIClient = () => {
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key not found");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: "gemini",
+    model,
+    embeddingModel,
+
+    async generateJSON(
+      prompt: string,
+      schema: ResponseSchema,
+      options?: GenerateOptions
+    ): Promise<string> {
+      const ai = getAIClient();
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: options?.systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: options?.signal,
+        },
+      });
+      return extractResponseText(response);
+    },
+
+    async generateText(
+      prompt: string,
+      options?: GenerateOptions
+    ): Promise<string> {
+      const ai = getAIClient();
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: options?.systemInstruction,
+          abortSignal: options?.signal,
+        },
+      });
+      return extractResponseText(response);
+    },
+
+    async embed(text: string, options?: RequestOptions): Promise<number[]> {
+      const ai = getAIClient();
+      const response: EmbedResponse = await ai.models.embedContent({
+        model: embeddingModel,
+        contents: text,
+        config: { abortSignal: options?.signal },
+      });
+
+      // Handle both possible response shapes
+      const embedding = response.embedding ?? response.embeddings?.[0];
+      return embedding?.values ?? [];
+    },
+  };
+};
@@ -1,8 +1,9 @@
 /**
  * Gemini AI Service
  *
- * This service provides all LLM-based operations using Google's Gemini AI models.
- * It handles clustering, semantic search, text correction, and semantic analysis.
+ * This service provides all LLM-based operations (Gemini by default, or any
+ * backend configured in llmProvider). It handles clustering, semantic search,
+ * text correction, and semantic analysis.
  *
  * Key Features:
  * - Dual-prompt clustering with memory augmentation
@@ -20,75 +21,55 @@
 
 import { ClusteringDecision, MemoryBuffer } from "../types";
 import { memoryBuffer as globalMemoryBuffer } from "./clusteringService";
-import { GoogleGenAI, Type } from "@google/genai";
 import { Note, ClusterNode, SearchResult } from "../types";
 import { SemanticCentroid, HardSample } from "../types";
+import { getLLMProvider, RequestOptions, ResponseSchema } from "./llmProvider";
+import { isAbortError } from "./requestScheduler";
 
 // ============================================================================
-// Configuration
+// Response Schemas
 // ============================================================================
 
-const CONFIG = {
-  /** Model selection for LLM operations */
-  modelName: "gemini-2.5-flash-lite" as const,
+/** { name, description } returned by the cluster naming prompts */
+const CLUSTER_NAME_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    description: { type: "string" },
+  },
+  required: ["name", "description"],
 };
 
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found");
-  }
-  return new GoogleGenAI({ apiKey });
+/** Flat cluster tree (clusters with note children) */
+const CLUSTER_TREE_SCHEMA: ResponseSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      type: { type: "string", enum: ["cluster"] },
+      description: { type: "string" },
+      children: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            type: { type: "string", enum: ["note"] },
+            noteId: { type: "string" },
+          },
+          required: ["id", "name", "type", "noteId"],
+        },
+      },
+    },
+    required: ["id", "name", "type", "children"],
+  },
 };
 
-// ============================================================================
-// Response Helpers
-// ============================================================================
-
-/** Extract text from various GenAI response formats */
-const extractResponseText = (response: any): string => {
-  if (!response) {
-    console.warn("❌ Response is null/undefined");
-    return "";
-  }
-
-  // Log response structure for debugging
-  console.log("📦 Response type:", typeof response);
-
-  // Try direct text property first
-  if (typeof response.text === "string") {
-    console.log(
-      "✅ Found text as string property. response.text",
-      response.text
-    );
-    return response.text;
-  }
-
-  // Try text() method
-  if (typeof response.text === "function") {
-    console.log("✅ Found text as function, calling it...");
-    const result = response.text();
-    console.log(
-      "✅ text() returned:",
-      typeof result,
-      result?.substring?.(0, 100)
-    );
-    return result || "";
-  }
-
-  // Try candidates array (standard Gemini API response)
-  if (response.candidates?.[0]?.content?.parts?.[0]?.text) {
-    console.log("✅ Found text in candidates array");
-    return response.candidates[0].content.parts[0].text;
-  }
-
-  console.warn("❌ Could not extract text from response:", response);
-  console.log(
-    "📦 Response content:",
-    JSON.stringify(response).substring(0, 500)
-  );
-  return "";
-};
+const KNOWLEDGE_ORGANIZER_INSTRUCTION =
+  "You are a helpful assistant that organizes knowledge.";
 
 /**
  * Generate semantic cluster names with enhanced context
@@ -96,13 +77,14 @@ const extractResponseText = (response: any): string => {
  */
 export const generateSemanticClusterName = async (
   notes: Note[],
-  centroid?: SemanticCentroid
+  centroid?: SemanticCentroid,
+  options: RequestOptions = {}
 ): Promise<{ name: string; description: string }> => {
   if (notes.length === 0) {
     return { name: "Empty Cluster", description: "No notes" };
   }
 
-  const ai = getAIClient();
+  const llm = getLLMProvider();
   const notesPreview = notes.map((n) => ({
     title: n.title,
     contentSnippet: n.content.substring(0, 150),
@@ -138,23 +120,7 @@ ${JSON.stringify(notesPreview, null, 2)}
 Return JSON with "name" (2-4 word topic) and "description" (1 sentence).`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: CONFIG.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-          },
-          required: ["name", "description"],
-        },
-      },
-    });
-
-    const text = extractResponseText(response);
+    const text = await llm.generateJSON(prompt, CLUSTER_NAME_SCHEMA, options);
     if (!text) {
       console.warn("No text from semantic cluster naming LLM, using fallback");
       return {
@@ -175,6 +141,7 @@ Return JSON with "name" (2-4 word topic) and "description" (1 sentence).`;
         parsed.description || centroid?.description || "Related notes",
     };
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Error generating semantic cluster name:", e);
     return {
       name: centroid?.description || `Topic Group (${notes.length} notes)`,
@@ -195,13 +162,14 @@ Return JSON with "name" (2-4 word topic) and "description" (1 sentence).`;
  * Used by embedding-based partitioning to name each partition
  */
 export const generateClusterName = async (
-  notes: Note[]
+  notes: Note[],
+  options: RequestOptions = {}
 ): Promise<{ name: string; description: string }> => {
   if (notes.length === 0) {
     return { name: "Empty Cluster", description: "No notes" };
   }
 
-  const ai = getAIClient();
+  const llm = getLLMProvider();
   const notesPreview = notes.map((n) => ({
     title: n.title,
     contentSnippet: n.content.substring(0, 150),
@@ -226,23 +194,7 @@ ${JSON.stringify(notesPreview, null, 2)}
 Return JSON with "name" (2-4 word topic) and "description" (1 sentence explaining the theme).`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: CONFIG.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-          },
-          required: ["name", "description"],
-        },
-      },
-    });
-
-    const text = extractResponseText(response);
+    const text = await llm.generateJSON(prompt, CLUSTER_NAME_SCHEMA, options);
     if (!text) {
       console.warn("No text from cluster naming LLM, using fallback");
       return {
@@ -257,6 +209,7 @@ Return JSON with "name" (2-4 word topic) and "description" (1 sentence explainin
       description: parsed.description || "Related notes",
     };
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Error generating cluster name:", e);
     return {
       name: `Topic Group (${notes.length} notes)`,
@@ -272,9 +225,10 @@ Return JSON with "name" (2-4 word topic) and "description" (1 sentence explainin
 
 export const dualPromptClusterNotesWithGemini = async (
   notes: Note[],
-  memory: MemoryBuffer = globalMemoryBuffer
+  memory: MemoryBuffer = globalMemoryBuffer,
+  options: RequestOptions = {}
 ): Promise<{ clusters: ClusterNode[]; decision: ClusteringDecision }> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
   const notesLite = notes.map((n) => ({
     id: n.id,
     title: n.title,
@@ -304,27 +258,20 @@ ${JSON.stringify(notesLite, null, 2)}
 Return a JSON array where each cluster has: id, name, description, noteIds (array of note IDs in this cluster)
   `;
 
-  console.log("🚀 Calling Gemini API for initial clustering...");
-  const initialResponse = await ai.models.generateContent({
-    model: CONFIG.modelName,
-    contents: initialPrompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            noteIds: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["id", "name", "description", "noteIds"],
-        },
+  console.log(`🚀 Calling ${llm.id} for initial clustering...`);
+  const initialResponse = await llm.generateJSON(initialPrompt, {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        name: { type: "string" },
+        description: { type: "string" },
+        noteIds: { type: "array", items: { type: "string" } },
       },
+      required: ["id", "name", "description", "noteIds"],
     },
-  });
+  }, options);
 
   let initialClusters: Array<{
     id: string;
@@ -333,8 +280,7 @@ Return a JSON array where each cluster has: id, name, description, noteIds (arra
     noteIds: string[];
   }> = [];
   try {
-    const responseText = extractResponseText(initialResponse);
-    initialClusters = JSON.parse(responseText || "[]");
+    initialClusters = JSON.parse(initialResponse || "[]");
     //print for debugging
     console.log("Initial Clusters:", initialClusters);
   } catch (e) {
@@ -348,8 +294,11 @@ Return a JSON array where each cluster has: id, name, description, noteIds (arra
   }
 
   // 2. Use memory buffer for feedback (recent decisions)
-  const recentDecisions = memory.getRecentDecisions(3);
-  const memorySummary = recentDecisions
+  const recentDecisions = memory
+    .getRecentDecisions()
+    .filter((d) => !d.userProvided)
+    .slice(-3);
+  const decisionSummary = recentDecisions
     .map(
       (d) =>
         `Decision ${d.id}: ${
@@ -358,6 +307,31 @@ Return a JSON array where each cluster has: id, name, description, noteIds (arra
     )
     .join("\n");
 
+  // Notes the user moved by hand; the latest move of each note wins
+  const titles = new Map(notes.map((n) => [n.id, n.title]));
+  const corrections = new Map<string, string>();
+  memory
+    .getMemoryForNotes(notes.map((n) => n.id))
+    .decisions.filter((d) => d.userProvided)
+    .forEach((d) =>
+      Object.entries(d.clusterAssignments).forEach(([noteId, clusterId]) => {
+        if (titles.has(noteId)) {
+          corrections.set(
+            noteId,
+            `Note "${titles.get(noteId)}" (${noteId}) belongs with "${
+              d.clusterDescriptions[clusterId] || clusterId
+            }"`
+          );
+        }
+      })
+    );
+  const memorySummary =
+    corrections.size > 0
+      ? `${decisionSummary}\n\nUser corrections (keep these assignments):\n${Array.from(
+          corrections.values()
+        ).join("\n")}`
+      : decisionSummary;
+
   // 3. Refinement prompt for optimal assignment
   const refinementPrompt = `
     You are an expert knowledge manager.
@@ -375,47 +349,16 @@ Return a JSON array where each cluster has: id, name, description, noteIds (arra
     ${JSON.stringify(notesLite)}
   `;
 
-  console.log("🚀 Calling Gemini API for refinement clustering...");
-  const refinementResponse = await ai.models.generateContent({
-    model: CONFIG.modelName,
-    contents: refinementPrompt,
-    config: {
-      systemInstruction:
-        "You are a helpful assistant that organizes knowledge.",
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            name: { type: Type.STRING },
-            type: { type: Type.STRING, enum: ["cluster"] },
-            description: { type: Type.STRING },
-            children: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ["note"] },
-                  noteId: { type: Type.STRING },
-                },
-                required: ["id", "name", "type", "noteId"],
-              },
-            },
-          },
-          required: ["id", "name", "type", "children"],
-        },
-      },
-    },
-  });
+  console.log(`🚀 Calling ${llm.id} for refinement clustering...`);
+  const refinementResponse = await llm.generateJSON(
+    refinementPrompt,
+    CLUSTER_TREE_SCHEMA,
+    { ...options, systemInstruction: KNOWLEDGE_ORGANIZER_INSTRUCTION }
+  );
 
   let clusters: ClusterNode[] = [];
   try {
-    const responseText = extractResponseText(refinementResponse);
-    clusters = JSON.parse(responseText || "[]");
+    clusters = JSON.parse(refinementResponse || "[]");
     //print for debugging
     console.log("Refined Clusters:", clusters);
   } catch (e) {
@@ -460,9 +403,10 @@ Return a JSON array where each cluster has: id, name, description, noteIds (arra
 // --- Auto-Clustering Logic ---
 
 export const clusterNotesWithGemini = async (
-  notes: Note[]
+  notes: Note[],
+  options: RequestOptions = {}
 ): Promise<ClusterNode[]> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
 
   const notesLite = notes.map((n) => ({
     id: n.id,
@@ -481,43 +425,11 @@ export const clusterNotesWithGemini = async (
     ${JSON.stringify(notesLite)}
   `;
 
-  const response = await ai.models.generateContent({
-    model: CONFIG.modelName,
-    contents: prompt,
-    config: {
-      systemInstruction:
-        "You are a helpful assistant that organizes knowledge.",
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            name: { type: Type.STRING },
-            type: { type: Type.STRING, enum: ["cluster"] },
-            description: { type: Type.STRING },
-            children: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ["note"] },
-                  noteId: { type: Type.STRING },
-                },
-                required: ["id", "name", "type", "noteId"],
-              },
-            },
-          },
-          required: ["id", "name", "type", "children"],
-        },
-      },
-    },
-  });
-
-  const jsonStr = extractResponseText(response) || "[]";
+  const jsonStr =
+    (await llm.generateJSON(prompt, CLUSTER_TREE_SCHEMA, {
+      ...options,
+      systemInstruction: KNOWLEDGE_ORGANIZER_INSTRUCTION,
+    })) || "[]";
   try {
     return JSON.parse(jsonStr) as ClusterNode[];
   } catch (e) {
@@ -530,9 +442,10 @@ export const clusterNotesWithGemini = async (
 
 export const semanticSearchWithGemini = async (
   query: string,
-  notes: Note[]
+  notes: Note[],
+  options: RequestOptions = {}
 ): Promise<SearchResult[]> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
 
   const notesLite = notes.map((n) => ({
     id: n.id,
@@ -552,27 +465,19 @@ export const semanticSearchWithGemini = async (
     ${JSON.stringify(notesLite)}
   `;
 
-  const response = await ai.models.generateContent({
-    model: CONFIG.modelName,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            noteId: { type: Type.STRING },
-            score: { type: Type.NUMBER },
-            reason: { type: Type.STRING },
-          },
-          required: ["noteId", "score", "reason"],
+  const jsonStr =
+    (await llm.generateJSON(prompt, {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          noteId: { type: "string" },
+          score: { type: "number" },
+          reason: { type: "string" },
         },
+        required: ["noteId", "score", "reason"],
       },
-    },
-  });
-
-  const jsonStr = extractResponseText(response) || "[]";
+    }, options)) || "[]";
   try {
     const rawResults = JSON.parse(jsonStr) as {
       noteId: string;
@@ -603,7 +508,7 @@ export const semanticSearchWithGemini = async (
 // --- Content Correction Logic ---
 
 export const correctTextWithGemini = async (text: string): Promise<string> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
   const prompt = `
     You are a professional editor.
     Please correct the grammar, spelling, and punctuation of the following text.
@@ -615,12 +520,9 @@ export const correctTextWithGemini = async (text: string): Promise<string> => {
     ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: CONFIG.modelName,
-    contents: prompt,
-  });
+  const response = await llm.generateText(prompt);
 
-  return extractResponseText(response)?.trim() || text;
+  return response?.trim() || text;
 };
 
 // --- Semantic Centroid Generation (Phase 3, Step 3.1) ---
@@ -628,9 +530,10 @@ export const correctTextWithGemini = async (text: string): Promise<string> => {
 export const generateSemanticCentroid = async (
   clusterId: string,
   clusterNotes: Note[],
-  description?: string
+  description?: string,
+  options: RequestOptions = {}
 ): Promise<SemanticCentroid> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
 
   const notesSummary = clusterNotes
     .slice(0, 5)
@@ -659,24 +562,17 @@ export const generateSemanticCentroid = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: CONFIG.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-            confidence: { type: Type.NUMBER },
-          },
-          required: ["description", "keywords", "confidence"],
-        },
+    const response = await llm.generateJSON(prompt, {
+      type: "object",
+      properties: {
+        description: { type: "string" },
+        keywords: { type: "array", items: { type: "string" } },
+        confidence: { type: "number" },
       },
-    });
+      required: ["description", "keywords", "confidence"],
+    }, options);
 
-    const result = JSON.parse(extractResponseText(response) || "{}") as {
+    const result = JSON.parse(response || "{}") as {
       description: string;
       keywords: string[];
       confidence: number;
@@ -697,6 +593,7 @@ export const generateSemanticCentroid = async (
     console.log("Centroid details:", centroid);
     return centroid;
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Failed to generate semantic centroid:", e);
     return {
       clusterId,
@@ -712,9 +609,10 @@ export const generateSemanticCentroid = async (
 
 export const detectHardSample = async (
   note: Note,
-  clusterIds: string[]
+  clusterIds: string[],
+  options: RequestOptions = {}
 ): Promise<HardSample | null> => {
-  const ai = getAIClient();
+  const llm = getLLMProvider();
 
   const prompt = `
     You are a data quality analyzer.
@@ -733,28 +631,21 @@ export const detectHardSample = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: CONFIG.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            ambiguityScore: { type: Type.NUMBER },
-            possibleClusters: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-            },
-            shouldAugment: { type: Type.BOOLEAN },
-            augmentedContent: { type: Type.STRING },
-          },
-          required: ["ambiguityScore", "possibleClusters", "shouldAugment"],
+    const response = await llm.generateJSON(prompt, {
+      type: "object",
+      properties: {
+        ambiguityScore: { type: "number" },
+        possibleClusters: {
+          type: "array",
+          items: { type: "string" },
         },
+        shouldAugment: { type: "boolean" },
+        augmentedContent: { type: "string" },
       },
-    });
+      required: ["ambiguityScore", "possibleClusters", "shouldAugment"],
+    }, options);
 
-    const result = JSON.parse(extractResponseText(response) || "{}");
+    const result = JSON.parse(response || "{}");
 
     if (result.ambiguityScore > 0.6) {
       const hardSample: HardSample = {
@@ -778,6 +669,7 @@ export const detectHardSample = async (
 
     return null;
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Failed to detect hard sample:", e);
     return null;
   }
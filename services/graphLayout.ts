@@ -0,0 +1,161 @@
+/**
+ * Graph Layout Preprocessing
+ *
+ * Flattens the ClusterNode tree into the node and link lists the D3 force
+ * graph (components/ClusterGraph.tsx) renders, and seeds initial positions.
+ * Pure and DOM-free so it can run in the clustering worker for large trees.
+ */
+
+import { ClusterNode } from "../types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  type: "root" | "cluster" | "subcluster" | "note";
+  level: number;
+  r: number;
+  noteId?: string;
+  clusterId?: string; // ClusterNode id, for cluster and subcluster nodes
+  x?: number;
+  y?: number;
+}
+
+export interface GraphLink {
+  source: string;
+  target: string;
+  level: number;
+}
+
+export interface GraphLayout {
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+// ============================================================================
+// Flattening
+// ============================================================================
+
+/** Convert hierarchical cluster data to flat nodes/links for D3 (recursive for all levels) */
+export const buildGraphData = (clusters: ClusterNode[]): GraphLayout => {
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
+  const seenIds = new Set<string>(); // Track IDs to avoid duplicates
+
+  // Root node
+  const rootId = "graph-root";
+  nodes.push({ id: rootId, name: "Knowledge Base", type: "root", level: 0, r: 35 });
+  seenIds.add(rootId);
+
+  // Recursively process clusters at any depth
+  const processCluster = (cluster: ClusterNode, parentId: string, level: number) => {
+    // Create unique ID for this cluster - include parent ID to avoid collisions across domains
+    const clusterId = `cluster-${parentId}-L${level}-${cluster.id}`;
+
+    // Skip if already processed (avoid duplicate nodes)
+    if (seenIds.has(clusterId)) {
+      console.warn(`Duplicate cluster ID: ${clusterId}, skipping`);
+      return;
+    }
+    seenIds.add(clusterId);
+
+    // Determine node type and size based on level
+    const isSubcluster = level > 1;
+    const radius = Math.max(12, 25 - level * 4);
+
+    nodes.push({
+      id: clusterId,
+      name: cluster.name,
+      type: isSubcluster ? "subcluster" : "cluster",
+      level,
+      r: radius,
+      clusterId: cluster.id,
+    });
+    links.push({ source: parentId, target: clusterId, level });
+
+    // Process children (can be notes or nested clusters)
+    cluster.children?.forEach((child) => {
+      if (child.type === "note") {
+        // Create unique ID for note - include parent cluster ID to avoid collisions
+        const noteId = `note-${clusterId}-${child.noteId || child.id}`;
+
+        // Skip duplicate notes
+        if (seenIds.has(noteId)) {
+          return;
+        }
+        seenIds.add(noteId);
+
+        nodes.push({
+          id: noteId,
+          name: child.name,
+          type: "note",
+          noteId: child.noteId,
+          level: level + 1,
+          r: 8,
+        });
+        // Link note to its DIRECT parent (the current cluster)
+        links.push({ source: clusterId, target: noteId, level: level + 1 });
+      } else if (child.type === "cluster") {
+        // Nested cluster - recurse with current cluster as parent
+        processCluster(child, clusterId, level + 1);
+      } else {
+        console.warn(`⚠️ Unknown child type: "${child.type}" for "${child.name}"`);
+      }
+    });
+  };
+
+  // Process all top-level clusters
+  clusters.forEach((cluster) => {
+    processCluster(cluster, rootId, 1);
+  });
+
+  console.log(`📊 Graph data: ${nodes.length} nodes, ${links.length} links`);
+  return { nodes, links };
+};
+
+/** Every cluster of the tree with its depth (1 = top level), parents first */
+export const listClusters = (
+  clusters: ClusterNode[],
+  depth = 1
+): { cluster: ClusterNode; depth: number }[] =>
+  clusters
+    .filter((node) => node.type === "cluster")
+    .flatMap((cluster) => [
+      { cluster, depth },
+      ...listClusters(cluster.children || [], depth + 1),
+    ]);
+
+// ============================================================================
+// Initial Positions
+// ============================================================================
+
+/**
+ * Flatten the tree and place the root in the centre and every other node on
+ * a circle whose radius grows with depth, so the simulation never starts
+ * from undefined / NaN coordinates
+ */
+export const prepareGraphLayout = (
+  clusters: ClusterNode[],
+  width: number,
+  height: number
+): GraphLayout => {
+  const layout = buildGraphData(clusters);
+
+  layout.nodes.forEach((node, i) => {
+    if (node.type === "root") {
+      node.x = width / 2;
+      node.y = height / 2;
+    } else {
+      // Spread nodes in a circle initially
+      const angle = (i / layout.nodes.length) * 2 * Math.PI;
+      const radius = 100 + node.level * 50;
+      node.x = width / 2 + Math.cos(angle) * radius;
+      node.y = height / 2 + Math.sin(angle) * radius;
+    }
+  });
+
+  return layout;
+};
@@ -3,11 +3,17 @@
  *
  * This file demonstrates how to use the mock notes dataset with your
  * three-phase semantic clustering system.
+ *
+ * Test 7 swaps in the deterministic mock LLM provider, so it runs offline
+ * without an API key.
  */
 
-import { generateMockNotes, generateClusteredMockNotes } from "./mockNotes";
-import { fullSemanticClustering } from "./services/clusteringService";
-import { getAllNotes, bulkSaveNotes } from "./services/storageService";
+import { ClusterNode } from "../types";
+import { generateMockNotes, generateClusteredMockNotes } from "../mockNotes";
+import { fullSemanticClustering } from "./clusteringService";
+import { getAllNotes, bulkSaveNotes } from "./storageService";
+import { getLLMProvider, setLLMProvider } from "./llmProvider";
+import { createMockLLMProvider } from "./mockLLMProvider";
 
 /**
  * Test 1: Generate and validate mock notes
@@ -110,7 +116,7 @@ export async function testFullSemanticClustering() {
 
     console.log(`✅ Full clustering complete:`);
     console.log(`  • Clusters: ${result.clusters.length}`);
-    console.log(`  • Semantic Centroids: ${result.semanticCentroids.size}`);
+    console.log(`  • Semantic Centroids: ${result.centroids.size}`);
     console.log(`  • Hard Samples Detected: ${result.hardSamples.length}`);
     console.log(
       `  • Constraints Generated: ${result.constraints.totalConstraints}`
@@ -216,6 +222,58 @@ export async function testPerformanceBenchmark() {
   }
 }
 
+/**
+ * Test 7: Full pipeline offline with the mock LLM provider
+ */
+export async function testOfflineClusteringWithMockProvider() {
+  console.log("\n🧪 TEST 7: Offline Clustering with Mock LLM Provider");
+
+  const notes = generateMockNotes();
+  const previousProvider = getLLMProvider();
+  setLLMProvider(createMockLLMProvider());
+
+  try {
+    const result = await fullSemanticClustering(notes, {
+      useHybridEmbeddings: true,
+      useSemanticEnhancement: true,
+      generateCentroids: true,
+      detectHardSamples: true,
+    });
+
+    // Every note must appear exactly once in the tree
+    const seen = new Map<string, number>();
+    const visit = (node: ClusterNode) => {
+      if (node.type === "note" && node.noteId) {
+        seen.set(node.noteId, (seen.get(node.noteId) || 0) + 1);
+      }
+      node.children?.forEach(visit);
+    };
+    result.clusters.forEach(visit);
+
+    const missing = notes.filter((n) => !seen.has(n.id));
+    const duplicated = Array.from(seen.entries()).filter(([, c]) => c > 1);
+    if (missing.length > 0 || duplicated.length > 0) {
+      throw new Error(
+        `Cluster tree mismatch: ${missing.length} missing, ${duplicated.length} duplicated notes`
+      );
+    }
+    if (result.clusters.some((c) => c.type !== "cluster" || !c.name)) {
+      throw new Error("Top-level nodes must be named clusters");
+    }
+
+    console.log(`✅ Offline clustering complete:`);
+    console.log(`  • Clusters: ${result.clusters.length}`);
+    console.log(`  • All ${notes.length} notes assigned exactly once`);
+
+    return result;
+  } catch (e) {
+    console.error("❌ Offline clustering failed:", e);
+    throw e;
+  } finally {
+    setLLMProvider(previousProvider);
+  }
+}
+
 /**
  * Run all integration tests
  */
@@ -242,6 +300,9 @@ export async function runAllIntegrationTests() {
     // Test 6: Performance
     await testPerformanceBenchmark();
 
+    // Test 7: Offline pipeline
+    await testOfflineClusteringWithMockProvider();
+
     console.log("\n✅ All integration tests passed!");
     console.log("=============================================");
   } catch (e) {
@@ -260,6 +321,7 @@ export async function runAllIntegrationTests() {
  * window.testFullSemanticClustering();
  * window.testValidateClusteringQuality();
  * window.testPerformanceBenchmark();
+ * window.testOfflineClusteringWithMockProvider();
  *
  * // Run all tests:
  * window.runAllIntegrationTests();
@@ -273,5 +335,7 @@ if (typeof window !== "undefined") {
   (window as any).testFullSemanticClustering = testFullSemanticClustering;
   (window as any).testValidateClusteringQuality = testValidateClusteringQuality;
   (window as any).testPerformanceBenchmark = testPerformanceBenchmark;
+  (window as any).testOfflineClusteringWithMockProvider =
+    testOfflineClusteringWithMockProvider;
   (window as any).runAllIntegrationTests = runAllIntegrationTests;
 }
@@ -0,0 +1,181 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every AI call in the app (clustering prompts, semantic search, text
+ * correction and embeddings) goes through the provider returned by
+ * getLLMProvider(). This keeps vendor SDKs out of the services and lets the
+ * backend be switched at runtime, e.g. to a local llama.cpp / Ollama server.
+ *
+ * Key Features:
+ * - Vendor-neutral response schema for structured JSON output
+ * - Gemini and OpenAI-compatible HTTP implementations
+ * - Deterministic offline mock for tests and demos
+ * - Runtime selection persisted in LocalStorage, with env-based defaults
+ * - Remote providers share one request scheduler (rate limits, retries)
+ *
+ * Main Entry Points:
+ * - getLLMProvider(): Active provider instance
+ * - setLLMProviderConfig(): Switch provider and persist the choice
+ * - setLLMProvider(): Inject a provider instance directly
+ * - onLLMProviderChange(): Subscribe to provider switches
+ */
+
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockLLMProvider } from "./mockLLMProvider";
+import {
+  createRequestScheduler,
+  withRequestScheduler,
+} from "./requestScheduler";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Vendor-neutral subset of JSON schema used for structured output */
+export interface ResponseSchema {
+  type: "object" | "array" | "string" | "number" | "boolean";
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface RequestOptions {
+  /** Cancels the request, including any queued retries */
+  signal?: AbortSignal;
+}
+
+export interface GenerateOptions extends RequestOptions {
+  systemInstruction?: string;
+}
+
+export interface LLMProvider {
+  /** Provider identifier, e.g. "gemini" */
+  readonly id: string;
+  /** Model used for text / JSON generation */
+  readonly model: string;
+  /** Model used for embeddings (recorded on every NoteEmbedding) */
+  readonly embeddingModel: string;
+  /** Generate a JSON document matching `schema`; returns the raw JSON text ("" if empty) */
+  generateJSON(
+    prompt: string,
+    schema: ResponseSchema,
+    options?: GenerateOptions
+  ): Promise<string>;
+  /** Generate free-form text ("" if empty) */
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+  /** Embed a single text; returns an empty vector if the backend returned none */
+  embed(text: string, options?: RequestOptions): Promise<number[]>;
+}
+
+export type LLMProviderId = "gemini" | "openai-compatible" | "mock";
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  /** Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  embeddingModel?: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PROVIDER_CONFIG_KEY = "llm_provider_config_v1";
+
+/** Defaults come from the build environment (see vite.config.ts) */
+const getDefaultConfig = (): LLMProviderConfig => ({
+  provider:
+    process.env.LLM_PROVIDER === "openai-compatible" ||
+    process.env.LLM_PROVIDER === "mock"
+      ? process.env.LLM_PROVIDER
+      : "gemini",
+  baseUrl: process.env.LLM_BASE_URL || undefined,
+  apiKey: process.env.LLM_API_KEY || undefined,
+  model: process.env.LLM_MODEL || undefined,
+  embeddingModel: process.env.LLM_EMBEDDING_MODEL || undefined,
+});
+
+export const loadLLMProviderConfig = (): LLMProviderConfig => {
+  try {
+    const raw = localStorage.getItem(PROVIDER_CONFIG_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as LLMProviderConfig;
+      if (parsed.provider) {
+        return parsed;
+      }
+    }
+  } catch (e) {
+    console.warn("Failed to load LLM provider config:", e);
+  }
+  return getDefaultConfig();
+};
+
+// Shared across provider switches so limits hold for the whole session
+const requestScheduler = createRequestScheduler();
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case "openai-compatible":
+      return withRequestScheduler(
+        createOpenAICompatibleProvider(config),
+        requestScheduler
+      );
+    case "mock":
+      return createMockLLMProvider();
+    case "gemini":
+    default:
+      return withRequestScheduler(
+        createGeminiProvider(config),
+        requestScheduler
+      );
+  }
+};
+
+// ============================================================================
+// Active Provider
+// ============================================================================
+
+let activeProvider: LLMProvider | null = null;
+const changeListeners = new Set<() => void>();
+
+const notifyChange = () => changeListeners.forEach((listener) => listener());
+
+/** Subscribe to provider switches; returns an unsubscribe function */
+export const onLLMProviderChange = (listener: () => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(loadLLMProviderConfig());
+  }
+  return activeProvider;
+};
+
+/** Replace the active provider instance (not persisted) */
+export const setLLMProvider = (provider: LLMProvider | null): void => {
+  activeProvider = provider;
+  notifyChange();
+};
+
+/** Switch provider and persist the configuration for future sessions */
+export const setLLMProviderConfig = (config: LLMProviderConfig): LLMProvider => {
+  try {
+    localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Failed to save LLM provider config:", e);
+  }
+  activeProvider = createLLMProvider(config);
+  console.log(
+    `🔌 LLM provider switched to ${activeProvider.id} (${activeProvider.model})`
+  );
+  notifyChange();
+  return activeProvider;
+};
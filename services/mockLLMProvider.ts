@@ -0,0 +1,334 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic, fully offline LLMProvider for tests and demos. Embeddings are
+ * hashed bag-of-words vectors, and structured prompts are answered by simple
+ * rules instead of a model, so the whole clustering pipeline can run without
+ * an API key and always produces the same ClusterNode tree for the same notes.
+ *
+ * Prompts are recognised by their response schema (required fields) and the
+ * note data is read back out of the prompt text, so the rules here are coupled
+ * to the prompts in geminiService.ts:
+ * - { name, description }           → generateClusterName / generateSemanticClusterName
+ * - { description, keywords, ... }  → generateSemanticCentroid
+ * - { ambiguityScore, ... }         → detectHardSample
+ * - [{ noteIds }]                   → dualPromptClusterNotesWithGemini (initial)
+ * - [{ children }]                  → dualPromptClusterNotesWithGemini (refinement)
+ * - [{ noteId, score, reason }]     → semanticSearchWithGemini
+ */
+
+import type {
+  GenerateOptions,
+  LLMProvider,
+  ResponseSchema,
+} from "./llmProvider";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MOCK_EMBEDDING_DIM = 256;
+const MOCK_MODEL = "mock-llm";
+const MOCK_EMBEDDING_MODEL = "mock-embedding-bow-256";
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "with", "that", "this", "from", "into", "they",
+  "their", "them", "using", "use", "uses", "your", "you", "can", "its", "was",
+  "were", "has", "have", "been", "but", "not", "all", "any", "each", "more",
+  "most", "other", "such", "than", "then", "these", "those", "what", "which",
+  "when", "where", "while", "how", "why", "who", "will", "would", "should",
+  "could", "also", "like", "only", "over", "via", "per", "about", "between",
+]);
+
+// ============================================================================
+// Text Helpers
+// ============================================================================
+
+/** Lowercase word tokens without stop words or very short tokens */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+/** 32-bit FNV-1a hash */
+const hashToken = (token: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+/**
+ * Deterministic hashed bag-of-words embedding (L2-normalised).
+ * Texts sharing vocabulary get a high cosine similarity.
+ */
+export const hashedEmbedding = (
+  text: string,
+  dim: number = MOCK_EMBEDDING_DIM
+): number[] => {
+  const vector = new Array(dim).fill(0);
+  tokenize(text).forEach((token) => {
+    const h = hashToken(token);
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % dim] += sign;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot; // vectors are already normalised
+};
+
+const titleCase = (word: string): string =>
+  word.charAt(0).toUpperCase() + word.slice(1);
+
+/** Most frequent tokens, ties broken alphabetically for determinism */
+const topKeywords = (texts: string[], limit: number): string[] => {
+  const freq = new Map<string, number>();
+  texts.forEach((text) =>
+    tokenize(text).forEach((token) =>
+      freq.set(token, (freq.get(token) || 0) + 1)
+    )
+  );
+  return Array.from(freq.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+/** Parse the first JSON array/object that follows `marker` in the prompt */
+const extractJSONAfter = <T>(prompt: string, marker: string): T | null => {
+  const markerIndex = prompt.indexOf(marker);
+  if (markerIndex === -1) return null;
+
+  const start = prompt.slice(markerIndex + marker.length).search(/[[{]/);
+  if (start === -1) return null;
+  const from = markerIndex + marker.length + start;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = from; i < prompt.length; i++) {
+    const ch = prompt[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "[" || ch === "{") depth++;
+    else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(prompt.slice(from, i + 1)) as T;
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const extractLine = (prompt: string, label: string): string => {
+  const match = prompt.match(new RegExp(`${label}\\s*(.*)`));
+  return match ? match[1].trim() : "";
+};
+
+// ============================================================================
+// Rule-Based Responses
+// ============================================================================
+
+type NoteLite = {
+  id?: string;
+  title: string;
+  contentSnippet?: string;
+  tags?: string[];
+};
+
+const noteText = (note: NoteLite) =>
+  `${note.title} ${note.contentSnippet || ""}`;
+
+const nameFromTexts = (texts: string[]) => {
+  const keywords = topKeywords(texts, 3);
+  if (keywords.length === 0) {
+    return { name: "General Notes", description: "Notes without a clear theme" };
+  }
+  return {
+    name: keywords.slice(0, 2).map(titleCase).join(" "),
+    description: `Notes about ${keywords.join(", ")}`,
+  };
+};
+
+const respondClusterName = (prompt: string) => {
+  const notes = extractJSONAfter<NoteLite[]>(prompt, "Notes:") || [];
+  return nameFromTexts(notes.map(noteText));
+};
+
+const respondCentroid = (prompt: string) => {
+  const section =
+    prompt.split("Cluster Notes:")[1]?.split("Current Description:")[0] || "";
+  const lines = section
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("- "));
+  const keywords = topKeywords(lines, 5);
+  return {
+    description:
+      keywords.length > 0
+        ? `Notes about ${keywords.slice(0, 3).join(", ")}`
+        : "Cluster",
+    keywords,
+    confidence: lines.length > 1 ? 0.85 : 0.6,
+  };
+};
+
+const respondHardSample = (prompt: string) => {
+  const possibleClusters = extractLine(prompt, "Possible Clusters:")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  // The mock never flags notes as ambiguous, keeping the tree stable
+  return {
+    ambiguityScore: 0.1,
+    possibleClusters: possibleClusters.slice(0, 1),
+    shouldAugment: false,
+  };
+};
+
+/** Group notes by their most widespread tag */
+const respondInitialClusters = (prompt: string) => {
+  const notes = extractJSONAfter<NoteLite[]>(prompt, "Notes to cluster:") || [];
+
+  const tagFreq = new Map<string, number>();
+  notes.forEach((n) =>
+    (n.tags || []).forEach((tag) => tagFreq.set(tag, (tagFreq.get(tag) || 0) + 1))
+  );
+
+  const groups = new Map<string, string[]>();
+  notes.forEach((note) => {
+    const tags = [...(note.tags || [])].sort(
+      (a, b) => (tagFreq.get(b) || 0) - (tagFreq.get(a) || 0) || a.localeCompare(b)
+    );
+    const key = tags[0] || topKeywords([note.title], 1)[0] || "general";
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(note.id || "");
+  });
+
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, noteIds]) => ({
+      id: `mock-${key}`,
+      name: key.split(/[-_]/).map(titleCase).join(" "),
+      description: `Notes tagged ${key}`,
+      noteIds,
+    }));
+};
+
+/** Turn the initial clusters from the prompt into a cluster tree */
+const respondClusterTree = (prompt: string) => {
+  const notes = extractJSONAfter<NoteLite[]>(prompt, "Notes:") || [];
+  const initial =
+    extractJSONAfter<ReturnType<typeof respondInitialClusters>>(
+      prompt,
+      "Initial Clusters:"
+    ) || respondInitialClusters(`Notes to cluster:\n${JSON.stringify(notes)}`);
+  const titles = new Map(notes.map((n) => [n.id, n.title] as const));
+
+  return initial.map((cluster) => ({
+    id: cluster.id,
+    name: cluster.name,
+    type: "cluster",
+    description: cluster.description,
+    children: cluster.noteIds.map((noteId) => ({
+      id: `note-${noteId}`,
+      name: titles.get(noteId) || noteId,
+      type: "note",
+      noteId,
+    })),
+  }));
+};
+
+const respondSearch = (prompt: string) => {
+  const query = prompt.match(/User Query: "([\s\S]*?)"\n/)?.[1] || "";
+  const notes = extractJSONAfter<NoteLite[]>(prompt, "Notes Data") || [];
+  const queryVector = hashedEmbedding(query);
+  const queryTokens = new Set(tokenize(query));
+
+  return notes
+    .map((note) => {
+      const similarity = cosine(queryVector, hashedEmbedding(noteText(note)));
+      const shared = Array.from(new Set(tokenize(noteText(note)))).filter((t) =>
+        queryTokens.has(t)
+      );
+      return {
+        noteId: note.id || "",
+        score: Math.round(Math.max(0, similarity) * 100),
+        reason: shared.length
+          ? `Shares terms: ${shared.slice(0, 3).join(", ")}`
+          : "Similar vocabulary",
+      };
+    })
+    .filter((r) => r.score >= 10)
+    .sort((a, b) => b.score - a.score || a.noteId.localeCompare(b.noteId));
+};
+
+const requiredFields = (schema: ResponseSchema): string[] =>
+  (schema.type === "array" ? schema.items?.required : schema.required) || [];
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export const createMockLLMProvider = (): LLMProvider => ({
+  id: "mock",
+  model: MOCK_MODEL,
+  embeddingModel: MOCK_EMBEDDING_MODEL,
+
+  async generateJSON(
+    prompt: string,
+    schema: ResponseSchema,
+    _options?: GenerateOptions
+  ): Promise<string> {
+    const required = requiredFields(schema);
+    let result: unknown;
+
+    if (required.includes("ambiguityScore")) {
+      result = respondHardSample(prompt);
+    } else if (required.includes("keywords")) {
+      result = respondCentroid(prompt);
+    } else if (required.includes("noteIds")) {
+      result = respondInitialClusters(prompt);
+    } else if (required.includes("children")) {
+      result = respondClusterTree(prompt);
+    } else if (required.includes("score")) {
+      result = respondSearch(prompt);
+    } else if (required.includes("name")) {
+      result = respondClusterName(prompt);
+    } else {
+      throw new Error(
+        `Mock LLM provider has no rule for schema with fields: ${required.join(", ")}`
+      );
+    }
+
+    return JSON.stringify(result);
+  },
+
+  async generateText(prompt: string): Promise<string> {
+    // Text correction: echo the text back unchanged
+    const [, text] = prompt.split("Text to fix:");
+    return text ? text.trim() : "";
+  },
+
+  async embed(text: string): Promise<number[]> {
+    return hashedEmbedding(text);
+  },
+});
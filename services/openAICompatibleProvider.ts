@@ -0,0 +1,144 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * LLMProvider implementation that talks plain HTTP to any server exposing the
+ * OpenAI `/chat/completions` and `/embeddings` endpoints, such as a local
+ * llama.cpp server, Ollama, vLLM or LM Studio. Notes never leave the machine
+ * when pointed at a local server.
+ */
+
+import type {
+  GenerateOptions,
+  LLMProvider,
+  LLMProviderConfig,
+  RequestOptions,
+  ResponseSchema,
+} from "./llmProvider";
+import { LLMRequestError, parseRetryAfter } from "./requestScheduler";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const DEFAULT_MODEL = "llama3.1";
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+
+type ChatMessage = { role: "system" | "user"; content: string };
+
+// The parts of the /chat/completions and /embeddings responses that are read
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+type EmbeddingResponse = { data?: { embedding?: number[] }[] };
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export const createOpenAICompatibleProvider = (
+  config: Partial<LLMProviderConfig> = {}
+): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const model = config.model || DEFAULT_MODEL;
+  const embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+  const post = async <T>(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new LLMRequestError(
+        `LLM request to ${path} failed with ${response.status}: ${detail.substring(
+          0,
+          200
+        )}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+    return response.json();
+  };
+
+  const buildMessages = (
+    prompt: string,
+    options?: GenerateOptions
+  ): ChatMessage[] => {
+    const messages: ChatMessage[] = [];
+    if (options?.systemInstruction) {
+      messages.push({ role: "system", content: options.systemInstruction });
+    }
+    messages.push({ role: "user", content: prompt });
+    return messages;
+  };
+
+  const extractContent = (data: ChatCompletionResponse): string => {
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      console.warn("❌ Could not extract text from response:", data);
+      return "";
+    }
+    return content;
+  };
+
+  return {
+    id: "openai-compatible",
+    model,
+    embeddingModel,
+
+    async generateJSON(
+      prompt: string,
+      schema: ResponseSchema,
+      options?: GenerateOptions
+    ): Promise<string> {
+      const data = await post<ChatCompletionResponse>(
+        "/chat/completions",
+        {
+          model,
+          messages: buildMessages(prompt, options),
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema },
+          },
+        },
+        options?.signal
+      );
+      return extractContent(data);
+    },
+
+    async generateText(
+      prompt: string,
+      options?: GenerateOptions
+    ): Promise<string> {
+      const data = await post<ChatCompletionResponse>(
+        "/chat/completions",
+        { model, messages: buildMessages(prompt, options) },
+        options?.signal
+      );
+      return extractContent(data);
+    },
+
+    async embed(text: string, options?: RequestOptions): Promise<number[]> {
+      const data = await post<EmbeddingResponse>(
+        "/embeddings",
+        { model: embeddingModel, input: text },
+        options?.signal
+      );
+      return data?.data?.[0]?.embedding ?? [];
+    },
+  };
+};
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createRequestScheduler,
+  isRetryableError,
+  LLMRequestError,
+  parseRetryAfter,
+} from "./requestScheduler";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, "random").mockReturnValue(1); // no jitter
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("isRetryableError", () => {
+  it("retries quota, server and network errors only", () => {
+    expect(isRetryableError(new LLMRequestError("x", 429))).toBe(true);
+    expect(isRetryableError(new LLMRequestError("x", 503))).toBe(true);
+    expect(isRetryableError(new LLMRequestError("x", 400))).toBe(false);
+    expect(isRetryableError(new Error("got status 500 from server"))).toBe(true);
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableError(new Error("bad schema"))).toBe(false);
+    expect(isRetryableError(new DOMException("x", "AbortError"))).toBe(false);
+  });
+
+  it("parses Retry-After seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe("createRequestScheduler", () => {
+  it("starts a burst at once and then paces requests by the refill rate", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerSecond: 2,
+      burst: 2,
+      maxConcurrent: 10,
+    });
+    const started: number[] = [];
+    const run = () =>
+      scheduler.schedule(async () => {
+        started.push(Date.now());
+      });
+
+    const t0 = Date.now();
+    const all = Promise.all([run(), run(), run(), run()]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started.length).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started.length).toBe(3);
+    await vi.advanceTimersByTimeAsync(500);
+    await all;
+    expect(started.map((t) => t - t0)).toEqual([0, 0, 500, 1000]);
+  });
+
+  it("never runs more than maxConcurrent requests at once", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerSecond: 100,
+      burst: 100,
+      maxConcurrent: 2,
+    });
+    let running = 0;
+    let peak = 0;
+    const task = () =>
+      scheduler.schedule(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        running--;
+      });
+
+    const all = Promise.all(Array.from({ length: 5 }, task));
+    await vi.advanceTimersByTimeAsync(1000);
+    await all;
+    expect(peak).toBe(2);
+  });
+
+  it("retries 5xx errors with exponential backoff", async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 100, maxRetries: 3 });
+    const attempts: number[] = [];
+    const t0 = Date.now();
+    const result = scheduler.schedule(async () => {
+      attempts.push(Date.now() - t0);
+      if (attempts.length < 3) throw new LLMRequestError("unavailable", 503);
+      return "ok";
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe("ok");
+    expect(attempts).toEqual([0, 100, 300]);
+  });
+
+  it("gives up after maxRetries and does not retry client errors", async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 10, maxRetries: 2 });
+    const failing = vi.fn().mockRejectedValue(new LLMRequestError("busy", 500));
+    const invalid = vi.fn().mockRejectedValue(new LLMRequestError("bad", 400));
+
+    const busy = scheduler.schedule(failing);
+    const bad = scheduler.schedule(invalid);
+    busy.catch(() => {});
+    bad.catch(() => {});
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(busy).rejects.toThrow("busy");
+    expect(failing).toHaveBeenCalledTimes(3);
+    await expect(bad).rejects.toThrow("bad");
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+
+  it("pauses the whole queue on 429, honouring Retry-After", async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 1 });
+    const started: Array<[string, number]> = [];
+    const t0 = Date.now();
+    let limited = false;
+
+    const first = scheduler.schedule(async () => {
+      started.push(["first", Date.now() - t0]);
+      if (!limited) {
+        limited = true;
+        throw new LLMRequestError("rate limited", 429, 2000);
+      }
+    });
+    const second = scheduler.schedule(async () => {
+      started.push(["second", Date.now() - t0]);
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await Promise.all([first, second]);
+    expect(started[0]).toEqual(["first", 0]);
+    // Nothing else starts while the quota is exhausted
+    started.slice(1).forEach(([, at]) => expect(at).toBeGreaterThanOrEqual(2000));
+  });
+
+  it("rejects queued and backing-off requests when aborted", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerSecond: 1,
+      burst: 1,
+      baseDelayMs: 1000,
+    });
+    const controller = new AbortController();
+    const retrying = vi.fn().mockRejectedValue(new LLMRequestError("down", 503));
+
+    const backingOff = scheduler.schedule(retrying, { signal: controller.signal });
+    const queued = scheduler.schedule(async () => "never", {
+      signal: controller.signal,
+    });
+    backingOff.catch(() => {});
+    queued.catch(() => {});
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await expect(backingOff).rejects.toThrow();
+    await expect(queued).rejects.toThrow();
+    expect(retrying).toHaveBeenCalledTimes(1);
+    expect(scheduler.queued).toBe(0);
+  });
+});
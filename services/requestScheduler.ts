@@ -0,0 +1,298 @@
+/**
+ * Request Scheduler
+ *
+ * Shared gate for outgoing AI requests. Every call made through the active
+ * LLM provider (see llmProvider.ts) waits here for a rate-limit token and a
+ * free concurrency slot, and is retried with exponential backoff when the
+ * backend reports a quota (429) or server (5xx) error.
+ *
+ * Key Features:
+ * - Token bucket: sustained requests per second with a short burst allowance
+ * - Concurrency limit across all callers (clustering, search, embeddings)
+ * - Quota-aware: a 429 pauses the whole queue, honouring Retry-After
+ * - Exponential backoff with jitter for retryable errors
+ * - Cancellation: queued, running and backing-off requests honour AbortSignal
+ *
+ * Main Entry Points:
+ * - createRequestScheduler(): Create a scheduler with its own limits
+ * - withRequestScheduler(): Route every call of a provider through a scheduler
+ */
+
+import type { LLMProvider } from "./llmProvider";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RequestSchedulerOptions {
+  /** Sustained request rate (token refill per second) */
+  requestsPerSecond: number;
+  /** Bucket capacity: requests that may start back to back */
+  burst: number;
+  /** Requests in flight at the same time */
+  maxConcurrent: number;
+  /** Retries after the first attempt for 429 / 5xx / network errors */
+  maxRetries: number;
+  /** First backoff delay; doubles on every retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  /** Shown in retry logs */
+  label?: string;
+}
+
+export interface RequestScheduler {
+  /** Run `task` once a token and slot are free, retrying transient failures */
+  schedule<T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    options?: ScheduleOptions
+  ): Promise<T>;
+  /** Requests waiting for a token or slot */
+  readonly queued: number;
+  /** Requests currently in flight */
+  readonly active: number;
+}
+
+/** HTTP failure from an AI backend, carrying what the scheduler needs to retry */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_OPTIONS: RequestSchedulerOptions = {
+  requestsPerSecond: 5,
+  burst: 10,
+  maxConcurrent: 6,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number") return status;
+
+  // Some SDK errors only carry the status in the message
+  const match = String((error as Error | null)?.message ?? "").match(
+    /\b(429|5\d\d)\b/
+  );
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as Error | null)?.name === "AbortError";
+
+/** 429 (quota), 5xx (server) and network failures are worth retrying */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = statusOf(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // fetch() rejects with a TypeError when the server cannot be reached
+  return error instanceof TypeError;
+};
+
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const abortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("The operation was aborted", "AbortError");
+
+/** Wait `ms`, rejecting with an AbortError as soon as `signal` aborts */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+export const createRequestScheduler = (
+  overrides: Partial<RequestSchedulerOptions> = {}
+): RequestScheduler => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const waiting: Array<{ start: () => void }> = [];
+
+  const refill = (now: number) => {
+    tokens = Math.min(
+      options.burst,
+      tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond
+    );
+    lastRefill = now;
+  };
+
+  const wake = (delayMs: number) => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, Math.max(0, Math.ceil(delayMs)));
+  };
+
+  const pump = () => {
+    const now = Date.now();
+    refill(now);
+    if (now < pausedUntil) {
+      if (waiting.length) wake(pausedUntil - now);
+      return;
+    }
+    while (waiting.length && active < options.maxConcurrent && tokens >= 1) {
+      tokens -= 1;
+      active++;
+      waiting.shift()!.start();
+    }
+    // Slots free up in release(); only an empty bucket needs a timer
+    if (waiting.length && active < options.maxConcurrent) {
+      wake(((1 - tokens) / options.requestsPerSecond) * 1000);
+    }
+  };
+
+  const acquire = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError(signal));
+      const onAbort = () => {
+        const index = waiting.indexOf(entry);
+        if (index !== -1) waiting.splice(index, 1);
+        reject(abortError(signal!));
+      };
+      const entry = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      waiting.push(entry);
+      pump();
+    });
+
+  const release = () => {
+    active--;
+    pump();
+  };
+
+  /** A 429 means the quota is spent for everyone, not just this request */
+  const pauseQueue = (delayMs: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+    tokens = Math.min(tokens, 0);
+  };
+
+  const schedule = async <T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    { signal, label = "AI request" }: ScheduleOptions = {}
+  ): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(signal);
+      let error: unknown;
+      try {
+        const result = await task(signal);
+        release();
+        return result;
+      } catch (e) {
+        error = e;
+      }
+
+      const retry =
+        !signal?.aborted &&
+        attempt < options.maxRetries &&
+        isRetryableError(error);
+      const status = statusOf(error);
+      const backoff =
+        Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt) *
+        (0.5 + Math.random() / 2);
+      const delay =
+        (error as Partial<LLMRequestError>).retryAfterMs ?? backoff;
+      // Pause before releasing the slot so no queued request slips through
+      if (status === 429) pauseQueue(delay);
+      release();
+
+      if (signal?.aborted) throw abortError(signal);
+      if (!retry) throw error;
+
+      console.warn(
+        `⏳ ${label} failed${status ? ` with ${status}` : ""}, retrying in ${Math.round(
+          delay
+        )}ms (${attempt + 1}/${options.maxRetries})`
+      );
+      await sleep(delay, signal);
+    }
+  };
+
+  return {
+    schedule,
+    get queued() {
+      return waiting.length;
+    },
+    get active() {
+      return active;
+    },
+  };
+};
+
+/** Provider whose calls all go through `scheduler`; signals are forwarded */
+export const withRequestScheduler = (
+  provider: LLMProvider,
+  scheduler: RequestScheduler
+): LLMProvider => ({
+  id: provider.id,
+  model: provider.model,
+  embeddingModel: provider.embeddingModel,
+
+  generateJSON: (prompt, schema, options) =>
+    scheduler.schedule(
+      (signal) => provider.generateJSON(prompt, schema, { ...options, signal }),
+      { signal: options?.signal, label: `${provider.id} generateJSON` }
+    ),
+
+  generateText: (prompt, options) =>
+    scheduler.schedule(
+      (signal) => provider.generateText(prompt, { ...options, signal }),
+      { signal: options?.signal, label: `${provider.id} generateText` }
+    ),
+
+  embed: (text, options) =>
+    scheduler.schedule((signal) => provider.embed(text, { ...options, signal }), {
+      signal: options?.signal,
+      label: `${provider.id} embed`,
+    }),
+});
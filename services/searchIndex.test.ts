@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Note } from '../types';
+import {
+  addNotesToIndex,
+  flushSearchIndex,
+  loadSearchIndex,
+  parseIndexQuery,
+  removeNotesFromIndex,
+  resetSearchIndex,
+  searchIndex,
+  syncSearchIndex,
+  tokenize,
+} from './searchIndex';
+
+const makeNote = (id: string, title: string, content: string): Note => ({
+  id,
+  title,
+  content,
+  tags: [],
+  createdAt: '2024-01-01',
+  folder: '/test',
+});
+
+const NOTES: Note[] = [
+  makeNote('k8s', 'Kubernetes Pods', 'A pod groups containers. Pods are scheduled onto nodes.'),
+  makeNote('docker', 'Docker Basics', 'Containers package an app with its dependencies.'),
+  makeNote('bread', 'Sourdough', 'Flour, water, salt and an active starter.'),
+];
+
+const ids = (query: string) => searchIndex(parseIndexQuery(query)).map((h) => h.noteId);
+
+describe('searchIndex', () => {
+  beforeEach(async () => {
+    await resetSearchIndex();
+    syncSearchIndex(NOTES);
+  });
+
+  it('tokenizes on non-alphanumerics, lowercased', () => {
+    expect(tokenize('React.memo & useMemo, café-au-lait')).toEqual(['react', 'memo', 'usememo', 'café', 'au', 'lait']);
+  });
+
+  it('parses AND groups separated by OR, prefix-matching only the final term', () => {
+    expect(parseIndexQuery('pods AND nodes OR flour sal')).toEqual([
+      [
+        { term: 'pods', prefix: false },
+        { term: 'nodes', prefix: false },
+      ],
+      [
+        { term: 'flour', prefix: false },
+        { term: 'sal', prefix: true },
+      ],
+    ]);
+  });
+
+  it('ranks by BM25 with AND semantics within a group', () => {
+    // Same term frequency; the shorter note ranks higher
+    expect(ids('containers')).toEqual(['docker', 'k8s']);
+    expect(ids('pods')).toEqual(['k8s']);
+    expect(ids('docker containers')).toEqual(['docker']);
+  });
+
+  it('applies index updates incrementally', () => {
+    addNotesToIndex([makeNote('bread', 'Rye Bread', 'Rye flour and caraway.')]);
+    expect(ids('sourdough')).toEqual([]);
+    expect(ids('caraway')).toEqual(['bread']);
+
+    removeNotesFromIndex(['docker']);
+    expect(ids('docker')).toEqual([]);
+    expect(ids('containers')).toEqual(['k8s']);
+  });
+
+  it('drops notes that are no longer in the synced corpus', () => {
+    syncSearchIndex(NOTES.slice(0, 1));
+    expect(ids('containers')).toEqual(['k8s']);
+  });
+
+  it('persists term frequencies to IndexedDB and reloads them', async () => {
+    await flushSearchIndex();
+
+    vi.resetModules();
+    const reloaded = await import('./searchIndex');
+    await reloaded.loadSearchIndex();
+    expect(reloaded.searchIndex(parseIndexQuery('starter')).map((h) => h.noteId)).toEqual(['bread']);
+  });
+
+  it('persists removals', async () => {
+    await flushSearchIndex();
+    removeNotesFromIndex(['bread']);
+    await flushSearchIndex();
+
+    vi.resetModules();
+    const reloaded = await import('./searchIndex');
+    await reloaded.loadSearchIndex();
+    expect(reloaded.searchIndex(parseIndexQuery('starter'))).toEqual([]);
+  });
+
+  it('drops the legacy LocalStorage copy', async () => {
+    localStorage.setItem('search_index_v1', '{"version":1,"docs":{}}');
+    await resetSearchIndex();
+    await loadSearchIndex();
+    expect(localStorage.getItem('search_index_v1')).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+import { Note, SearchIndexEntry } from '../types';
+import { hashNoteContent } from './clusteringService';
+import { clearSearchIndexEntries, getSearchIndexEntries, updateSearchIndexEntries } from './storageService';
+
+/**
+ * Persistent BM25 inverted index over note titles and content.
+ *
+ * Only per-note term frequencies are persisted, one IndexedDB record per note,
+ * so a save rewrites just the notes that changed. Postings lists are rebuilt in
+ * memory when the index loads. storageService keeps the index current on
+ * save/delete, and syncSearchIndex() reconciles it with whatever note list a
+ * search runs on.
+ */
+
+// v1 kept the whole index in one LocalStorage key, which outgrew the quota
+const LEGACY_INDEX_KEY = 'search_index_v1';
+const PERSIST_DELAY_MS = 1000;
+
+// BM25 parameters (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+// Title terms count this many times towards term frequency
+const TITLE_BOOST = 2;
+// The last query term is matched as a prefix once it is this long
+const MIN_PREFIX_LENGTH = 2;
+
+type IndexedDoc = Omit<SearchIndexEntry, 'noteId'>;
+
+type IndexState = {
+  docs: Map<string, IndexedDoc>;
+  postings: Map<string, Map<string, number>>;
+  totalLength: number;
+};
+
+export type IndexQueryTerm = {
+  term: string;
+  prefix: boolean;
+};
+
+/** OR of AND-groups: [[a, b], [c]] matches (a AND b) OR c */
+export type IndexQuery = IndexQueryTerm[][];
+
+export interface IndexSearchHit {
+  noteId: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+let state: IndexState | null = null;
+let loading: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Notes indexed or removed since the last write
+const dirtyIds = new Set<string>();
+const signatureCache = new WeakMap<Note, string>();
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const noteSignature = (note: Note): string => {
+  const cached = signatureCache.get(note);
+  if (cached) return cached;
+
+  const signature = hashNoteContent(note);
+  signatureCache.set(note, signature);
+  return signature;
+};
+
+const buildDoc = (note: Note): IndexedDoc => {
+  const tf: Record<string, number> = {};
+  let length = 0;
+  const add = (tokens: string[], weight: number) => {
+    tokens.forEach((token) => {
+      tf[token] = (tf[token] || 0) + weight;
+      length += weight;
+    });
+  };
+  add(tokenize(note.title), TITLE_BOOST);
+  add(tokenize(note.content), 1);
+  return { signature: noteSignature(note), length, tf };
+};
+
+const addDoc = (index: IndexState, noteId: string, doc: IndexedDoc) => {
+  index.docs.set(noteId, doc);
+  index.totalLength += doc.length;
+  Object.entries(doc.tf).forEach(([term, count]) => {
+    let posting = index.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      index.postings.set(term, posting);
+    }
+    posting.set(noteId, count);
+  });
+};
+
+const removeDoc = (index: IndexState, noteId: string): boolean => {
+  const doc = index.docs.get(noteId);
+  if (!doc) return false;
+  index.docs.delete(noteId);
+  index.totalLength -= doc.length;
+  Object.keys(doc.tf).forEach((term) => {
+    const posting = index.postings.get(term);
+    posting?.delete(noteId);
+    if (posting?.size === 0) index.postings.delete(term);
+  });
+  return true;
+};
+
+const emptyIndex = (): IndexState => ({ docs: new Map(), postings: new Map(), totalLength: 0 });
+
+// Starts loading the persisted index; until it arrives, searches see only the notes indexed so far
+const loadIndex = (): IndexState => {
+  if (!state) {
+    state = emptyIndex();
+    void loadSearchIndex();
+  }
+  return state;
+};
+
+/**
+ * Load the persisted index from IndexedDB. Runs once; notes indexed or removed
+ * before it finishes keep their in-memory state.
+ */
+export const loadSearchIndex = (): Promise<void> => {
+  if (!state) state = emptyIndex();
+  if (!loading) {
+    const index = state;
+    localStorage.removeItem(LEGACY_INDEX_KEY);
+    loading = getSearchIndexEntries()
+      .then((entries) => {
+        if (state !== index) return;
+        entries.forEach(({ noteId, ...doc }) => {
+          if (!index.docs.has(noteId) && !dirtyIds.has(noteId)) addDoc(index, noteId, doc);
+        });
+      })
+      .catch((error) => {
+        console.warn('[search] Failed to load search index, rebuilding', error);
+      });
+  }
+  return loading;
+};
+
+const persistIndex = async (): Promise<void> => {
+  if (!state || dirtyIds.size === 0) return;
+  const index = state;
+  const ids = Array.from(dirtyIds);
+  dirtyIds.clear();
+
+  const entries = ids
+    .filter((id) => index.docs.has(id))
+    .map((noteId) => ({ noteId, ...index.docs.get(noteId)! }));
+  const removedIds = ids.filter((id) => !index.docs.has(id));
+  try {
+    await updateSearchIndexEntries(entries, removedIds);
+  } catch (error) {
+    // Retried with the next change
+    ids.forEach((id) => dirtyIds.add(id));
+    console.warn('[search] Failed to persist search index', error);
+  }
+};
+
+// Saves fire on every keystroke in the editor, so writes are coalesced
+const schedulePersist = () => {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    void persistIndex();
+  }, PERSIST_DELAY_MS);
+};
+
+/** Write pending index changes to IndexedDB immediately */
+export const flushSearchIndex = (): Promise<void> => {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  return persistIndex();
+};
+
+/** Drop the in-memory index and forget the persisted copy */
+export const resetSearchIndex = async (): Promise<void> => {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  state = null;
+  loading = null;
+  dirtyIds.clear();
+  localStorage.removeItem(LEGACY_INDEX_KEY);
+  await clearSearchIndexEntries();
+};
+
+/** Add or re-index notes whose title or content changed */
+export const addNotesToIndex = (notes: Note[]): void => {
+  const index = loadIndex();
+  let changed = false;
+  notes.forEach((note) => {
+    const existing = index.docs.get(note.id);
+    if (existing && existing.signature === noteSignature(note)) return;
+    removeDoc(index, note.id);
+    addDoc(index, note.id, buildDoc(note));
+    dirtyIds.add(note.id);
+    changed = true;
+  });
+  if (changed) schedulePersist();
+};
+
+export const removeNotesFromIndex = (noteIds: string[]): void => {
+  const index = loadIndex();
+  // Recorded even when not in memory, as the persisted copy may still be loading
+  noteIds.forEach((id) => {
+    removeDoc(index, id);
+    dirtyIds.add(id);
+  });
+  if (noteIds.length > 0) schedulePersist();
+};
+
+/** Make the index mirror `notes` exactly: index new/edited notes, drop the rest */
+export const syncSearchIndex = (notes: Note[]): void => {
+  const index = loadIndex();
+  const liveIds = new Set(notes.map((n) => n.id));
+  const stale = Array.from(index.docs.keys()).filter((id) => !liveIds.has(id));
+  removeNotesFromIndex(stale);
+  addNotesToIndex(notes);
+};
+
+/**
+ * Parse a keyword query. Whitespace-separated terms are ANDed; `OR` (or `|`)
+ * starts a new alternative. Punctuation inside a term splits it into several
+ * ANDed tokens, and the final term also matches as a prefix.
+ */
+export const parseIndexQuery = (query: string): IndexQuery => {
+  const groups: IndexQueryTerm[][] = [[]];
+  const words = query.trim().split(/\s+/).filter(Boolean);
+
+  words.forEach((word, wordIndex) => {
+    if (word === 'OR' || word === '|') {
+      groups.push([]);
+      return;
+    }
+    if (word === 'AND') return;
+
+    const tokens = tokenize(word);
+    const isLastWord = wordIndex === words.length - 1;
+    tokens.forEach((term, tokenIndex) => {
+      groups[groups.length - 1].push({
+        term,
+        prefix: isLastWord && tokenIndex === tokens.length - 1 && term.length >= MIN_PREFIX_LENGTH,
+      });
+    });
+  });
+
+  return groups.filter((group) => group.length > 0);
+};
+
+/** Rank notes by BM25 over the parsed query; scores are raw BM25 sums */
+export const searchIndex = (query: IndexQuery): IndexSearchHit[] => {
+  const index = loadIndex();
+  const docCount = index.docs.size;
+  if (docCount === 0 || query.length === 0) return [];
+
+  const avgLength = index.totalLength / docCount || 1;
+  const idf = (df: number) => Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+
+  const expand = ({ term, prefix }: IndexQueryTerm): string[] => {
+    if (!prefix) return index.postings.has(term) ? [term] : [];
+    return Array.from(index.postings.keys()).filter((t) => t.startsWith(term));
+  };
+
+  const hits = new Map<string, IndexSearchHit>();
+
+  query.forEach((group) => {
+    // Per query term: noteId -> summed contribution and the first vocabulary term matched
+    const termScores = group.map((queryTerm) => {
+      const scores = new Map<string, { score: number; term: string }>();
+      expand(queryTerm).forEach((term) => {
+        const posting = index.postings.get(term)!;
+        const termIdf = idf(posting.size);
+        posting.forEach((tf, noteId) => {
+          const docLength = index.docs.get(noteId)!.length;
+          const score = (termIdf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * docLength) / avgLength));
+          const entry = scores.get(noteId);
+          if (entry) {
+            entry.score += score;
+          } else {
+            scores.set(noteId, { score, term });
+          }
+        });
+      });
+      return scores;
+    });
+
+    if (termScores.some((scores) => scores.size === 0)) return;
+
+    // AND: intersect, starting from the rarest term
+    const [rarest, ...rest] = [...termScores].sort((a, b) => a.size - b.size);
+    rarest.forEach((_, noteId) => {
+      if (!rest.every((scores) => scores.has(noteId))) return;
+
+      const score = termScores.reduce((sum, scores) => sum + scores.get(noteId)!.score, 0);
+      const matchedTerms = termScores.map((scores) => scores.get(noteId)!.term);
+      const existing = hits.get(noteId);
+      // OR: a note keeps its best-scoring alternative
+      if (!existing || score > existing.score) {
+        hits.set(noteId, { noteId, score, matchedTerms });
+      }
+    });
+  });
+
+  return Array.from(hits.values()).sort((a, b) => b.score - a.score);
+};
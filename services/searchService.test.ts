@@ -0,0 +1,356 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ClusterNode, Note, SearchMode } from '../types';
+import {
+  DEFAULT_SEMANTIC_SOURCE,
+  SearchResultWithHighlight,
+  applySearchFilters,
+  executeExactSearch,
+  executeHybridSearch,
+  executeVectorSearch,
+  fuseSearchResults,
+  parseSearchQuery,
+  searchBarOptions,
+} from './searchService';
+import { getLLMProvider } from './llmProvider';
+
+const makeNote = (id: string, title: string, content: string): Note => ({
+  id,
+  title,
+  content,
+  tags: [],
+  createdAt: '2024-01-01',
+  folder: '/test',
+});
+
+const NOTES: Note[] = [
+  makeNote('react', 'React Hooks', 'useState and useEffect manage state and side effects in React components.'),
+  makeNote('pasta', 'Carbonara', 'Guanciale, pecorino and eggs. No cream in a real carbonara.'),
+  makeNote('html', 'Escaping HTML', 'Never render <script>alert("x")</script> & friends without escaping.'),
+  makeNote('vue', 'Vue Composition API', 'ref and reactive hold state; computed derives values from state.'),
+];
+
+const FILED_NOTES: Note[] = [
+  { ...makeNote('hooks', 'React Hooks', 'useEffect runs side effects.'), tags: ['react', 'draft'], folder: '/work/frontend', createdAt: '2023-11-01' },
+  { ...makeNote('memo', 'React Memo', 'Memoize expensive side effects.'), tags: ['react'], folder: '/work/frontend/perf', createdAt: '2023-11-02' },
+  { ...makeNote('pods', 'Kubernetes Pods', 'Pods group containers.'), tags: ['devops'], folder: '/work/devops', createdAt: '2024-01-01' },
+  { ...makeNote('bread', 'Sourdough', 'Side dishes and effects of hydration.'), tags: ['cooking'], folder: '/personal', createdAt: '2023-10-05' },
+];
+
+const FILED_CLUSTERS: ClusterNode[] = [
+  {
+    id: 'c-ml',
+    name: 'Machine Learning',
+    type: 'cluster',
+    children: [
+      { id: 'c-fe', name: 'Frontend', type: 'cluster', children: [{ id: 'n-memo', name: 'React Memo', type: 'note', noteId: 'memo' }] },
+    ],
+  },
+  { id: 'c-ops', name: 'Ops', type: 'cluster', children: [{ id: 'n-pods', name: 'Kubernetes Pods', type: 'note', noteId: 'pods' }] },
+];
+
+const filteredIds = (query: string) =>
+  applySearchFilters(FILED_NOTES, parseSearchQuery(query), FILED_CLUSTERS).map((n) => n.id);
+
+describe('parseSearchQuery', () => {
+  it('separates field filters, phrases, exclusions and free text', () => {
+    expect(parseSearchQuery('tag:react -folder:/archive/* "side effects" hooks -draft created:>=2023-10-01')).toEqual({
+      text: 'side effects hooks',
+      phrases: ['side effects'],
+      excluded: ['draft'],
+      filters: [
+        { field: 'tag', value: 'react', negated: false },
+        { field: 'folder', value: '/archive/*', negated: true },
+        { field: 'created', value: '2023-10-01', comparator: '>=', negated: false },
+      ],
+    });
+  });
+
+  it('supports quoted filter values and keeps unknown prefixes as text', () => {
+    const parsed = parseSearchQuery('cluster:"Machine Learning" title:"React Memo" see http://example.com');
+    expect(parsed.filters).toEqual([
+      { field: 'cluster', value: 'Machine Learning', negated: false },
+      { field: 'title', value: 'React Memo', negated: false },
+    ]);
+    expect(parsed.text).toBe('see http://example.com');
+  });
+
+  it('leaves /regex/ queries untouched', () => {
+    expect(parseSearchQuery('/tag:(a|b) x/i').text).toBe('/tag:(a|b) x/i');
+  });
+});
+
+describe('applySearchFilters', () => {
+  it('filters by tag and folder, with globs and subfolders', () => {
+    expect(filteredIds('tag:react')).toEqual(['hooks', 'memo']);
+    expect(filteredIds('folder:/work/frontend')).toEqual(['hooks', 'memo']);
+    expect(filteredIds('folder:/work/*')).toEqual(['hooks', 'memo', 'pods']);
+    expect(filteredIds('tag:dev*')).toEqual(['pods']);
+  });
+
+  it('negates filters and excludes words', () => {
+    expect(filteredIds('tag:react -tag:draft')).toEqual(['memo']);
+    expect(filteredIds('-folder:/work')).toEqual(['bread']);
+    expect(filteredIds('-hydration')).toEqual(['hooks', 'memo', 'pods']);
+  });
+
+  it('compares creation dates, or matches them as a prefix', () => {
+    expect(filteredIds('created:>2023-11-01')).toEqual(['memo', 'pods']);
+    expect(filteredIds('created:<=2023-11-01')).toEqual(['hooks', 'bread']);
+    expect(filteredIds('created:2023-11')).toEqual(['hooks', 'memo']);
+  });
+
+  it('filters by title and by cluster membership, including subclusters', () => {
+    expect(filteredIds('title:"react memo"')).toEqual(['memo']);
+    expect(filteredIds('cluster:"Machine Learning"')).toEqual(['memo']);
+    expect(filteredIds('cluster:ops')).toEqual(['pods']);
+  });
+
+  it('requires quoted phrases verbatim', () => {
+    expect(filteredIds('"side effects"')).toEqual(['hooks', 'memo']);
+  });
+});
+
+describe('executeExactSearch', () => {
+  it('returns nothing for a blank query', () => {
+    expect(executeExactSearch('   ', NOTES)).toEqual([]);
+  });
+
+  it('matches plain text case-insensitively across title and content', () => {
+    const results = executeExactSearch('CARBONARA', NOTES);
+    expect(results.map((r) => r.note.id)).toEqual(['pasta']);
+    expect(results[0].reason).toBe('Exact match');
+    expect(results[0].highlight).toContain('<mark class="bg-yellow-500/30 text-yellow-200">Carbonara</mark>');
+  });
+
+  it('parses /pattern/flags queries as regular expressions', () => {
+    const results = executeExactSearch('/use(State|Effect)/', NOTES);
+    expect(results.map((r) => r.note.id)).toEqual(['react']);
+    expect(results[0].reason).toBe('Regex exact match');
+  });
+
+  it('defaults slash-delimited regexes to case-insensitive', () => {
+    const results = executeExactSearch('/COMPOSITION api/', NOTES);
+    expect(results.map((r) => r.note.id)).toEqual(['vue']);
+  });
+
+  it('keeps explicit regex flags', () => {
+    expect(executeExactSearch('/COMPOSITION/g', NOTES)).toEqual([]);
+  });
+
+  it('treats the whole query as a regex when useRegex is set', () => {
+    const results = executeExactSearch('state.*state', NOTES, { useRegex: true });
+    expect(results.map((r) => r.note.id).sort()).toEqual(['react', 'vue']);
+  });
+
+  it('falls back to plain search for invalid regexes', () => {
+    const results = executeExactSearch('/[unclosed/', NOTES);
+    expect(results).toEqual([]);
+
+    const plain = executeExactSearch('(side', [makeNote('p', 'Parens', 'effects (side effects)')], { useRegex: true });
+    expect(plain.map((r) => r.reason)).toEqual(['Exact match']);
+  });
+
+  it('ranks keyword hits by BM25, best match scored 100', () => {
+    const results = executeExactSearch('state', NOTES);
+    expect(results.map((r) => r.note.id)).toEqual(['vue', 'react']);
+    expect(results[0].score).toBe(100);
+    expect(results[1].score).toBeLessThan(100);
+  });
+
+  it('requires every term, unless alternatives are separated by OR', () => {
+    expect(executeExactSearch('state carbonara', NOTES)).toEqual([]);
+    const results = executeExactSearch('guanciale OR reactive', NOTES);
+    expect(results.map((r) => r.note.id).sort()).toEqual(['pasta', 'vue']);
+  });
+
+  it('matches the last term as a prefix and highlights the matched word', () => {
+    const [result] = executeExactSearch('carbon', NOTES);
+    expect(result.note.id).toBe('pasta');
+    expect(result.highlight).toContain('<mark class="bg-yellow-500/30 text-yellow-200">Carbon</mark>');
+  });
+
+  it('ranks only notes that pass the filters', () => {
+    const results = executeExactSearch('effects folder:/work/*', FILED_NOTES);
+    expect(results.map((r) => r.note.id).sort()).toEqual(['hooks', 'memo']);
+  });
+
+  it('lists every matching note when the query is only filters', () => {
+    const results = executeExactSearch('tag:react', FILED_NOTES);
+    expect(results.map((r) => r.note.id)).toEqual(['hooks', 'memo']);
+    expect(results[0].reason).toBe('Matches filters');
+  });
+
+  it('escapes HTML around and inside the highlighted match', () => {
+    const [result] = executeExactSearch('<script>', NOTES);
+    expect(result.highlight).toContain('<mark class="bg-yellow-500/30 text-yellow-200">&lt;script&gt;</mark>');
+    expect(result.highlight).toContain('alert(&quot;x&quot;)');
+    expect(result.highlight).not.toContain('<script>');
+  });
+});
+
+describe('executeVectorSearch', () => {
+  it('ranks notes by cosine similarity to the query embedding', async () => {
+    const results = await executeVectorSearch('guanciale pecorino carbonara', NOTES);
+    expect(results[0].note.id).toBe('pasta');
+    expect(results[0].reason).toMatch(/^Vector similarity \d\.\d{2}$/);
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(results[0].score).toBeLessThanOrEqual(100);
+  });
+
+  it('drops hits below the minimum similarity and caps at topK', async () => {
+    const all = await executeVectorSearch('state', NOTES, { vectorMinSimilarity: -1 });
+    expect(all).toHaveLength(NOTES.length);
+
+    const top = await executeVectorSearch('state', NOTES, { vectorMinSimilarity: -1, vectorTopK: 2 });
+    expect(top).toHaveLength(2);
+
+    const strict = await executeVectorSearch('state', NOTES, { vectorMinSimilarity: 0.99 });
+    expect(strict).toEqual([]);
+  });
+
+  it('scores long notes by their best chunk and shows it as the highlight', async () => {
+    const longNote = makeNote(
+      'long',
+      'Weekend Notes',
+      `# Garden\n${'Tomatoes need sun and compost. '.repeat(50)}\n# Kubernetes\nPods schedule containers onto cluster nodes.`,
+    );
+    const [result] = await executeVectorSearch('kubernetes pods containers nodes', [longNote], { vectorMinSimilarity: -1 });
+    expect(result.highlight).toMatch(/^<span class="font-semibold text-text">Kubernetes<\/span> — # Kubernetes Pods schedule/);
+    expect(result.score).toBeGreaterThan(50);
+  });
+
+  it('reuses cached note embeddings, embedding only the query', async () => {
+    await executeVectorSearch('state', NOTES);
+
+    const embed = vi.spyOn(getLLMProvider(), 'embed');
+    await executeVectorSearch('carbonara', NOTES);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledWith('carbonara', expect.anything());
+    embed.mockRestore();
+  });
+});
+
+describe('fuseSearchResults', () => {
+  const hit = (id: string, score: number): SearchResultWithHighlight => ({
+    note: NOTES.find((n) => n.id === id)!,
+    score,
+  });
+
+  it('scores a note ranked first by both sources as 100 under RRF', () => {
+    const fused = fuseSearchResults([hit('react', 100)], [hit('react', 40)]);
+    expect(fused).toHaveLength(1);
+    expect(fused[0].score).toBe(100);
+    expect(fused[0].sources).toEqual({ exact: { rank: 1, score: 100 }, semantic: { rank: 1, score: 40 } });
+  });
+
+  it('does not let a lone exact hit outrank a note found by both sources', () => {
+    const fused = fuseSearchResults(
+      [hit('html', 100), hit('vue', 100)],
+      [hit('vue', 90), hit('pasta', 80)],
+    );
+    expect(fused.map((r) => r.note.id)).toEqual(['vue', 'html', 'pasta']);
+  });
+
+  it('respects source weights under RRF', () => {
+    const exactHeavy = fuseSearchResults([hit('html', 100)], [hit('pasta', 90)], { semanticWeight: 0.2 });
+    expect(exactHeavy[0].note.id).toBe('html');
+
+    const semanticHeavy = fuseSearchResults([hit('html', 100)], [hit('pasta', 90)], { exactWeight: 0.2 });
+    expect(semanticHeavy[0].note.id).toBe('pasta');
+  });
+
+  it('blends normalised scores under linear fusion', () => {
+    const fused = fuseSearchResults(
+      [hit('react', 100)],
+      [hit('pasta', 80), hit('react', 40)],
+      { fusion: 'linear', exactWeight: 1, semanticWeight: 3 },
+    );
+    const byId = Object.fromEntries(fused.map((r) => [r.note.id, r.score]));
+    expect(byId.pasta).toBe(75); // 3 * 1.0 / 4
+    expect(byId.react).toBe(62.5); // (1 * 1.0 + 3 * 0.5) / 4
+    expect(fused.map((r) => r.note.id)).toEqual(['pasta', 'react']);
+  });
+});
+
+describe('executeHybridSearch', () => {
+  afterEach(() => {
+    (navigator as { onLine: boolean }).onLine = true;
+  });
+
+  it('merges exact and semantic hits, boosting notes found by both', async () => {
+    const results = await executeHybridSearch('state', NOTES, { mode: SearchMode.HYBRID });
+
+    const react = results.find((r) => r.note.id === 'react');
+    expect(react?.sources?.exact).toBeDefined();
+    expect(react?.sources?.semantic).toBeDefined();
+    expect(react?.reason).toMatch(/\| Exact Match$/);
+    expect(react?.highlight).toContain('<mark');
+
+    const scores = results.map((r) => r.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(new Set(results.map((r) => r.note.id)).size).toBe(results.length);
+  });
+
+  it('fuses exact and vector results when the semantic source is vector', async () => {
+    const results = await executeHybridSearch('carbonara', NOTES, { mode: SearchMode.HYBRID, semanticSource: 'vector' });
+    expect(results[0].note.id).toBe('pasta');
+    expect(results[0].reason).toMatch(/^Vector similarity .* \| Exact Match$/);
+  });
+
+  it('fuses exact and vector results with the search bar options for hybrid mode', async () => {
+    const generate = vi.spyOn(getLLMProvider(), 'generateJSON');
+    const results = await executeHybridSearch('carbonara', NOTES, searchBarOptions(SearchMode.HYBRID, { clusters: [] }));
+    expect(results[0].reason).toMatch(/^Vector similarity .* \| Exact Match$/);
+    expect(generate).not.toHaveBeenCalled();
+    generate.mockRestore();
+
+    expect(searchBarOptions(SearchMode.HYBRID, { clusters: [], semanticSource: 'llm' }).semanticSource).toBe('llm');
+  });
+
+  it('defaults hybrid mode to the same semantic source as the search bar', async () => {
+    const generate = vi.spyOn(getLLMProvider(), 'generateJSON');
+    const results = await executeHybridSearch('carbonara', NOTES, { mode: SearchMode.HYBRID });
+    expect(results[0].reason).toMatch(/^Vector similarity .* \| Exact Match$/);
+    expect(generate).not.toHaveBeenCalled();
+    generate.mockRestore();
+
+    expect(DEFAULT_SEMANTIC_SOURCE).toBe('vector');
+    expect(searchBarOptions(SearchMode.HYBRID, { clusters: [] }).semanticSource).toBe(DEFAULT_SEMANTIC_SOURCE);
+    expect(searchBarOptions(SearchMode.SEMANTIC, { clusters: [] }).semanticSource).toBe('llm');
+  });
+
+  it('uses only vector results in vector mode', async () => {
+    const results = await executeHybridSearch('carbonara', NOTES, { mode: SearchMode.VECTOR });
+    expect(results[0].note.id).toBe('pasta');
+    expect(results.every((r) => r.reason?.startsWith('Vector similarity'))).toBe(true);
+  });
+
+  it('rejects with an AbortError once its signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      executeHybridSearch('carbonara', NOTES, { mode: SearchMode.HYBRID, semanticSource: 'vector', signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(
+      executeHybridSearch('carbonara', NOTES, { mode: SearchMode.SEMANTIC, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('skips exact matching in semantic mode', async () => {
+    const results = await executeHybridSearch('guanciale pecorino', NOTES, { mode: SearchMode.SEMANTIC });
+    expect(results[0].note.id).toBe('pasta');
+    expect(results.every((r) => !r.reason?.includes('Exact Match'))).toBe(true);
+  });
+
+  it('applies filters before semantic ranking', async () => {
+    const results = await executeHybridSearch('side effects tag:cooking', FILED_NOTES, { mode: SearchMode.SEMANTIC });
+    expect(results.map((r) => r.note.id)).toEqual(['bread']);
+  });
+
+  it('falls back to exact search when offline', async () => {
+    (navigator as { onLine: boolean }).onLine = false;
+    const results = await executeHybridSearch('carbonara', NOTES, { mode: SearchMode.HYBRID });
+    expect(results.map((r) => r.note.id)).toEqual(['pasta']);
+    expect(results[0].reason).toBe('Exact match (Offline exact only)');
+  });
+});
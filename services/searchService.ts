@@ -1,29 +1,77 @@
-import { Note, SearchMode, SearchResult } from '../types';
+import { ClusterNode, EmbeddingChunk, Note, SearchMode, SearchResult } from '../types';
 import { semanticSearchWithGemini } from './geminiService';
+import { cosineSimilarity, embedQuery, getAnnIndex, getOrGenerateEmbeddings } from './embeddingService';
+import { parseIndexQuery, searchIndex, syncSearchIndex } from './searchIndex';
+import { CachedSemanticResult, getCachedSemanticResults, setCachedSemanticResults } from './semanticCache';
 
 export interface SearchOptions {
   mode: SearchMode;
   useRegex: boolean;
+  /** Semantic half of HYBRID mode: LLM ranking or local vector similarity */
+  semanticSource: 'llm' | 'vector';
+  /** Max results returned by vector search */
+  vectorTopK: number;
+  /** Cosine similarity below which vector hits are dropped */
+  vectorMinSimilarity: number;
+  /** How HYBRID mode combines exact and semantic rankings */
+  fusion: 'rrf' | 'linear';
+  /** RRF damping constant; larger values flatten the rank curve */
+  rrfK: number;
+  /** Relative weight of exact results (both fusion strategies) */
+  exactWeight: number;
+  /** Relative weight of semantic results (both fusion strategies) */
+  semanticWeight: number;
+  /** Current cluster tree, needed to resolve `cluster:` filters */
+  clusters: ClusterNode[];
+  /** Cancels the embedding and LLM requests of a search; the search then rejects with an AbortError */
+  signal: AbortSignal;
 }
 
+export type SearchFilterField = 'tag' | 'folder' | 'title' | 'created' | 'cluster';
+
+export interface SearchFilter {
+  field: SearchFilterField;
+  value: string;
+  /** Only used by `created:`; without one the date is matched as a prefix (e.g. 2023-10) */
+  comparator?: '>' | '>=' | '<' | '<=';
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  /** Free text, including quoted phrases, handed to the rankers */
+  text: string;
+  /** Quoted phrases that must appear verbatim in the title or content */
+  phrases: string[];
+  /** Negated words and phrases that must not appear */
+  excluded: string[];
+  filters: SearchFilter[];
+}
+
+const DEFAULT_VECTOR_TOP_K = 20;
+// Notes fetched from the ANN index per result slot, before chunk-level rescoring
+const VECTOR_CANDIDATE_FACTOR = 4;
+const DEFAULT_VECTOR_MIN_SIMILARITY = 0.3;
+const DEFAULT_RRF_K = 60;
+
+/** Semantic half of HYBRID mode when none is picked: local, so no LLM request per search */
+export const DEFAULT_SEMANTIC_SOURCE: SearchOptions['semanticSource'] = 'vector';
+
+// VECTOR and SEMANTIC (LLM ranking) modes have a fixed source; HYBRID uses the picked one
+const semanticSourceFor = (
+  mode: SearchMode,
+  picked: SearchOptions['semanticSource'] | undefined,
+): SearchOptions['semanticSource'] =>
+  mode === SearchMode.VECTOR ? 'vector' : mode === SearchMode.SEMANTIC ? 'llm' : picked ?? DEFAULT_SEMANTIC_SOURCE;
+
 export interface SearchResultWithHighlight extends SearchResult {
   highlight?: string;
 }
 
 type IndexedNote = {
   note: Note;
-  searchContent: string;
   rawContent: string;
 };
 
-type CachedSemanticResult = {
-  noteId: string;
-  score: number;
-  reason?: string;
-};
-
-const semanticCache = new Map<string, CachedSemanticResult[]>();
-
 const escapeHtml = (value: string): string =>
   value
     .replace(/&/g, '&amp;')
@@ -49,10 +97,181 @@ const generateHighlight = (text: string, matchIndex: number, matchLength: number
 const indexNotes = (notes: Note[]): IndexedNote[] =>
   notes.map((note) => ({
     note,
-    searchContent: `${note.title}\n${note.content}`.toLowerCase(),
     rawContent: `${note.title}\n${note.content}`,
   }));
 
+/** Snippet of the best-matching embedding chunk, led by its heading */
+const chunkHighlight = (note: Note, chunk: EmbeddingChunk): string => {
+  const text = note.content.slice(chunk.start, chunk.end).replace(/\s+/g, ' ').trim();
+  const snippet = escapeHtml(text.length > 160 ? `${text.slice(0, 160)}…` : text);
+  return chunk.heading ? `<span class="font-semibold text-text">${escapeHtml(chunk.heading)}</span> — ${snippet}` : snippet;
+};
+
+/** Snippet around the whole query if it occurs verbatim, else around the earliest matched term */
+const highlightKeywordMatch = (rawContent: string, query: string, terms: string[]): string => {
+  const lower = rawContent.toLowerCase();
+  const phraseIndex = lower.indexOf(query.toLowerCase());
+  if (phraseIndex !== -1) {
+    return generateHighlight(rawContent, phraseIndex, query.length);
+  }
+
+  let bestIndex = -1;
+  let bestLength = 0;
+  terms.forEach((term) => {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (bestIndex === -1 || index < bestIndex)) {
+      bestIndex = index;
+      bestLength = term.length;
+    }
+  });
+  return bestIndex === -1 ? escapeHtml(rawContent.slice(0, 60)) : generateHighlight(rawContent, bestIndex, bestLength);
+};
+
+const FILTER_FIELDS: SearchFilterField[] = ['tag', 'folder', 'title', 'created', 'cluster'];
+
+// Optional "-", optional "field:", then a quoted phrase (closing quote optional while typing) or a bare word
+const QUERY_TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Split a query into field filters and free text, e.g.
+ * `tag:react -folder:/archive/* created:>2023-10-01 "side effects" hooks`.
+ * Queries starting with "/" are left alone so `/regex/flags` keeps working.
+ */
+export const parseSearchQuery = (rawQuery: string): ParsedSearchQuery => {
+  const query = rawQuery.trim();
+  const parsed: ParsedSearchQuery = { text: '', phrases: [], excluded: [], filters: [] };
+  if (!query || query.startsWith('/')) {
+    parsed.text = query;
+    return parsed;
+  }
+
+  const textParts: string[] = [];
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const [, minus, rawField, quoted, bare] = match;
+    const negated = minus === '-';
+    const field = rawField?.toLowerCase() as SearchFilterField | undefined;
+    const value = quoted ?? bare ?? '';
+
+    if (field && FILTER_FIELDS.includes(field)) {
+      if (!value) continue;
+      if (field === 'created') {
+        const [, comparator, date] = value.match(/^(>=|<=|>|<)?(.*)$/)!;
+        parsed.filters.push({ field, value: date, comparator: comparator as SearchFilter['comparator'], negated });
+      } else {
+        parsed.filters.push({ field, value, negated });
+      }
+      continue;
+    }
+
+    // Unknown prefixes such as "http:" are ordinary text
+    const text = rawField ? `${rawField}:${value}` : value;
+    if (negated && text) {
+      parsed.excluded.push(text.toLowerCase());
+    } else if (quoted !== undefined && !rawField) {
+      if (quoted.trim()) {
+        parsed.phrases.push(quoted.toLowerCase());
+        textParts.push(quoted);
+      }
+    } else {
+      textParts.push(text);
+    }
+  }
+
+  parsed.text = textParts.join(' ').trim();
+  return parsed;
+};
+
+const globToRegExp = (glob: string): RegExp =>
+  new RegExp(`^${glob.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const collectClusterNoteIds = (clusters: ClusterNode[], pattern: RegExp): Set<string> => {
+  const ids = new Set<string>();
+  const addAll = (node: ClusterNode) => {
+    if (node.type === 'note' && node.noteId) ids.add(node.noteId);
+    node.children?.forEach(addAll);
+  };
+  const visit = (node: ClusterNode) => {
+    if (node.type !== 'cluster') return;
+    if (pattern.test(node.name)) {
+      addAll(node);
+    } else {
+      node.children?.forEach(visit);
+    }
+  };
+  clusters.forEach(visit);
+  return ids;
+};
+
+const matchesCreated = (note: Note, filter: SearchFilter): boolean => {
+  if (!filter.comparator) return note.createdAt.startsWith(filter.value);
+
+  const noteTime = new Date(note.createdAt).getTime();
+  const filterTime = new Date(filter.value).getTime();
+  if (Number.isNaN(filterTime)) {
+    console.warn(`[search] Ignoring invalid date in created:${filter.comparator}${filter.value}`);
+    return true;
+  }
+  switch (filter.comparator) {
+    case '>':
+      return noteTime > filterTime;
+    case '>=':
+      return noteTime >= filterTime;
+    case '<':
+      return noteTime < filterTime;
+    case '<=':
+      return noteTime <= filterTime;
+  }
+};
+
+/** Narrow `notes` to those satisfying every filter, phrase and exclusion in the query */
+export const applySearchFilters = (
+  notes: Note[],
+  parsed: ParsedSearchQuery,
+  clusters: ClusterNode[] = [],
+): Note[] => {
+  if (parsed.filters.length === 0 && parsed.phrases.length === 0 && parsed.excluded.length === 0) {
+    return notes;
+  }
+
+  const clusterMembers = new Map<string, Set<string>>();
+  parsed.filters
+    .filter((f) => f.field === 'cluster')
+    .forEach((f) => clusterMembers.set(f.value, collectClusterNoteIds(clusters, globToRegExp(f.value))));
+
+  const matchesFilter = (note: Note, filter: SearchFilter): boolean => {
+    switch (filter.field) {
+      case 'tag': {
+        const pattern = globToRegExp(filter.value.replace(/^#/, ''));
+        return note.tags.some((tag) => pattern.test(tag));
+      }
+      case 'folder': {
+        const value = filter.value.length > 1 ? filter.value.replace(/\/+$/, '') : filter.value;
+        if (value.includes('*')) return globToRegExp(value).test(note.folder);
+        const folder = note.folder.toLowerCase();
+        const target = value.toLowerCase();
+        return folder === target || folder.startsWith(target.endsWith('/') ? target : `${target}/`);
+      }
+      case 'title':
+        return note.title.toLowerCase().includes(filter.value.toLowerCase());
+      case 'created':
+        return matchesCreated(note, filter);
+      case 'cluster':
+        return clusterMembers.get(filter.value)!.has(note.id);
+    }
+  };
+
+  return notes.filter((note) => {
+    if (!parsed.filters.every((filter) => matchesFilter(note, filter) !== filter.negated)) return false;
+    if (parsed.phrases.length === 0 && parsed.excluded.length === 0) return true;
+
+    const text = `${note.title}\n${note.content}`.toLowerCase();
+    return parsed.phrases.every((p) => text.includes(p)) && !parsed.excluded.some((e) => text.includes(e));
+  });
+};
+
+const filterOnlyResults = (notes: Note[]): SearchResultWithHighlight[] =>
+  notes.map((note) => ({ note, score: 100, reason: 'Matches filters' }));
+
 const parseRegexFromQuery = (query: string, useRegex: boolean): RegExp | null => {
   if (!query) return null;
 
@@ -101,15 +320,23 @@ const hydrateSemanticResults = (
 const fetchSemanticResults = async (
   query: string,
   notes: Note[],
+  signal?: AbortSignal,
 ): Promise<SearchResultWithHighlight[]> => {
-  const cached = semanticCache.get(query);
+  if (notes.length === 0) return [];
+
+  const cached = getCachedSemanticResults(query, notes);
   if (cached) {
     return hydrateSemanticResults(cached, notes);
   }
 
-  const fresh = await semanticSearchWithGemini(query, notes);
-  semanticCache.set(
+  const fresh = await semanticSearchWithGemini(query, notes, { signal });
+  signal?.throwIfAborted();
+  // An empty ranking is usually an unparseable response; don't pin it for a day
+  if (fresh.length === 0) return fresh;
+
+  setCachedSemanticResults(
     query,
+    notes,
     fresh.map((result) => ({
       noteId: result.note.id,
       score: result.score,
@@ -119,6 +346,75 @@ const fetchSemanticResults = async (
   return fresh;
 };
 
+const withSourceRanks = (
+  results: SearchResultWithHighlight[],
+  source: 'exact' | 'semantic',
+): SearchResultWithHighlight[] =>
+  results.map((result, index) => ({
+    ...result,
+    sources: { ...result.sources, [source]: { rank: index + 1, score: result.score } },
+  }));
+
+/**
+ * Fuse exact and semantic rankings into one list scored 0-100.
+ * - rrf: sum of weight / (k + rank) per source, scaled so rank 1 in every source = 100
+ * - linear: weighted sum of each source's scores normalised by that source's best score
+ * Per-source ranks and raw scores are kept on `sources` for explanation in the UI.
+ */
+export const fuseSearchResults = (
+  exactResults: SearchResultWithHighlight[],
+  semanticResults: SearchResultWithHighlight[],
+  options?: Partial<SearchOptions>,
+): SearchResultWithHighlight[] => {
+  const fusion = options?.fusion ?? 'rrf';
+  const k = options?.rrfK ?? DEFAULT_RRF_K;
+  const exactWeight = options?.exactWeight ?? 1;
+  const semanticWeight = options?.semanticWeight ?? 1;
+  const totalWeight = exactWeight + semanticWeight || 1;
+
+  const merged = new Map<string, SearchResultWithHighlight>();
+
+  withSourceRanks(semanticResults, 'semantic').forEach((result) => {
+    merged.set(result.note.id, { ...result });
+  });
+
+  withSourceRanks(exactResults, 'exact').forEach((result) => {
+    const existing = merged.get(result.note.id);
+    if (existing) {
+      merged.set(result.note.id, {
+        ...existing,
+        reason: existing.reason ? `${existing.reason} | Exact Match` : 'Exact Match',
+        highlight: result.highlight ?? existing.highlight,
+        sources: { ...existing.sources, ...result.sources },
+      });
+    } else {
+      merged.set(result.note.id, { ...result });
+    }
+  });
+
+  const maxExact = Math.max(0, ...exactResults.map((r) => r.score)) || 1;
+  const maxSemantic = Math.max(0, ...semanticResults.map((r) => r.score)) || 1;
+
+  const fused = Array.from(merged.values()).map((result) => {
+    const { exact, semantic } = result.sources ?? {};
+    let score: number;
+
+    if (fusion === 'linear') {
+      const exactPart = exact ? (exactWeight * exact.score) / maxExact : 0;
+      const semanticPart = semantic ? (semanticWeight * semantic.score) / maxSemantic : 0;
+      score = ((exactPart + semanticPart) / totalWeight) * 100;
+    } else {
+      const exactPart = exact ? exactWeight / (k + exact.rank) : 0;
+      const semanticPart = semantic ? semanticWeight / (k + semantic.rank) : 0;
+      score = ((exactPart + semanticPart) * (k + 1) * 100) / totalWeight;
+    }
+
+    return { ...result, score: Math.round(score * 10) / 10 };
+  });
+
+  return fused.sort((a, b) => b.score - a.score);
+};
+
 export const executeExactSearch = (
   rawQuery: string,
   notes: Note[],
@@ -128,15 +424,17 @@ export const executeExactSearch = (
   if (!query) return [];
 
   const start = performance.now();
-  const useRegex = options?.useRegex ?? false;
-  const regex = parseRegexFromQuery(query, useRegex);
-  const indexedNotes = indexNotes(notes);
-  const lowerQuery = query.toLowerCase();
+  const parsed = parseSearchQuery(query);
+  const candidates = applySearchFilters(notes, parsed, options?.clusters);
+  if (!parsed.text) return filterOnlyResults(candidates);
 
-  const results: SearchResultWithHighlight[] = [];
+  const useRegex = options?.useRegex ?? false;
+  const regex = parseRegexFromQuery(parsed.text, useRegex);
 
-  indexedNotes.forEach(({ note, searchContent, rawContent }) => {
-    if (regex) {
+  // Regexes can't use the inverted index, so they still scan every note
+  if (regex) {
+    const results: SearchResultWithHighlight[] = [];
+    indexNotes(candidates).forEach(({ note, rawContent }) => {
       const match = rawContent.match(regex);
       if (match?.index !== undefined) {
         results.push({
@@ -146,25 +444,106 @@ export const executeExactSearch = (
           reason: 'Regex exact match',
         });
       }
-      return;
-    }
+    });
+    const duration = performance.now() - start;
+    console.log(`[search] Regex search in ${duration.toFixed(2)}ms over ${notes.length} notes.`);
+    return results;
+  }
 
-    const index = searchContent.indexOf(lowerQuery);
-    if (index !== -1) {
-      results.push({
-        note,
-        score: 100,
-        highlight: generateHighlight(rawContent, index, lowerQuery.length),
-        reason: 'Exact match',
-      });
-    }
+  // The index always mirrors the full corpus; filters only decide which hits survive
+  syncSearchIndex(notes);
+  const noteMap = new Map(candidates.map((n) => [n.id, n] as const));
+  const hits = searchIndex(parseIndexQuery(parsed.text)).filter((hit) => noteMap.has(hit.noteId));
+  const maxScore = hits[0]?.score || 1;
+
+  const results: SearchResultWithHighlight[] = [];
+  hits.forEach((hit) => {
+    const note = noteMap.get(hit.noteId);
+    if (!note) return;
+    results.push({
+      note,
+      // BM25 relative to the best hit, so the top result is always 100
+      score: Math.round((hit.score / maxScore) * 1000) / 10,
+      highlight: highlightKeywordMatch(`${note.title}\n${note.content}`, parsed.phrases[0] ?? parsed.text, hit.matchedTerms),
+      reason: 'Exact match',
+    });
   });
 
   const duration = performance.now() - start;
-  console.log(`[search] Exact search in ${duration.toFixed(2)}ms over ${notes.length} notes.`);
+  console.log(`[search] Keyword search in ${duration.toFixed(2)}ms over ${notes.length} notes.`);
   return results;
 };
 
+export const executeVectorSearch = async (
+  rawQuery: string,
+  notes: Note[],
+  options?: Partial<SearchOptions>,
+): Promise<SearchResultWithHighlight[]> => {
+  const query = rawQuery.trim();
+  if (!query || notes.length === 0) return [];
+
+  const start = performance.now();
+  const parsed = parseSearchQuery(query);
+  const candidates = applySearchFilters(notes, parsed, options?.clusters);
+  if (!parsed.text) return filterOnlyResults(candidates);
+
+  const topK = options?.vectorTopK ?? DEFAULT_VECTOR_TOP_K;
+  const minSimilarity = options?.vectorMinSimilarity ?? DEFAULT_VECTOR_MIN_SIMILARITY;
+
+  // Only the query is embedded here; note vectors come from the embedding cache,
+  // which is kept for the whole corpus even when filters narrow the candidates
+  const signal = options?.signal;
+  const [queryVector, embeddings] = await Promise.all([
+    embedQuery(parsed.text, { signal }),
+    getOrGenerateEmbeddings(notes, false, { signal }),
+  ]);
+  signal?.throwIfAborted();
+  if (queryVector.length === 0) {
+    console.warn('[search] Query embedding failed, vector search returned no results');
+    return [];
+  }
+
+  const noteMap = new Map(candidates.map((n) => [n.id, n] as const));
+  const results: SearchResultWithHighlight[] = [];
+
+  // Nearest notes by pooled vector, over-fetched so chunk matches can reorder them
+  const index = getAnnIndex(embeddings);
+  const neighbours = index.knn(queryVector, topK * VECTOR_CANDIDATE_FACTOR, {
+    filter: (noteId) => noteMap.has(noteId),
+  });
+
+  neighbours.forEach(({ noteId, similarity: pooledSimilarity }) => {
+    const note = noteMap.get(noteId)!;
+    const embedding = index.get(noteId)!;
+
+    // Long notes often match in one section only, so the best chunk can beat the pooled vector
+    let similarity = pooledSimilarity;
+    let bestChunk: EmbeddingChunk | undefined;
+    let bestChunkSimilarity = -Infinity;
+    embedding.chunks?.forEach((chunk) => {
+      const chunkSimilarity = cosineSimilarity(queryVector, chunk.vector);
+      if (chunkSimilarity > bestChunkSimilarity) {
+        bestChunk = chunk;
+        bestChunkSimilarity = chunkSimilarity;
+      }
+    });
+    similarity = Math.max(similarity, bestChunkSimilarity);
+    if (similarity < minSimilarity) return;
+
+    results.push({
+      note,
+      score: Math.round(similarity * 1000) / 10,
+      reason: `Vector similarity ${similarity.toFixed(2)}`,
+      highlight: bestChunk ? chunkHighlight(note, bestChunk) : undefined,
+    });
+  });
+
+  results.sort((a, b) => b.score - a.score);
+  const duration = performance.now() - start;
+  console.log(`[search] Vector search in ${duration.toFixed(2)}ms over ${embeddings.length} embeddings.`);
+  return results.slice(0, topK);
+};
+
 export const executeHybridSearch = async (
   rawQuery: string,
   notes: Note[],
@@ -175,9 +554,10 @@ export const executeHybridSearch = async (
 
   const mode = options?.mode ?? SearchMode.HYBRID;
   const useRegex = options?.useRegex ?? false;
+  const semanticSource = semanticSourceFor(mode, options?.semanticSource);
 
   if (!navigator.onLine && mode !== SearchMode.SEMANTIC) {
-    const offlineResults = executeExactSearch(query, notes, { mode: SearchMode.EXACT, useRegex });
+    const offlineResults = executeExactSearch(query, notes, { ...options, mode: SearchMode.EXACT, useRegex });
     return offlineResults.map((result) => ({
       ...result,
       reason: result.reason ? `${result.reason} (Offline exact only)` : 'Offline exact only',
@@ -186,39 +566,52 @@ export const executeHybridSearch = async (
 
   const start = performance.now();
 
+  // Filters narrow the candidates before any ranking; with no free text there is nothing to rank
+  const parsed = parseSearchQuery(query);
+  const candidates = applySearchFilters(notes, parsed, options?.clusters);
+  if (!parsed.text) return filterOnlyResults(candidates);
+
   const exactPromise =
-    mode === SearchMode.SEMANTIC
+    mode === SearchMode.SEMANTIC || mode === SearchMode.VECTOR
       ? Promise.resolve<SearchResultWithHighlight[]>([])
-      : Promise.resolve(executeExactSearch(query, notes, { mode: SearchMode.EXACT, useRegex }));
+      : Promise.resolve(executeExactSearch(query, notes, { ...options, mode: SearchMode.EXACT, useRegex }));
 
   const semanticPromise =
-    mode === SearchMode.EXACT ? Promise.resolve<SearchResultWithHighlight[]>([]) : fetchSemanticResults(query, notes);
+    mode === SearchMode.EXACT
+      ? Promise.resolve<SearchResultWithHighlight[]>([])
+      : semanticSource === 'vector'
+        ? executeVectorSearch(query, notes, options)
+        : fetchSemanticResults(parsed.text, candidates, options?.signal);
 
   const [exactResults, semanticResults] = await Promise.all([exactPromise, semanticPromise]);
 
-  const merged = new Map<string, SearchResultWithHighlight>();
-
-  semanticResults.forEach((result) => {
-    merged.set(result.note.id, { ...result });
-  });
-
-  exactResults.forEach((result) => {
-    const existing = merged.get(result.note.id);
-    if (existing) {
-      const boostedScore = Math.max(existing.score, Math.max(result.score, 100));
-      merged.set(result.note.id, {
-        ...existing,
-        score: boostedScore,
-        reason: existing.reason ? `${existing.reason} | Exact Match` : 'Exact Match',
-        highlight: result.highlight ?? existing.highlight,
-      });
-    } else {
-      merged.set(result.note.id, { ...result });
-    }
-  });
-
-  const combined = Array.from(merged.values()).sort((a, b) => b.score - a.score);
+  // Single-source modes keep their raw scores; only HYBRID needs fusion
+  const combined =
+    mode === SearchMode.HYBRID
+      ? fuseSearchResults(exactResults, semanticResults, options)
+      : mode === SearchMode.EXACT
+        ? withSourceRanks(exactResults, 'exact')
+        : withSourceRanks(semanticResults, 'semantic');
   const duration = performance.now() - start;
-  console.log(`[search] Hybrid search (${mode}) in ${duration.toFixed(2)}ms over ${notes.length} notes.`);
+  console.log(`[search] Hybrid search (${mode}, ${options?.fusion ?? 'rrf'}) in ${duration.toFixed(2)}ms over ${notes.length} notes.`);
   return combined;
 };
+
+/**
+ * Options the search bar searches with. HYBRID fuses exact hits with the
+ * semantic source picked next to it, local vector similarity unless the LLM is chosen.
+ * With `useRegex` the query is matched as a regex instead of ranked by the keyword index.
+ */
+export const searchBarOptions = (
+  mode: SearchMode,
+  settings: {
+    clusters: ClusterNode[];
+    semanticSource?: SearchOptions['semanticSource'];
+    useRegex?: boolean;
+  },
+): Partial<SearchOptions> => ({
+  mode,
+  semanticSource: semanticSourceFor(mode, settings.semanticSource),
+  useRegex: settings.useRegex ?? false,
+  clusters: settings.clusters,
+});
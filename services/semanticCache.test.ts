@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Note } from '../types';
+import {
+  clearSemanticCache,
+  corpusFingerprint,
+  getCachedSemanticResults,
+  setCachedSemanticResults,
+} from './semanticCache';
+
+const makeNote = (id: string, content: string): Note => ({
+  id,
+  title: `Note ${id}`,
+  content,
+  tags: [],
+  createdAt: '2024-01-01',
+  folder: '/test',
+});
+
+const NOTES = [makeNote('a', 'Transformers and attention'), makeNote('b', 'Sourdough starter')];
+const RESULTS = [{ noteId: 'a', score: 90, reason: 'About attention' }];
+
+describe('semanticCache', () => {
+  beforeEach(() => {
+    clearSemanticCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fingerprints the corpus independently of order but not of content', () => {
+    expect(corpusFingerprint([...NOTES].reverse())).toBe(corpusFingerprint(NOTES));
+    expect(corpusFingerprint([NOTES[0], makeNote('b', 'Rye bread')])).not.toBe(corpusFingerprint(NOTES));
+    expect(corpusFingerprint(NOTES.slice(0, 1))).not.toBe(corpusFingerprint(NOTES));
+  });
+
+  it('returns cached results for the same query and notes, ignoring case and spacing', () => {
+    setCachedSemanticResults('Attention  models', NOTES, RESULTS);
+    expect(getCachedSemanticResults('attention models', NOTES)).toEqual(RESULTS);
+  });
+
+  it('misses once a note is edited, added or deleted', () => {
+    setCachedSemanticResults('attention', NOTES, RESULTS);
+    expect(getCachedSemanticResults('attention', [NOTES[0], makeNote('b', 'Edited')])).toBeNull();
+    expect(getCachedSemanticResults('attention', [...NOTES, makeNote('c', 'New')])).toBeNull();
+    expect(getCachedSemanticResults('attention', NOTES.slice(0, 1))).toBeNull();
+  });
+
+  it('survives a reload through LocalStorage', () => {
+    setCachedSemanticResults('attention', NOTES, RESULTS);
+    const persisted = localStorage.getItem('semantic_search_cache_v1');
+
+    clearSemanticCache();
+    localStorage.setItem('semantic_search_cache_v1', persisted!);
+    expect(getCachedSemanticResults('attention', NOTES)).toEqual(RESULTS);
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers();
+    setCachedSemanticResults('attention', NOTES, RESULTS);
+    vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+    expect(getCachedSemanticResults('attention', NOTES)).toBeNull();
+  });
+
+  it('evicts the least recently used entries beyond the size limit', () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < 100; i++) {
+      setCachedSemanticResults(`query ${i}`, NOTES, RESULTS);
+      vi.advanceTimersByTime(1);
+    }
+    getCachedSemanticResults('query 0', NOTES); // touch the oldest
+    vi.advanceTimersByTime(1);
+    setCachedSemanticResults('query 100', NOTES, RESULTS);
+
+    expect(getCachedSemanticResults('query 0', NOTES)).toEqual(RESULTS);
+    expect(getCachedSemanticResults('query 1', NOTES)).toBeNull();
+    expect(getCachedSemanticResults('query 100', NOTES)).toEqual(RESULTS);
+  });
+});
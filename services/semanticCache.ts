@@ -0,0 +1,128 @@
+import { Note } from '../types';
+import { fastHash, hashNoteContent } from './clusteringService';
+import { getLLMProvider } from './llmProvider';
+
+/**
+ * Persisted LRU cache for LLM semantic search rankings.
+ *
+ * Entries are keyed by the normalised query, the active model and a
+ * fingerprint of the notes that were ranked, so any edit, addition or
+ * deletion among those notes produces a different key instead of a stale hit.
+ */
+
+const CACHE_KEY = 'semantic_search_cache_v1';
+const MAX_ENTRIES = 100;
+const TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+export type CachedSemanticResult = {
+  noteId: string;
+  score: number;
+  reason?: string;
+};
+
+type SemanticCacheEntry = {
+  results: CachedSemanticResult[];
+  createdAt: number;
+  lastAccessed: number;
+};
+
+type SemanticCacheData = {
+  version: 1;
+  entries: Record<string, SemanticCacheEntry>;
+};
+
+let cache: SemanticCacheData | null = null;
+const noteHashes = new WeakMap<Note, string>();
+
+const loadCache = (): SemanticCacheData => {
+  if (cache) return cache;
+  cache = { version: 1, entries: {} };
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as SemanticCacheData;
+      if (parsed.version === 1) cache = parsed;
+    }
+  } catch (error) {
+    console.warn('[search] Failed to load semantic cache', error);
+  }
+  return cache;
+};
+
+const saveCache = (data: SemanticCacheData) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(data));
+  } catch (error) {
+    // Most likely the storage quota: keep the newer half and retry once
+    const keys = Object.keys(data.entries).sort(
+      (a, b) => data.entries[a].lastAccessed - data.entries[b].lastAccessed,
+    );
+    keys.slice(0, Math.ceil(keys.length / 2)).forEach((key) => delete data.entries[key]);
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(data));
+    } catch {
+      console.warn('[search] Failed to persist semantic cache', error);
+    }
+  }
+};
+
+/** Order-independent fingerprint of note ids and contents */
+export const corpusFingerprint = (notes: Note[]): string => {
+  const parts = notes.map((note) => {
+    let hash = noteHashes.get(note);
+    if (!hash) {
+      hash = hashNoteContent(note);
+      noteHashes.set(note, hash);
+    }
+    return `${note.id}:${hash}`;
+  });
+  return `${notes.length}-${fastHash(parts.sort().join('|'))}`;
+};
+
+const cacheKeyFor = (query: string, notes: Note[]): string =>
+  [query.trim().toLowerCase().replace(/\s+/g, ' '), getLLMProvider().model, corpusFingerprint(notes)].join('\u0000');
+
+const evict = (data: SemanticCacheData, now: number) => {
+  Object.entries(data.entries).forEach(([key, entry]) => {
+    if (now - entry.createdAt > TTL_MS) delete data.entries[key];
+  });
+
+  const keys = Object.keys(data.entries);
+  if (keys.length <= MAX_ENTRIES) return;
+  keys
+    .sort((a, b) => data.entries[a].lastAccessed - data.entries[b].lastAccessed)
+    .slice(0, keys.length - MAX_ENTRIES)
+    .forEach((key) => delete data.entries[key]);
+};
+
+/** Cached ranking for this query over exactly these notes, or null */
+export const getCachedSemanticResults = (query: string, notes: Note[]): CachedSemanticResult[] | null => {
+  const data = loadCache();
+  const key = cacheKeyFor(query, notes);
+  const entry = data.entries[key];
+  if (!entry) return null;
+
+  const now = Date.now();
+  if (now - entry.createdAt > TTL_MS) {
+    delete data.entries[key];
+    saveCache(data);
+    return null;
+  }
+
+  entry.lastAccessed = now;
+  saveCache(data);
+  return entry.results;
+};
+
+export const setCachedSemanticResults = (query: string, notes: Note[], results: CachedSemanticResult[]): void => {
+  const data = loadCache();
+  const now = Date.now();
+  data.entries[cacheKeyFor(query, notes)] = { results, createdAt: now, lastAccessed: now };
+  evict(data, now);
+  saveCache(data);
+};
+
+export const clearSemanticCache = (): void => {
+  cache = null;
+  localStorage.removeItem(CACHE_KEY);
+};
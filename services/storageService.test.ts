@@ -0,0 +1,132 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClusterSnapshot, Note, NoteEmbedding } from '../types';
+
+type StorageModule = typeof import('./storageService');
+
+const makeNote = (id: string, overrides: Partial<Note> = {}): Note => ({
+  id,
+  title: `Note ${id}`,
+  content: `Content of ${id}`,
+  tags: [],
+  createdAt: '2024-02-01',
+  folder: '/test',
+  ...overrides,
+});
+
+const makeEmbedding = (noteId: string, modelUsed = 'model-a'): NoteEmbedding => ({
+  noteId,
+  vector: [0.5, -0.25, 0.125],
+  timestamp: 1,
+  modelUsed,
+  textLength: 10,
+  chunks: [{ start: 0, end: 10, heading: 'Intro', vector: [0.5, -0.25, 0.125] }],
+});
+
+const makeSnapshot = (id: string, createdAt: number): ClusterSnapshot => ({
+  id,
+  name: `Snapshot ${id}`,
+  createdAt,
+  automatic: false,
+  method: 'manual',
+  noteCount: 1,
+  clusterCount: 1,
+  clusters: [{ id: 'c1', name: 'Cluster', type: 'cluster', children: [{ id: 'note-1', name: 'Note 1', type: 'note', noteId: '1' }] }],
+});
+
+describe('storageService', () => {
+  let storage: StorageModule;
+
+  beforeEach(async () => {
+    // Fresh database and a fresh module (dbInstance is cached per module)
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    storage = await import('./storageService');
+  });
+
+  it('seeds the initial notes on first open', async () => {
+    const notes = await storage.getAllNotes();
+    expect(notes).toHaveLength(15);
+    expect(notes.map((n) => n.title)).toContain('Transformer Architecture Basics');
+  });
+
+  it('returns notes sorted newest first', async () => {
+    const notes = await storage.getAllNotes();
+    const times = notes.map((n) => new Date(n.createdAt).getTime());
+    expect(times).toEqual([...times].sort((a, b) => b - a));
+  });
+
+  it('reuses the open database connection', async () => {
+    const first = await storage.initDB();
+    const second = await storage.initDB();
+    expect(second).toBe(first);
+  });
+
+  it('saveNote inserts new notes and updates existing ones', async () => {
+    await storage.saveNote(makeNote('new-1'));
+    await storage.saveNote(makeNote('1', { title: 'Renamed' }));
+
+    const notes = await storage.getAllNotes();
+    expect(notes).toHaveLength(16);
+    expect(notes.find((n) => n.id === 'new-1')?.title).toBe('Note new-1');
+    expect(notes.find((n) => n.id === '1')?.title).toBe('Renamed');
+  });
+
+  it('deleteNote removes a note', async () => {
+    await storage.deleteNote('3');
+    const notes = await storage.getAllNotes();
+    expect(notes.some((n) => n.id === '3')).toBe(false);
+    expect(notes).toHaveLength(14);
+  });
+
+  it('deleteNote ignores unknown ids', async () => {
+    await expect(storage.deleteNote('missing')).resolves.toBeUndefined();
+    expect(await storage.getAllNotes()).toHaveLength(15);
+  });
+
+  it('bulkSaveNotes writes all notes in one transaction', async () => {
+    const batch = Array.from({ length: 5 }, (_, i) => makeNote(`bulk-${i}`));
+    await storage.bulkSaveNotes(batch);
+
+    const notes = await storage.getAllNotes();
+    expect(notes).toHaveLength(20);
+    batch.forEach((note) => expect(notes.some((n) => n.id === note.id)).toBe(true));
+  });
+
+  it('stores embeddings per note and model as Float32Array', async () => {
+    await storage.saveEmbeddings([makeEmbedding('1'), makeEmbedding('1', 'model-b'), makeEmbedding('2')]);
+
+    const db = await storage.initDB();
+    const raw = await new Promise<{ vector: unknown }>((resolve) => {
+      const request = db.transaction('embeddings').objectStore('embeddings').get(['1', 'model-a']);
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(raw.vector).toBeInstanceOf(Float32Array);
+
+    const found = await storage.getEmbeddings(['1', '2', 'missing'], 'model-a');
+    expect(found.map((e) => e.noteId).sort()).toEqual(['1', '2']);
+    expect(found[0]).toEqual(makeEmbedding(found[0].noteId));
+    expect(await storage.getEmbeddings(['1'], 'model-b')).toHaveLength(1);
+  });
+
+  it('deleteNote also removes the note embeddings for every model', async () => {
+    await storage.saveEmbeddings([makeEmbedding('3'), makeEmbedding('3', 'model-b'), makeEmbedding('4')]);
+    await storage.deleteNote('3');
+
+    expect(await storage.getEmbeddings(['3'], 'model-a')).toEqual([]);
+    expect(await storage.getEmbeddings(['3'], 'model-b')).toEqual([]);
+    expect(await storage.getEmbeddings(['4'], 'model-a')).toHaveLength(1);
+  });
+
+  it('stores cluster snapshots and lists them newest first', async () => {
+    await storage.saveClusterSnapshot(makeSnapshot('old', 1));
+    await storage.saveClusterSnapshot(makeSnapshot('new', 2));
+
+    expect((await storage.getClusterSnapshots()).map(s => s.id)).toEqual(['new', 'old']);
+    expect(await storage.getClusterSnapshot('old')).toEqual(makeSnapshot('old', 1));
+    expect(await storage.getClusterSnapshot('missing')).toBeNull();
+
+    await storage.deleteClusterSnapshots(['old']);
+    expect((await storage.getClusterSnapshots()).map(s => s.id)).toEqual(['new']);
+  });
+});
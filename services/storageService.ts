@@ -1,8 +1,19 @@
-import { Note } from '../types';
+import { ClusterSnapshot, EmbeddingChunk, Note, NoteEmbedding, SearchIndexEntry } from '../types';
+import { addNotesToIndex, removeNotesFromIndex } from './searchIndex';
 
 const DB_NAME = 'synapse_db';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const STORE_NAME = 'notes';
+const EMBEDDINGS_STORE = 'embeddings';
+const SNAPSHOTS_STORE = 'cluster_snapshots';
+const SEARCH_INDEX_STORE = 'search_index';
+
+// Vectors are stored as Float32Array: half the size of JSON numbers and no parsing on read
+type StoredEmbeddingChunk = Omit<EmbeddingChunk, 'vector'> & { vector: Float32Array };
+type StoredEmbedding = Omit<NoteEmbedding, 'vector' | 'chunks'> & {
+  vector: Float32Array;
+  chunks?: StoredEmbeddingChunk[];
+};
 
 // Initial data to seed the database
 const INITIAL_DATA: Note[] = [
@@ -160,6 +171,21 @@ export const initDB = (): Promise<IDBDatabase> => {
           objectStore.add(note);
         });
       }
+      // v2: embeddings keyed by [noteId, modelUsed]
+      if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+        const embeddingStore = db.createObjectStore(EMBEDDINGS_STORE, { keyPath: ['noteId', 'modelUsed'] });
+        embeddingStore.createIndex('noteId', 'noteId', { unique: false });
+        embeddingStore.createIndex('modelUsed', 'modelUsed', { unique: false });
+      }
+      // v3: cluster tree snapshots
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshotStore = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshotStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      // v4: BM25 term frequencies per note
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+        db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'noteId' });
+      }
     };
   });
 };
@@ -189,7 +215,10 @@ export const saveNote = async (note: Note): Promise<void> => {
     const store = transaction.objectStore(STORE_NAME);
     const request = store.put(note); // put handles both add and update
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      addNotesToIndex([note]);
+      resolve();
+    };
     request.onerror = () => reject(request.error);
   });
 };
@@ -197,12 +226,16 @@ export const saveNote = async (note: Note): Promise<void> => {
 export const deleteNote = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, EMBEDDINGS_STORE], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    store.delete(id);
+    deleteEmbeddingsInStore(transaction.objectStore(EMBEDDINGS_STORE), id);
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => {
+      removeNotesFromIndex([id]);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
@@ -214,11 +247,246 @@ export const bulkSaveNotes = async (notes: Note[]): Promise<void> => {
     
     let processed = 0;
     
-    transaction.oncomplete = () => resolve();
+    transaction.oncomplete = () => {
+      addNotesToIndex(notes);
+      resolve();
+    };
     transaction.onerror = () => reject(transaction.error);
 
     notes.forEach(note => {
       store.put(note);
     });
   });
-};
\ No newline at end of file
+};
+
+// --- Embeddings ---
+
+const toStoredEmbedding = (embedding: NoteEmbedding): StoredEmbedding => ({
+  ...embedding,
+  vector: Float32Array.from(embedding.vector),
+  chunks: embedding.chunks?.map(chunk => ({ ...chunk, vector: Float32Array.from(chunk.vector) })),
+});
+
+const fromStoredEmbedding = (stored: StoredEmbedding): NoteEmbedding => ({
+  ...stored,
+  vector: Array.from(stored.vector),
+  chunks: stored.chunks?.map(chunk => ({ ...chunk, vector: Array.from(chunk.vector) })),
+});
+
+// Removes every model's embedding for a note
+const deleteEmbeddingsInStore = (store: IDBObjectStore, noteId: string) => {
+  const request = store.index('noteId').getAllKeys(noteId);
+  request.onsuccess = () => {
+    request.result.forEach(key => store.delete(key));
+  };
+};
+
+/** Embeddings for the given notes produced by `model`; notes without one are skipped */
+export const getEmbeddings = async (noteIds: string[], model: string): Promise<NoteEmbedding[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readonly');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    const found: NoteEmbedding[] = [];
+
+    noteIds.forEach(noteId => {
+      const request = store.get([noteId, model]);
+      request.onsuccess = () => {
+        if (request.result) found.push(fromStoredEmbedding(request.result as StoredEmbedding));
+      };
+    });
+
+    transaction.oncomplete = () => resolve(found);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** Insert or replace embeddings; each is keyed by its noteId and modelUsed */
+export const saveEmbeddings = async (embeddings: NoteEmbedding[]): Promise<void> => {
+  if (embeddings.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    embeddings.forEach(embedding => {
+      store.put(toStoredEmbedding(embedding));
+    });
+  });
+};
+
+/** Delete embeddings (any model) whose note is not in `liveNoteIds`; resolves to the number removed */
+export const pruneEmbeddings = async (liveNoteIds: string[]): Promise<number> => {
+  const live = new Set(liveNoteIds);
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    let removed = 0;
+
+    // Key cursor over the noteId index: no vectors are read
+    const request = store.index('noteId').openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!live.has(cursor.key as string)) {
+        store.delete(cursor.primaryKey);
+        removed++;
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve(removed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** Distinct embedding models present in the store */
+export const getEmbeddingModels = async (): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readonly');
+    const request = transaction.objectStore(EMBEDDINGS_STORE).index('modelUsed').openKeyCursor(null, 'nextunique');
+    const models: string[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      models.push(cursor.key as string);
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve(models);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteEmbeddingsForModel = async (model: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    const request = store.index('modelUsed').getAllKeys(model);
+
+    request.onsuccess = () => {
+      request.result.forEach(key => store.delete(key));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteEmbeddings = async (noteIds: string[]): Promise<void> => {
+  if (noteIds.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([EMBEDDINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    noteIds.forEach(noteId => deleteEmbeddingsInStore(store, noteId));
+  });
+};
+
+// --- Search Index ---
+
+export const getSearchIndexEntries = async (): Promise<SearchIndexEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_INDEX_STORE], 'readonly');
+    const request = transaction.objectStore(SEARCH_INDEX_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result as SearchIndexEntry[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Insert or replace `entries` and delete the entries of `removedNoteIds`, in one transaction */
+export const updateSearchIndexEntries = async (
+  entries: SearchIndexEntry[],
+  removedNoteIds: string[]
+): Promise<void> => {
+  if (entries.length === 0 && removedNoteIds.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_INDEX_STORE], 'readwrite');
+    const store = transaction.objectStore(SEARCH_INDEX_STORE);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    entries.forEach(entry => store.put(entry));
+    removedNoteIds.forEach(id => store.delete(id));
+  });
+};
+
+export const clearSearchIndexEntries = async (): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_INDEX_STORE], 'readwrite');
+    transaction.objectStore(SEARCH_INDEX_STORE).clear();
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Cluster Snapshots ---
+
+export const saveClusterSnapshot = async (snapshot: ClusterSnapshot): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** Every snapshot, newest first */
+export const getClusterSnapshots = async (): Promise<ClusterSnapshot[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readonly');
+    const request = transaction.objectStore(SNAPSHOTS_STORE).getAll();
+
+    request.onsuccess = () => {
+      const snapshots = request.result as ClusterSnapshot[];
+      snapshots.sort((a, b) => b.createdAt - a.createdAt);
+      resolve(snapshots);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getClusterSnapshot = async (id: string): Promise<ClusterSnapshot | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readonly');
+    const request = transaction.objectStore(SNAPSHOTS_STORE).get(id);
+
+    request.onsuccess = () => resolve((request.result as ClusterSnapshot | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteClusterSnapshots = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+
+    ids.forEach(id => store.delete(id));
+  });
+};
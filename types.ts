@@ -10,7 +10,8 @@ export interface Note {
 export enum SearchMode {
   EXACT = "EXACT", // Grep-style
   SEMANTIC = "SEMANTIC", // LLM-based understanding
-  HYBRID = "HYBRID", // Both
+  VECTOR = "VECTOR", // Embedding cosine similarity
+  HYBRID = "HYBRID", // Exact + semantic (LLM or vector)
 }
 
 export interface ClusterNode {
@@ -20,6 +21,12 @@ export interface ClusterNode {
   children?: ClusterNode[];
   noteId?: string; // If type is note
   description?: string; // Why this cluster exists
+  userNamed?: boolean; // Name set by the user; kept when notes are re-clustered
+}
+
+export interface SearchSourceRank {
+  rank: number; // 1-based position within that source's results
+  score: number; // Raw score reported by that source
 }
 
 export interface SearchResult {
@@ -27,6 +34,10 @@ export interface SearchResult {
   score: number;
   reason?: string; // Why matched (for semantic search)
   highlight?: string; // Snippet
+  sources?: {
+    exact?: SearchSourceRank;
+    semantic?: SearchSourceRank; // LLM or vector, whichever ran
+  };
 }
 
 export interface ProcessingStatus {
@@ -43,7 +54,10 @@ export interface ClusteringDecision {
   clusterAssignments: Record<string, string>; // noteId -> clusterId
   clusterDescriptions: Record<string, string>; // clusterId -> description
   confidence: number; // 0-1, how confident the clustering was
-  method: "initial" | "refinement" | "incremental";
+  method: "initial" | "refinement" | "incremental" | "manual";
+  userProvided?: boolean; // A correction the user made, e.g. moving a note in the graph
+  parameters?: ClusteringParameters[]; // How embeddings were partitioned, per level
+  lineage?: ClusterLineageEvent[]; // Clusters that split or merged since the previous run
 }
 
 export interface ClusteringMemory {
@@ -68,14 +82,49 @@ export interface MemoryBuffer {
 }
 // --- Embedding & Hybrid Clustering Types (Phase 2) ---
 
+export interface EmbeddingChunk {
+  start: number; // Offset into note.content
+  end: number;
+  heading?: string; // Nearest Markdown heading above the chunk
+  vector: number[];
+}
+
 export interface NoteEmbedding {
   noteId: string;
-  vector: number[]; // Dense embedding vector
+  vector: number[]; // Dense embedding vector (length-weighted mean of chunk vectors)
   timestamp: number;
   modelUsed: string; // e.g., "gemini-embedding-001"
   textLength: number; // For caching decisions
+  contentHash?: string; // hashNoteContent() of the note when embedded; a mismatch means stale
+  chunks?: EmbeddingChunk[]; // Per-chunk vectors covering the full content
+}
+
+export interface EmbeddingMigrationProgress {
+  targetModel: string;
+  completed: number; // Notes with a current embedding under targetModel
+  failed: number; // Notes that could not be embedded this run
+  total: number;
+  done: boolean;
+}
+
+// A note whose embedding could not be generated, kept until a retry succeeds
+export interface EmbeddingFailure {
+  noteId: string;
+  title: string;
+  error: string;
+  attempts: number; // Embedding runs that failed for this note
+  lastAttempt: number;
+}
+
+// BM25 term frequencies of one note, persisted by services/searchIndex.ts
+export interface SearchIndexEntry {
+  noteId: string;
+  signature: string; // hashNoteContent() of the note when indexed
+  length: number; // Token count, title tokens weighted
+  tf: Record<string, number>; // Term -> weighted frequency
 }
 
+// Legacy LocalStorage format (embedding_index_v1), only read to migrate to IndexedDB
 export interface EmbeddingIndex {
   embeddings: NoteEmbedding[];
   lastUpdated: number;
@@ -95,6 +144,136 @@ export interface EmbeddingPartition {
   centroid?: number[]; // Average embedding
   silhouetteScore?: number; // Cluster quality metric
 }
+
+// How embeddings are partitioned (services/clusteringAlgorithms.ts)
+export type ClusteringAlgorithm =
+  | "threshold" // Connected components of the similarity graph
+  | "kmeans" // k-means++ with automatic k
+  | "agglomerative" // Average-linkage hierarchical clustering
+  | "hdbscan"; // Density-based, finds the number of clusters itself
+
+// Note pairs a partitioning must keep together / apart (clusteringAlgorithms.ts)
+export interface PartitionConstraints {
+  mustLink: [string, string][];
+  cannotLink: [string, string][];
+}
+
+export type TuningMetric = "silhouette" | "daviesBouldin";
+
+// Bounds an auto-tuned partitioning must respect (clusteringTuning.ts)
+export interface SizeConstraints {
+  minClusterSize?: number; // Notes
+  maxClusterSize?: number; // Notes
+  minClusters?: number;
+  maxClusters?: number;
+}
+
+// Overrides for the default constraints of each hierarchy level
+export interface AutoTuneOptions {
+  metric?: TuningMetric; // Default "silhouette"
+  domains?: SizeConstraints;
+  subtopics?: SizeConstraints;
+}
+
+export interface ClusteringParameters {
+  level: "domains" | "subtopics";
+  depth?: number; // 1 = domains, 2 = subtopics, 3+ = subtopics of subtopics
+  scope?: string; // Cluster split into subtopics
+  algorithm: ClusteringAlgorithm;
+  threshold?: number;
+  k?: number;
+  minClusterSize?: number;
+  autoTuned: boolean;
+  metric?: TuningMetric; // Set when auto-tuned
+  score?: number;
+  candidatesTried?: number;
+  withinConstraints?: boolean;
+}
+
+// --- Cluster Identity (services/clusterIdentity.ts) ---
+
+export interface ClusterLineageEvent {
+  type: "split" | "merge";
+  depth: number; // 1 = top-level clusters
+  from: string[]; // Cluster ids before re-clustering
+  to: string[]; // Cluster ids after re-clustering
+}
+
+// --- Cluster Tree Editing & History (clusteringService.ts) ---
+
+// A manual edit requested from the graph's context menu
+export type ClusterEdit =
+  | { type: "rename"; clusterId: string; name: string; description?: string }
+  | { type: "merge"; clusterId: string; targetId: string } // Into targetId
+  | { type: "split"; clusterId: string }
+  | { type: "move"; clusterId: string; parentId: string | null }; // null = top level
+
+export type ClusterCommandType =
+  | "moveNote"
+  | "deleteNote"
+  | "rename"
+  | "merge"
+  | "split"
+  | "moveCluster"
+  | "incremental" // New notes added to existing clusters
+  | "recluster" // Full clustering run
+  | "restore"; // A snapshot restored
+
+// One change to the cluster tree; undo restores the `before` tree, redo the `after` tree
+export interface ClusterCommand {
+  id: string;
+  type: ClusterCommandType;
+  label: string; // Shown on the undo/redo buttons
+  timestamp: number;
+  before: number; // Index into ClusterHistory.states
+  after: number; // Index into ClusterHistory.states
+}
+
+export interface ClusterHistory {
+  states: ClusterNode[][]; // Every tree a command starts or ends at, each stored once
+  commands: ClusterCommand[]; // Oldest first
+  cursor: number; // Commands before the cursor are applied; the rest can be redone
+}
+
+// --- Cluster Snapshots (services/clusterSnapshots.ts) ---
+
+export interface ClusterSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  automatic: boolean; // Taken after a clustering run rather than by the user
+  method: ClusteringDecision["method"]; // "manual" for snapshots the user took
+  algorithm?: ClusteringAlgorithm;
+  parameters?: ClusteringParameters[]; // Thresholds / k used per level
+  quality?: LevelQuality; // Overall quality of the tree, when it was measured
+  noteCount: number;
+  clusterCount: number; // At every depth
+  clusters: ClusterNode[];
+}
+
+export interface SnapshotNoteChange {
+  noteId: string;
+  title: string;
+  from?: string; // Cluster path ("Domain / Subtopic") before; unset for added notes
+  to?: string; // Cluster path after; unset for removed notes
+}
+
+export interface SnapshotClusterChange {
+  clusterId: string;
+  name: string; // Name after (before, for removed clusters)
+  previousName?: string; // Set for renamed clusters
+}
+
+// What changed from one cluster tree to another
+export interface ClusterSnapshotDiff {
+  movedNotes: SnapshotNoteChange[];
+  addedNotes: SnapshotNoteChange[];
+  removedNotes: SnapshotNoteChange[];
+  createdClusters: SnapshotClusterChange[];
+  removedClusters: SnapshotClusterChange[];
+  renamedClusters: SnapshotClusterChange[];
+}
+
 // --- Semantic Enhancement & Constraints (Phase 3) ---
 
 export interface SemanticCentroid {
@@ -139,4 +318,46 @@ export interface SemanticClusteringResult {
   constraints: ConstraintSet;
   iterations: number;
   finalConfidence: number;
+  report?: ClusteringReport; // Quality metrics, when embeddings are available
+  userCorrections?: UserCorrectionSummary;
+}
+
+// Pins (manual moves included) still in place after a re-cluster
+export interface UserCorrectionSummary {
+  total: number; // Notes the user pinned to a cluster
+  preserved: number; // Still in the cluster they are pinned to
+  lost: string[]; // Note ids that ended up elsewhere
+}
+
+// --- Clustering Quality (services/clusteringMetrics.ts) ---
+
+export interface ClusterQuality {
+  clusterId: string;
+  name: string;
+  depth: number; // 1 = top-level cluster
+  size: number; // Notes, including those in subclusters
+  silhouette: number; // -1..1, mean over the cluster's notes (higher is better)
+  intraSimilarity: number; // Mean pairwise cosine between its notes
+  interSimilarity: number; // Mean cosine to the notes of the nearest cluster
+  nearestClusterName?: string; // Most similar cluster at the same depth
+}
+
+export interface LevelQuality {
+  depth: number; // 0 = every note in its own (deepest) cluster
+  clusterCount: number;
+  noteCount: number;
+  silhouette: number; // Mean over notes, -1..1
+  daviesBouldin: number; // >= 0, lower is better
+  intraSimilarity: number; // Size-weighted mean of cluster intraSimilarity
+  interSimilarity: number; // Mean cosine between clusters
+}
+
+export interface ClusteringReport {
+  createdAt: number;
+  algorithm?: ClusteringAlgorithm; // Unset when the current tree was evaluated
+  noteCount: number;
+  overall: LevelQuality; // Notes grouped by the cluster directly above them
+  levels: LevelQuality[]; // Depth 1 (domains), 2 (subtopics), ...
+  clusters: ClusterQuality[];
+  userCorrections?: UserCorrectionSummary; // Set after a full clustering run
 }
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", "dist/**"],
+    setupFiles: ["./vitest.setup.ts"],
+    // The services log heavily; only surface warnings and errors
+    onConsoleLog: (_log, type) => type === "stderr",
+  },
+});
@@ -0,0 +1,42 @@
+/**
+ * Test environment shims: in-memory IndexedDB and LocalStorage, an online
+ * navigator, and the offline mock LLM provider so no test touches the network.
+ */
+import "fake-indexeddb/auto";
+import { beforeEach } from "vitest";
+
+class MemoryStorage implements Storage {
+  private data = new Map<string, string>();
+
+  get length() {
+    return this.data.size;
+  }
+
+  clear(): void {
+    this.data.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.data.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, String(value));
+  }
+}
+
+Object.defineProperty(globalThis, "localStorage", { value: new MemoryStorage(), configurable: true });
+Object.defineProperty(globalThis, "navigator", { value: { onLine: true }, configurable: true });
+process.env.LLM_PROVIDER = "mock";
+
+beforeEach(() => {
+  localStorage.clear();
+});